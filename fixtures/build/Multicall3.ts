@@ -0,0 +1,48 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+export const Multicall3Abi = [
+	{
+		inputs: [
+			{
+				components: [
+					{ internalType: 'address', name: 'target', type: 'address' },
+					{ internalType: 'bool', name: 'allowFailure', type: 'bool' },
+					{ internalType: 'bytes', name: 'callData', type: 'bytes' },
+				],
+				internalType: 'struct Multicall3.Call3[]',
+				name: 'calls',
+				type: 'tuple[]',
+			},
+		],
+		name: 'aggregate3',
+		outputs: [
+			{
+				components: [
+					{ internalType: 'bool', name: 'success', type: 'bool' },
+					{ internalType: 'bytes', name: 'returnData', type: 'bytes' },
+				],
+				internalType: 'struct Multicall3.Result[]',
+				name: 'returnData',
+				type: 'tuple[]',
+			},
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+] as const;
+export const Multicall3Bytecode =
+	'0x608060405234801561001057600080fd5b5061082b806100206000396000f3fe60806040526004361061001e5760003560e01c806382ad56cb14610023575b600080fd5b61003d600480360381019061003891906102aa565b610053565b60405161004a91906104a1565b60405180910390f35b606060008383905090508067ffffffffffffffff811115610077576100766104c3565b5b6040519080825280602002602001820160405280156100b057816020015b61009d61021f565b8152602001906001900390816100955790505b50915060005b818110156102175760008382815181106100d3576100d26104f2565b5b60200260200101519050368686848181106100f1576100f06104f2565b5b90506020028101906101039190610530565b905080600001602081019061011891906105b6565b73ffffffffffffffffffffffffffffffffffffffff1681806040019061013e91906105e3565b60405161014c929190610685565b6000604051808303816000865af19150503d8060008114610189576040519150601f19603f3d011682016040523d82523d6000602084013e61018e565b606091505b508360000184602001829052821515151581525050508060200160208101906101b791906106ca565b806101c3575081600001515b610202576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016101f990610754565b60405180910390fd5b5050808061020f906107ad565b9150506100b6565b505092915050565b6040518060400160405280600015158152602001606081525090565b600080fd5b600080fd5b600080fd5b600080fd5b600080fd5b60008083601f84011261026a57610269610245565b5b8235905067ffffffffffffffff8111156102875761028661024a565b5b6020830191508360208202830111156102a3576102a261024f565b5b9250929050565b600080602083850312156102c1576102c061023b565b5b600083013567ffffffffffffffff8111156102df576102de610240565b5b6102eb85828601610254565b92509250509250929050565b600081519050919050565b600082825260208201905092915050565b6000819050602082019050919050565b60008115159050919050565b61033881610323565b82525050565b600081519050919050565b600082825260208201905092915050565b60005b8381101561037857808201518184015260208101905061035d565b60008484015250505050565b6000601f19601f8301169050919050565b60006103a08261033e565b6103aa8185610349565b93506103ba81856020860161035a565b6103c381610384565b840191505092915050565b60006040830160008301516103e6600086018261032f565b50602083015184820360208601526103fe8282610395565b9150508091505092915050565b600061041783836103ce565b905092915050565b6000602082019050919050565b6000610437826102f7565b6104418185610302565b93508360208202850161045385610313565b8060005b8581101561048f5784840389528151610470858261040b565b945061047b8361041f565b925060208a01995050600181019050610457565b50829750879550505050505092915050565b600060208201905081810360008301526104bb818461042c565b905092915050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b600080fd5b600080fd5b600080fd5b60008235600160600383360303811261054c5761054b610521565b5b80830191505092915050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b600061058382610558565b9050919050565b61059381610578565b811461059e57600080fd5b50565b6000813590506105b08161058a565b92915050565b6000602082840312156105cc576105cb61023b565b5b60006105da848285016105a1565b91505092915050565b60008083356001602003843603038112610600576105ff610521565b5b80840192508235915067ffffffffffffffff82111561062257610621610526565b5b60208301925060018202360383131561063e5761063d61052b565b5b509250929050565b600081905092915050565b82818337600083830152505050565b600061066c8385610646565b9350610679838584610651565b82840190509392505050565b6000610692828486610660565b91508190509392505050565b6106a781610323565b81146106b257600080fd5b50565b6000813590506106c48161069e565b92915050565b6000602082840312156106e0576106df61023b565b5b60006106ee848285016106b5565b91505092915050565b600082825260208201905092915050565b7f4d756c746963616c6c333a2063616c6c206661696c6564000000000000000000600082015250565b600061073e6017836106f7565b915061074982610708565b602082019050919050565b6000602082019050818103600083015261076d81610731565b9050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b6000819050919050565b60006107b8826107a3565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff82036107ea576107e9610774565b5b60018201905091905056fea264697066735822122038befef8565080c00d098bef3108d735768adb6f276d2043e47ca3ea279d088364736f6c63430008100033';
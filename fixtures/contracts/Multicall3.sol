@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: GNU
+
+pragma solidity ^0.8.13;
+
+// The aggregate3 function of the Multicall3 contract (https://github.com/mds1/multicall)
+contract Multicall3 {
+	struct Call3 {
+		address target;
+		bool allowFailure;
+		bytes callData;
+	}
+
+	struct Result {
+		bool success;
+		bytes returnData;
+	}
+
+	function aggregate3(Call3[] calldata calls) public payable returns (Result[] memory returnData) {
+		uint256 length = calls.length;
+		returnData = new Result[](length);
+		for (uint256 i = 0; i < length; i++) {
+			Result memory result = returnData[i];
+			Call3 calldata call = calls[i];
+			(result.success, result.returnData) = call.target.call(call.callData);
+			require(call.allowFailure || result.success, 'Multicall3: call failed');
+		}
+	}
+}
@@ -0,0 +1,404 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import {
+	ConnectionError,
+	ConnectionTimeoutError,
+	FallbackProviderError,
+	MethodNotImplementedError,
+	ProviderError,
+	QuorumNotReachedError,
+	ResponseError,
+} from '@etn-sc/web3-errors';
+import {
+	EthExecutionAPI,
+	JsonRpcResponseWithResult,
+	Web3APIMethod,
+	Web3APIPayload,
+	Web3APIReturnType,
+	Web3APISpec,
+	Web3BaseProvider,
+	Web3ProviderStatus,
+} from '@etn-sc/web3-types';
+import { isNullish, jsonRpc } from '@etn-sc/web3-utils';
+
+export const DEFAULT_FALLBACK_COOLDOWN = 5000;
+export const DEFAULT_QUORUM_METHODS = [
+	'eth_blockNumber',
+	'eth_call',
+	'eth_chainId',
+	'eth_getBalance',
+	'eth_getCode',
+	'eth_getStorageAt',
+	'eth_getTransactionCount',
+];
+
+export interface FallbackProviderConfig<API extends Web3APISpec = EthExecutionAPI> {
+	provider: Web3BaseProvider<API>;
+	/**
+	 * Providers with a lower priority are tried first, `0` by default
+	 */
+	priority?: number;
+}
+
+export interface FallbackProviderOptions {
+	/**
+	 * The number of providers that must return the same result to the `quorumMethods`.
+	 * `1`, the default, disables the quorum mode.
+	 */
+	quorum?: number;
+	/**
+	 * The methods sent to all the providers in quorum mode
+	 */
+	quorumMethods?: string[];
+	/**
+	 * The time in milliseconds a failing provider is skipped for, unless all the providers are failing
+	 */
+	cooldown?: number;
+	/**
+	 * The interval in milliseconds of the health checks, which send `eth_blockNumber` to every provider.
+	 * No health checks are run if not given.
+	 */
+	healthCheckInterval?: number;
+	/**
+	 * Whether an error thrown by a provider should fail over to the next provider.
+	 * By default the connection errors, the timeouts, the network errors of fetch and the HTTP 5xx responses do,
+	 * while the JSON-RPC error responses are returned as they are.
+	 * A transaction sent before a timeout is never sent to another provider, as it may have been broadcast.
+	 */
+	shouldFailover?: (error: unknown) => boolean;
+}
+
+// The transaction of a timed out request may still be broadcast, sending it again could broadcast it twice
+const TRANSACTION_METHODS = ['eth_sendRawTransaction', 'eth_sendTransaction'];
+
+// The messages of the `TypeError` thrown by fetch on a network error, in Node.js, Chrome, Firefox and Safari
+const FETCH_NETWORK_ERROR_MESSAGES = [
+	'fetch failed',
+	'Failed to fetch',
+	'NetworkError when attempting to fetch resource',
+	'Load failed',
+];
+
+const isFetchNetworkError = (error: unknown): boolean =>
+	(error instanceof TypeError &&
+		FETCH_NETWORK_ERROR_MESSAGES.some(message => error.message.includes(message))) ||
+	// node-fetch
+	(error as Error | undefined)?.name === 'FetchError';
+
+const defaultShouldFailover = (error: unknown): boolean =>
+	error instanceof ConnectionError ||
+	isFetchNetworkError(error) ||
+	(error instanceof ResponseError && !isNullish(error.statusCode) && error.statusCode >= 500);
+
+interface ProviderState<API extends Web3APISpec> {
+	provider: Web3BaseProvider<API>;
+	priority: number;
+	healthy: boolean;
+	failedAt: number;
+}
+
+/**
+ * A provider wrapping several providers of the same chain: requests go to the provider with the lowest priority
+ * and fail over to the next one on connection errors. In quorum mode, the `quorumMethods` are sent to all
+ * the providers and the result returned by at least `quorum` of them is used.
+ *
+ * ```ts
+ * const provider = new FallbackProvider(
+ * 	[
+ * 		{ provider: new HttpProvider('https://rpc-1.example.com'), priority: 0 },
+ * 		{ provider: new HttpProvider('https://rpc-2.example.com'), priority: 1 },
+ * 		new WebSocketProvider('wss://rpc-3.example.com'),
+ * 	],
+ * 	{ quorum: 2, healthCheckInterval: 30000 },
+ * );
+ * const web3 = new Web3(provider);
+ * ```
+ */
+export class FallbackProvider<
+	API extends Web3APISpec = EthExecutionAPI,
+> extends Web3BaseProvider<API> {
+	private readonly _providers: ProviderState<API>[];
+	private readonly _quorum: number;
+	private readonly _quorumMethods: string[];
+	private readonly _cooldown: number;
+	private readonly _shouldFailover: (error: unknown) => boolean;
+	private _healthCheckInterval?: ReturnType<typeof setInterval>;
+
+	public constructor(
+		providers: (Web3BaseProvider<API> | FallbackProviderConfig<API>)[],
+		options: FallbackProviderOptions = {},
+	) {
+		super();
+
+		if (providers.length === 0) {
+			throw new ProviderError('FallbackProvider requires at least one provider');
+		}
+
+		this._providers = providers
+			.map(config =>
+				Web3BaseProvider.isWeb3Provider(config)
+					? { provider: config as Web3BaseProvider<API>, priority: 0 }
+					: {
+							provider: (config as FallbackProviderConfig<API>).provider,
+							priority: (config as FallbackProviderConfig<API>).priority ?? 0,
+					  },
+			)
+			// Array.prototype.sort is stable, providers of the same priority keep their order
+			.sort((a, b) => a.priority - b.priority)
+			.map(config => ({ ...config, healthy: true, failedAt: 0 }));
+
+		this._quorum = options.quorum ?? 1;
+		if (this._quorum < 1) {
+			throw new ProviderError(`The quorum of ${this._quorum} is lower than 1`);
+		}
+		if (this._quorum > this._providers.length) {
+			throw new ProviderError(
+				`The quorum of ${this._quorum} is higher than the number of providers (${this._providers.length})`,
+			);
+		}
+		this._quorumMethods = options.quorumMethods ?? DEFAULT_QUORUM_METHODS;
+		this._cooldown = options.cooldown ?? DEFAULT_FALLBACK_COOLDOWN;
+		this._shouldFailover = options.shouldFailover ?? defaultShouldFailover;
+
+		if (!isNullish(options.healthCheckInterval)) {
+			this._healthCheckInterval = setInterval(() => {
+				// checkHealth does not reject, the providers failing the check are only marked as such
+				this.checkHealth().catch(() => undefined);
+			}, options.healthCheckInterval);
+			// The health checks alone do not keep a Node.js process running
+			this._healthCheckInterval.unref?.();
+		}
+	}
+
+	/**
+	 * Will return the wrapped providers, in the order they are tried
+	 */
+	public get providers() {
+		return this._providers.map(({ provider }) => provider);
+	}
+
+	public getStatus(): Web3ProviderStatus {
+		return this._providers.some(state => state.healthy) ? 'connected' : 'disconnected';
+	}
+
+	/* eslint-disable class-methods-use-this */
+	public supportsSubscriptions() {
+		// Subscriptions are bound to a connection and can not fail over
+		return false;
+	}
+
+	public async request<
+		Method extends Web3APIMethod<API>,
+		ResultType = Web3APIReturnType<API, Method>,
+	>(payload: Web3APIPayload<API, Method>): Promise<JsonRpcResponseWithResult<ResultType>> {
+		if (this._quorum > 1 && this._quorumMethods.includes(payload.method as string)) {
+			return this._requestWithQuorum<Method, ResultType>(payload);
+		}
+
+		return this._requestWithFallback<Method, ResultType>(payload, this._orderedProviders(), []);
+	}
+
+	/**
+	 * Sends `eth_blockNumber` to every provider and marks them healthy or failing.
+	 *
+	 * @returns `true` for the providers that answered, in the order they are tried
+	 */
+	public async checkHealth(): Promise<boolean[]> {
+		return Promise.all(
+			this._providers.map(async state => {
+				try {
+					await state.provider.request(
+						jsonRpc.toPayload({
+							method: 'eth_blockNumber',
+							params: [],
+						}) as Web3APIPayload<API, Web3APIMethod<API>>,
+					);
+					this._markHealthy(state);
+				} catch {
+					this._markFailed(state);
+				}
+				return state.healthy;
+			}),
+		);
+	}
+
+	// Available providers first, the providers in their cooldown period last
+	private _orderedProviders(): ProviderState<API>[] {
+		const now = Date.now();
+		const isAvailable = (state: ProviderState<API>) =>
+			state.healthy || now - state.failedAt >= this._cooldown;
+
+		return [
+			...this._providers.filter(isAvailable),
+			...this._providers.filter(state => !isAvailable(state)),
+		];
+	}
+
+	private async _requestWithFallback<
+		Method extends Web3APIMethod<API>,
+		ResultType = Web3APIReturnType<API, Method>,
+	>(
+		payload: Web3APIPayload<API, Method>,
+		providers: ProviderState<API>[],
+		errors: Error[],
+	): Promise<JsonRpcResponseWithResult<ResultType>> {
+		const [state, ...nextProviders] = providers;
+
+		if (isNullish(state)) {
+			throw new FallbackProviderError(errors);
+		}
+
+		try {
+			const response = await state.provider.request<Method, ResultType>(payload);
+			this._markHealthy(state);
+			return response;
+		} catch (error) {
+			if (
+				(error instanceof ConnectionTimeoutError &&
+					TRANSACTION_METHODS.includes(payload.method as string)) ||
+				!this._shouldFailover(error)
+			) {
+				throw error;
+			}
+			this._markFailed(state);
+			return this._requestWithFallback<Method, ResultType>(payload, nextProviders, [
+				...errors,
+				error as Error,
+			]);
+		}
+	}
+
+	private async _requestWithQuorum<
+		Method extends Web3APIMethod<API>,
+		ResultType = Web3APIReturnType<API, Method>,
+	>(payload: Web3APIPayload<API, Method>): Promise<JsonRpcResponseWithResult<ResultType>> {
+		const results = await Promise.allSettled(
+			this._providers.map(async state => {
+				try {
+					const response = await state.provider.request<Method, ResultType>(payload);
+					this._markHealthy(state);
+					return response;
+				} catch (error) {
+					this._markFailed(state);
+					throw error;
+				}
+			}),
+		);
+
+		const errors: Error[] = [];
+		const groups = new Map<
+			string,
+			{ response: JsonRpcResponseWithResult<ResultType>; count: number }
+		>();
+
+		for (const result of results) {
+			if (result.status === 'rejected') {
+				errors.push(result.reason as Error);
+			} else {
+				// Responses agree when they have the same result, or the same error
+				// eslint-disable-next-line @typescript-eslint/no-unused-vars
+				const { id, jsonrpc, ...outcome } = result.value;
+				const key = JSON.stringify(outcome, (_, value) =>
+					typeof value === 'bigint' ? value.toString() : (value as unknown),
+				);
+				const group = groups.get(key);
+				groups.set(key, { response: result.value, count: (group?.count ?? 0) + 1 });
+			}
+		}
+
+		const agreement = [...groups.values()].sort((a, b) => b.count - a.count)[0];
+		if (isNullish(agreement) || agreement.count < this._quorum) {
+			throw new QuorumNotReachedError(
+				this._quorum,
+				results.length - errors.length,
+				errors.length > 0 ? errors : undefined,
+			);
+		}
+
+		return agreement.response;
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	private _markHealthy(state: ProviderState<API>) {
+		// eslint-disable-next-line no-param-reassign
+		state.healthy = true;
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	private _markFailed(state: ProviderState<API>) {
+		// eslint-disable-next-line no-param-reassign
+		state.healthy = false;
+		// eslint-disable-next-line no-param-reassign
+		state.failedAt = Date.now();
+	}
+
+	/* eslint-disable class-methods-use-this */
+	public on() {
+		throw new MethodNotImplementedError();
+	}
+
+	/* eslint-disable class-methods-use-this */
+	public removeListener() {
+		throw new MethodNotImplementedError();
+	}
+
+	/* eslint-disable class-methods-use-this */
+	public once() {
+		throw new MethodNotImplementedError();
+	}
+
+	/* eslint-disable class-methods-use-this */
+	public removeAllListeners() {
+		throw new MethodNotImplementedError();
+	}
+
+	/**
+	 * Connects the wrapped socket providers
+	 */
+	public connect() {
+		for (const { provider } of this._providers) {
+			if (provider.supportsSubscriptions()) {
+				provider.connect();
+			}
+		}
+	}
+
+	/**
+	 * Stops the health checks and disconnects the wrapped socket providers
+	 */
+	public disconnect(code?: number, data?: string) {
+		clearInterval(this._healthCheckInterval);
+		this._healthCheckInterval = undefined;
+
+		for (const { provider } of this._providers) {
+			if (provider.supportsSubscriptions()) {
+				provider.disconnect(code, data);
+			}
+		}
+	}
+
+	/**
+	 * Marks all the providers as healthy again
+	 */
+	public reset() {
+		for (const state of this._providers) {
+			this._markHealthy(state);
+			state.failedAt = 0;
+		}
+	}
+}
@@ -21,6 +21,9 @@ export * from './web3_subscription_manager.js';
 export * from './web3_subscriptions.js';
 export * from './web3_context.js';
 export * from './web3_batch_request.js';
+export * from './fallback_provider.js';
+export * from './response_cache.js';
+export * from './rate_limiter.js';
 export * from './utils.js';
 export * from './types.js';
 export * from './formatters.js';
@@ -0,0 +1,202 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { JsonRpcPayload, JsonRpcResponse } from '@etn-sc/web3-types';
+import { isNullish, jsonRpc } from '@etn-sc/web3-utils';
+import { RequestManagerMiddleware } from './types.js';
+import { Web3EventEmitter } from './web3_event_emitter.js';
+
+export enum RequestRateLimiterEvent {
+	QUEUE_CHANGED = 'QUEUE_CHANGED',
+}
+
+export interface RequestRateLimiterQueueState {
+	/**
+	 * The number of requests waiting to be sent
+	 */
+	queued: number;
+	/**
+	 * The number of requests sent and not answered yet
+	 */
+	inFlight: number;
+}
+
+export interface RequestRateLimiterOptions {
+	/**
+	 * The number of requests sent per second on average, not limited if not given
+	 */
+	requestsPerSecond?: number;
+	/**
+	 * The number of requests that can be sent at once after an idle period, `requestsPerSecond` by default
+	 */
+	burst?: number;
+	/**
+	 * The maximum number of requests in flight, not limited if not given
+	 */
+	maxConcurrent?: number;
+	/**
+	 * The priority of a request, the requests of higher priority are sent first.
+	 * By default the transactions are sent before the other requests.
+	 */
+	getPriority?: (payload: JsonRpcPayload) => number;
+}
+
+export const TRANSACTION_REQUEST_PRIORITY = 1;
+
+const transactionMethods = ['eth_sendRawTransaction', 'eth_sendTransaction'];
+
+const defaultGetPriority = (payload: JsonRpcPayload) =>
+	!jsonRpc.isBatchRequest(payload) && transactionMethods.includes(payload.method)
+		? TRANSACTION_REQUEST_PRIORITY
+		: 0;
+
+interface QueuedRequest {
+	payload: JsonRpcPayload;
+	priority: number;
+	cost: number;
+	send: () => void;
+}
+
+/**
+ * A {@link RequestManagerMiddleware} limiting the rate of the requests with a token bucket,
+ * and the number of requests in flight. The requests over the limits wait in a priority queue.
+ * A batch request counts as one request per entry.
+ *
+ * ```ts
+ * const rateLimiter = new RequestRateLimiter({ requestsPerSecond: 25, maxConcurrent: 10 });
+ * rateLimiter.on(RequestRateLimiterEvent.QUEUE_CHANGED, ({ queued, inFlight }) =>
+ * 	console.log(`${queued} requests queued, ${inFlight} in flight`),
+ * );
+ * web3.requestManager.use(rateLimiter);
+ * ```
+ */
+export class RequestRateLimiter
+	extends Web3EventEmitter<{
+		[RequestRateLimiterEvent.QUEUE_CHANGED]: RequestRateLimiterQueueState;
+	}>
+	implements RequestManagerMiddleware
+{
+	private readonly _requestsPerSecond?: number;
+	private readonly _burst: number;
+	private readonly _maxConcurrent: number;
+	private readonly _getPriority: (payload: JsonRpcPayload) => number;
+	private _tokens: number;
+	private _refilledAt: number;
+	private _inFlight = 0;
+	private readonly _queue: QueuedRequest[] = [];
+	private _refillTimeout?: ReturnType<typeof setTimeout>;
+
+	public constructor(options: RequestRateLimiterOptions = {}) {
+		super();
+		this._requestsPerSecond = options.requestsPerSecond;
+		this._burst = options.burst ?? options.requestsPerSecond ?? Infinity;
+		this._maxConcurrent = options.maxConcurrent ?? Infinity;
+		this._getPriority = options.getPriority ?? defaultGetPriority;
+		this._tokens = this._burst;
+		this._refilledAt = Date.now();
+	}
+
+	/**
+	 * Will return the number of queued and in flight requests
+	 */
+	public get queueState(): RequestRateLimiterQueueState {
+		return { queued: this._queue.length, inFlight: this._inFlight };
+	}
+
+	public async processRequest(payload: JsonRpcPayload): Promise<JsonRpcPayload> {
+		const cost = Math.min(jsonRpc.isBatchRequest(payload) ? payload.length : 1, this._burst);
+
+		return new Promise(resolve => {
+			const request = {
+				payload,
+				priority: this._getPriority(payload),
+				cost,
+				send: () => resolve(payload),
+			};
+
+			// Insert after the requests of the same or higher priority, to keep their order
+			const index = this._queue.findIndex(queued => queued.priority < request.priority);
+			if (index === -1) {
+				this._queue.push(request);
+			} else {
+				this._queue.splice(index, 0, request);
+			}
+
+			this._sendQueuedRequests();
+		});
+	}
+
+	public async processResponse(response: JsonRpcResponse): Promise<JsonRpcResponse> {
+		this._release();
+		return Promise.resolve(response);
+	}
+
+	public async processError(error: unknown): Promise<JsonRpcResponse> {
+		this._release();
+		return Promise.reject(error);
+	}
+
+	private _release() {
+		this._inFlight -= 1;
+		this._sendQueuedRequests();
+	}
+
+	private _refill() {
+		if (isNullish(this._requestsPerSecond)) {
+			return;
+		}
+
+		const now = Date.now();
+		this._tokens = Math.min(
+			this._burst,
+			this._tokens + ((now - this._refilledAt) * this._requestsPerSecond) / 1000,
+		);
+		this._refilledAt = now;
+	}
+
+	private _sendQueuedRequests() {
+		this._refill();
+
+		while (this._queue.length > 0 && this._inFlight < this._maxConcurrent) {
+			const [next] = this._queue;
+
+			if (this._tokens < next.cost) {
+				this._scheduleRefill(next.cost);
+				break;
+			}
+
+			this._queue.shift();
+			this._tokens -= next.cost;
+			this._inFlight += 1;
+			next.send();
+		}
+
+		this.emit(RequestRateLimiterEvent.QUEUE_CHANGED, this.queueState);
+	}
+
+	private _scheduleRefill(cost: number) {
+		if (!isNullish(this._refillTimeout) || isNullish(this._requestsPerSecond)) {
+			return;
+		}
+
+		const delay = Math.ceil(((cost - this._tokens) * 1000) / this._requestsPerSecond);
+		this._refillTimeout = setTimeout(() => {
+			this._refillTimeout = undefined;
+			this._sendQueuedRequests();
+		}, delay);
+	}
+}
@@ -0,0 +1,476 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+/* eslint-disable max-classes-per-file */
+
+import {
+	BlockNumberOrTag,
+	JsonRpcNotification,
+	JsonRpcPayload,
+	JsonRpcRequest,
+	JsonRpcResponse,
+	JsonRpcSubscriptionResultOld,
+	Web3BaseProvider,
+} from '@etn-sc/web3-types';
+import { isNullish, jsonRpc } from '@etn-sc/web3-utils';
+import { RequestManagerMiddleware } from './types.js';
+import { isSupportSubscriptions } from './utils.js';
+import { Web3RequestManager } from './web3_request_manager.js';
+
+export const DEFAULT_RESPONSE_CACHE_SIZE = 1000;
+export const DEFAULT_HEAD_CHECK_INTERVAL = 1000;
+
+/**
+ * A store of the {@link ResponseCache}, implement it to keep the responses out of memory.
+ */
+export interface ResponseCacheStore {
+	get(key: string): Promise<JsonRpcResponse | undefined>;
+	set(key: string, response: JsonRpcResponse): Promise<void>;
+	delete(key: string): Promise<void>;
+	clear(): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+	/**
+	 * The store of the responses, an {@link LRUResponseCacheStore} of `maxSize` entries by default
+	 */
+	store?: ResponseCacheStore;
+	/**
+	 * The number of responses kept by the default store
+	 */
+	maxSize?: number;
+	/**
+	 * The request manager checking the latest and finalized block numbers, usually the one using the cache.
+	 * Without it, only the responses at a block hash and the chain id are cached.
+	 */
+	requestManager?: Web3RequestManager;
+	/**
+	 * The time in milliseconds during which the last checked block numbers are used, 1000 by default.
+	 * When the head is polled, a response at a moving block tag or above the finalized block
+	 * may be answered from the cache up to `headCheckInterval` milliseconds after a new head.
+	 */
+	headCheckInterval?: number;
+	/**
+	 * Whether to drop the responses of the previous head on the `newHeads` notifications, `true` by default.
+	 * It is only done when the provider of the `requestManager` supports subscriptions,
+	 * otherwise, or if the subscription fails, the head is polled every `headCheckInterval` milliseconds.
+	 */
+	subscribeToNewHeads?: boolean;
+}
+
+export interface ResponseCacheStats {
+	hits: number;
+	misses: number;
+}
+
+/**
+ * An in-memory {@link ResponseCacheStore} evicting the least recently used responses above `maxSize` entries.
+ */
+export class LRUResponseCacheStore implements ResponseCacheStore {
+	private readonly _maxSize: number;
+	// A Map iterates in insertion order, the first key is the least recently used one
+	private readonly _entries = new Map<string, JsonRpcResponse>();
+
+	public constructor(maxSize = DEFAULT_RESPONSE_CACHE_SIZE) {
+		this._maxSize = maxSize;
+	}
+
+	public get size() {
+		return this._entries.size;
+	}
+
+	public async get(key: string) {
+		const response = this._entries.get(key);
+
+		if (!isNullish(response)) {
+			this._entries.delete(key);
+			this._entries.set(key, response);
+		}
+
+		return Promise.resolve(response);
+	}
+
+	public async set(key: string, response: JsonRpcResponse) {
+		this._entries.delete(key);
+		this._entries.set(key, response);
+
+		if (this._entries.size > this._maxSize) {
+			this._entries.delete(this._entries.keys().next().value as string);
+		}
+
+		return Promise.resolve();
+	}
+
+	public async delete(key: string) {
+		this._entries.delete(key);
+
+		return Promise.resolve();
+	}
+
+	public async clear() {
+		this._entries.clear();
+
+		return Promise.resolve();
+	}
+}
+
+// The position of the block parameter of the methods whose result is fixed at a given block
+const blockParamIndex: Record<string, number> = {
+	eth_getBlockByNumber: 0,
+	eth_getBalance: 1,
+	eth_getCode: 1,
+	eth_call: 1,
+	eth_getStorageAt: 2,
+};
+
+// Block tags whose block changes with the chain head, the `pending` block is never cached
+const movingBlockTags = ['latest', 'safe', 'finalized'];
+
+// Methods whose result never changes
+const immutableMethods = ['eth_chainId', 'eth_getBlockByHash'];
+
+// Methods whose result is fixed once mined, until a reorganization of its block
+const minedMethods = ['eth_getTransactionByHash', 'eth_getTransactionReceipt'];
+
+// The request of the finalized block, sent by the head check through the middlewares too
+const FINALIZED_BLOCK_REQUEST = { method: 'eth_getBlockByNumber', params: ['finalized', false] };
+
+type Cacheability = 'immutable' | 'head' | undefined;
+
+const getBlockParam = ({ method, params }: JsonRpcRequest): unknown =>
+	params?.[blockParamIndex[method]] ?? 'latest';
+
+const isCachedMethod = (payload: JsonRpcRequest) =>
+	immutableMethods.includes(payload.method) ||
+	minedMethods.includes(payload.method) ||
+	(!isNullish(blockParamIndex[payload.method]) && getBlockParam(payload) !== 'pending');
+
+/**
+ * A {@link RequestManagerMiddleware} caching the responses of read-only requests:
+ * the blocks, balances, code, storage and `eth_call` results at a given block, and the mined transactions and receipts.
+ * The nonces (`eth_getTransactionCount`) and the requests at the `pending` block are never cached.
+ *
+ * The responses at a block hash are kept, as are the ones at a block up to the finalized block.
+ * The responses at a moving block tag (`latest`, ...) or at a block above the finalized block are dropped
+ * on every new head. The middleware checks the latest and finalized block numbers with the given `requestManager`,
+ * on every `newHeads` notification when its provider supports subscriptions,
+ * or else at most once every `headCheckInterval` milliseconds.
+ *
+ * ```ts
+ * const cache = new ResponseCache({ maxSize: 10000, requestManager: web3.requestManager });
+ * web3.requestManager.use(cache);
+ * ```
+ */
+export class ResponseCache implements RequestManagerMiddleware {
+	private readonly _store: ResponseCacheStore;
+	private readonly _requestManager?: Web3RequestManager;
+	private readonly _headCheckInterval: number;
+	// The keys of the responses to drop on a new head
+	private readonly _headKeys = new Set<string>();
+	private _stats: ResponseCacheStats = { hits: 0, misses: 0 };
+	private _blockNumber?: bigint;
+	private _finalizedBlockNumber?: bigint;
+	private _headCheckedAt = 0;
+	private _headCheck?: Promise<void>;
+	// Set before the requests of the head check are sent, as the middlewares see them synchronously
+	private _checkingHead = false;
+	private readonly _subscribeToNewHeads: boolean;
+	// The provider the `newHeads` subscription was sent to, and the subscription id, if any
+	private _newHeadsProvider?: Web3BaseProvider;
+	private _newHeadsSubscription?: Promise<string | undefined>;
+	private _newHeadsId?: string;
+	private readonly _listenedProviders = new WeakSet<Web3BaseProvider>();
+
+	public constructor(options: ResponseCacheOptions = {}) {
+		this._store = options.store ?? new LRUResponseCacheStore(options.maxSize);
+		this._requestManager = options.requestManager;
+		this._headCheckInterval = options.headCheckInterval ?? DEFAULT_HEAD_CHECK_INTERVAL;
+		this._subscribeToNewHeads = options.subscribeToNewHeads ?? true;
+	}
+
+	/**
+	 * Will return the number of requests answered from the cache (hits) or sent to the provider (misses)
+	 */
+	public get stats(): ResponseCacheStats {
+		return { ...this._stats };
+	}
+
+	public resetStats() {
+		this._stats = { hits: 0, misses: 0 };
+	}
+
+	/**
+	 * Drops the responses which may change on a new head, it is done on every new block number
+	 */
+	public async invalidateHead() {
+		const keys = [...this._headKeys];
+		this._headKeys.clear();
+
+		await Promise.all(keys.map(async key => this._store.delete(key)));
+	}
+
+	/**
+	 * Drops all the cached responses
+	 */
+	public async clear() {
+		this._headKeys.clear();
+		await this._store.clear();
+	}
+
+	public async processRequest(
+		payload: JsonRpcPayload,
+	): Promise<JsonRpcPayload | { response: JsonRpcResponse }> {
+		if (
+			jsonRpc.isBatchRequest(payload) ||
+			!isCachedMethod(payload) ||
+			this._isHeadCheckRequest(payload)
+		) {
+			return payload;
+		}
+
+		if (!immutableMethods.includes(payload.method)) {
+			await this._checkHead();
+		}
+
+		const response = await this._store.get(ResponseCache._getKey(payload));
+		if (isNullish(response)) {
+			this._stats.misses += 1;
+			return payload;
+		}
+
+		this._stats.hits += 1;
+		return { response: { ...response, id: payload.id } as JsonRpcResponse };
+	}
+
+	public async processResponse(
+		response: JsonRpcResponse,
+		payload: JsonRpcPayload,
+	): Promise<JsonRpcResponse> {
+		if (
+			jsonRpc.isBatchRequest(payload) ||
+			!jsonRpc.isResponseWithResult(response) ||
+			isNullish(response.result) ||
+			!isCachedMethod(payload) ||
+			this._isHeadCheckRequest(payload)
+		) {
+			return response;
+		}
+
+		const cacheability = await this._getCacheability(payload, response.result);
+		if (isNullish(cacheability)) {
+			return response;
+		}
+
+		const key = ResponseCache._getKey(payload);
+		if (cacheability === 'head') {
+			this._headKeys.add(key);
+		}
+		await this._store.set(key, response);
+
+		return response;
+	}
+
+	private async _getCacheability(
+		payload: JsonRpcRequest,
+		result: unknown,
+	): Promise<Cacheability> {
+		if (immutableMethods.includes(payload.method)) {
+			return 'immutable';
+		}
+
+		if (minedMethods.includes(payload.method)) {
+			const { blockHash, blockNumber } = result as {
+				blockHash?: string;
+				blockNumber?: BlockNumberOrTag;
+			};
+			return isNullish(blockHash) ? undefined : this._getBlockCacheability(blockNumber);
+		}
+
+		const block = getBlockParam(payload);
+		// EIP-1898 block parameter, e.g. `{ blockHash: '0x...' }`
+		if (typeof block === 'object' && !isNullish(block)) {
+			const { blockHash, blockNumber } = block as {
+				blockHash?: string;
+				blockNumber?: BlockNumberOrTag;
+			};
+			return isNullish(blockHash) ? this._getBlockCacheability(blockNumber) : 'immutable';
+		}
+
+		return this._getBlockCacheability(block as BlockNumberOrTag);
+	}
+
+	// The responses at a block up to the finalized block are kept, the other ones until the next head
+	private async _getBlockCacheability(
+		block: BlockNumberOrTag | undefined,
+	): Promise<Cacheability> {
+		if (block === 'earliest') {
+			return 'immutable';
+		}
+		if (isNullish(this._requestManager) || isNullish(block)) {
+			return undefined;
+		}
+
+		await this._checkHead();
+		if (
+			!movingBlockTags.includes(String(block)) &&
+			!isNullish(this._finalizedBlockNumber) &&
+			BigInt(block) <= this._finalizedBlockNumber
+		) {
+			return 'immutable';
+		}
+
+		return 'head';
+	}
+
+	// Drops the responses of the previous head if the block number changed since the last check
+	private async _checkHead() {
+		if (isNullish(this._requestManager)) {
+			return;
+		}
+
+		this._newHeadsId = await this._getNewHeadsSubscription(this._requestManager);
+		// With the subscription, the head is only checked again after a new head, for its finalized block
+		const isChecked = isNullish(this._newHeadsId)
+			? Date.now() - this._headCheckedAt < this._headCheckInterval
+			: this._headCheckedAt > 0;
+		if (isChecked) {
+			return;
+		}
+
+		if (isNullish(this._headCheck)) {
+			this._checkingHead = true;
+			this._headCheck = this._fetchHead(this._requestManager).finally(() => {
+				this._checkingHead = false;
+				this._headCheck = undefined;
+			});
+		}
+		await this._headCheck;
+	}
+
+	private async _fetchHead(requestManager: Web3RequestManager) {
+		const [blockNumber, finalizedBlock] = await Promise.all([
+			requestManager.send<'eth_blockNumber', string>({
+				method: 'eth_blockNumber',
+				params: [],
+			}),
+			// Not every chain has a finalized block
+			requestManager
+				.send<'eth_getBlockByNumber', { number?: string } | undefined>(
+					FINALIZED_BLOCK_REQUEST,
+				)
+				.catch(() => undefined),
+		]);
+
+		this._headCheckedAt = Date.now();
+		const finalizedBlockNumber = finalizedBlock?.number;
+		this._finalizedBlockNumber = isNullish(finalizedBlockNumber)
+			? undefined
+			: BigInt(finalizedBlockNumber);
+		if (BigInt(blockNumber) !== this._blockNumber) {
+			this._blockNumber = BigInt(blockNumber);
+			await this.invalidateHead();
+		}
+	}
+
+	// Subscribes once to the new heads of the current provider, the id is undefined if it has no subscriptions
+	private async _getNewHeadsSubscription(requestManager: Web3RequestManager) {
+		const provider = requestManager.provider as Web3BaseProvider | undefined;
+
+		if (provider !== this._newHeadsProvider || isNullish(this._newHeadsSubscription)) {
+			this._newHeadsProvider = provider;
+			this._newHeadsSubscription =
+				this._subscribeToNewHeads &&
+				!isNullish(provider) &&
+				isSupportSubscriptions(provider) &&
+				typeof provider.on === 'function'
+					? this._sendNewHeadsSubscription(requestManager, provider)
+					: Promise.resolve(undefined);
+		}
+
+		return this._newHeadsSubscription;
+	}
+
+	private async _sendNewHeadsSubscription(
+		requestManager: Web3RequestManager,
+		provider: Web3BaseProvider,
+	): Promise<string | undefined> {
+		if (!this._listenedProviders.has(provider)) {
+			this._listenedProviders.add(provider);
+			provider.on('message', (message: unknown) =>
+				this._processNewHead(
+					provider,
+					message as JsonRpcNotification | JsonRpcSubscriptionResultOld,
+				),
+			);
+			// The subscription is lost with the connection, the next check subscribes again
+			provider.on('reconnect', () => {
+				if (this._newHeadsProvider === provider) {
+					this._newHeadsSubscription = undefined;
+					this._headCheckedAt = 0;
+				}
+			});
+		}
+
+		try {
+			return await requestManager.send<'eth_subscribe', string>({
+				method: 'eth_subscribe',
+				params: ['newHeads'],
+			});
+		} catch {
+			// The head is polled instead
+			return undefined;
+		}
+	}
+
+	private _processNewHead(
+		provider: Web3BaseProvider,
+		message: JsonRpcNotification | JsonRpcSubscriptionResultOld,
+	) {
+		const notification =
+			(message as JsonRpcNotification).params ??
+			(message as JsonRpcSubscriptionResultOld).data;
+		if (
+			provider !== this._newHeadsProvider ||
+			isNullish(this._newHeadsId) ||
+			notification?.subscription !== this._newHeadsId
+		) {
+			return;
+		}
+
+		const { number } = (notification.result ?? {}) as { number?: string };
+		if (isNullish(number) || BigInt(number) === this._blockNumber) {
+			return;
+		}
+		this._blockNumber = BigInt(number);
+		// The finalized block number is checked again by the next request
+		this._headCheckedAt = 0;
+		this.invalidateHead().catch(() => undefined);
+	}
+
+	// The requests of a head check in progress are not cached, they would wait for the check itself
+	private _isHeadCheckRequest(payload: JsonRpcRequest) {
+		return (
+			this._checkingHead &&
+			ResponseCache._getKey(payload) ===
+				ResponseCache._getKey(FINALIZED_BLOCK_REQUEST as JsonRpcRequest)
+		);
+	}
+
+	private static _getKey({ method, params }: JsonRpcRequest) {
+		return JSON.stringify([method, params ?? []]);
+	}
+}
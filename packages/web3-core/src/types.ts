@@ -15,7 +15,13 @@ You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 
-import { HexString, Transaction } from '@etn-sc/web3-types';
+import {
+	HexString,
+	JsonRpcPayload,
+	JsonRpcRequest,
+	JsonRpcResponse,
+	Transaction,
+} from '@etn-sc/web3-types';
 
 export type TransactionTypeParser = (
 	transaction: Transaction,
@@ -30,3 +36,80 @@ export interface ExtensionObject {
 	property?: string;
 	methods: Method[];
 }
+
+/**
+ * A middleware of the {@link Web3RequestManager} request pipeline, added with `requestManager.use()`.
+ * All hooks are optional.
+ */
+export interface RequestManagerMiddleware {
+	/**
+	 * Called before the request is sent. Returns the payload to send, possibly rewritten,
+	 * or `{ response }` to answer the request without sending it (e.g. from a cache).
+	 */
+	processRequest?: (
+		payload: JsonRpcPayload,
+	) => Promise<JsonRpcPayload | { response: JsonRpcResponse }>;
+	/**
+	 * Called with the response of the provider, returns the response to pass on.
+	 */
+	processResponse?: (
+		response: JsonRpcResponse,
+		payload: JsonRpcPayload,
+	) => Promise<JsonRpcResponse>;
+	/**
+	 * Called when sending the request failed. Returns a response to recover from the error,
+	 * or throws to replace it.
+	 */
+	processError?: (error: unknown, payload: JsonRpcPayload) => Promise<JsonRpcResponse>;
+}
+
+/**
+ * The options of the automatic request batching of the {@link Web3RequestManager},
+ * enabled with `requestManager.enableBatching()`.
+ */
+export interface RequestBatchingOptions {
+	/**
+	 * The time in milliseconds to collect requests before sending them as a batch.
+	 * With `0`, the default, the requests issued in the same tick are batched together.
+	 */
+	wait?: number;
+	/**
+	 * The maximum number of requests in a batch, a full batch is sent right away. `100` by default.
+	 */
+	maxBatchSize?: number;
+	/**
+	 * Whether identical read requests share the response of the one already in flight. `true` by default.
+	 */
+	deduplicate?: boolean;
+}
+
+export interface Web3BatchRequestOptions {
+	/**
+	 * The time in milliseconds after which the pending requests of the batch are aborted
+	 */
+	timeout?: number;
+}
+
+/**
+ * The options of {@link Web3BatchRequest.execute} settling each request on its own.
+ */
+export interface Web3BatchRequestPartialOptions extends Web3BatchRequestOptions {
+	partial: true;
+	/**
+	 * The maximum number of requests sent in one batch, the requests are split in several batches above it
+	 */
+	maxBatchSize?: number;
+	/**
+	 * The number of times the requests missing from the batch response, or whose batch failed, are sent again.
+	 * The requests answered with a JSON-RPC error are not retried.
+	 */
+	retries?: number;
+}
+
+/**
+ * The outcome of a request of a {@link Web3BatchRequest} executed with `partial: true`,
+ * in the shape of the results of `Promise.allSettled`.
+ */
+export type Web3BatchRequestResult =
+	| { request: JsonRpcRequest; status: 'fulfilled'; value: unknown }
+	| { request: JsonRpcRequest; status: 'rejected'; reason: unknown };
@@ -19,13 +19,18 @@ import { JsonRpcBatchResponse, JsonRpcOptionalRequest, JsonRpcRequest } from '@e
 import { jsonRpc, Web3DeferredPromise } from '@etn-sc/web3-utils';
 import { OperationAbortError, OperationTimeoutError, ResponseError } from '@etn-sc/web3-errors';
 import { Web3RequestManager } from './web3_request_manager.js';
+import {
+	Web3BatchRequestOptions,
+	Web3BatchRequestPartialOptions,
+	Web3BatchRequestResult,
+} from './types.js';
 
 export const DEFAULT_BATCH_REQUEST_TIMEOUT = 1000;
 
 export class Web3BatchRequest {
 	private readonly _requestManager: Web3RequestManager;
 	private readonly _requests: Map<
-		number,
+		string,
 		{ payload: JsonRpcRequest; promise: Web3DeferredPromise<unknown> }
 	>;
 
@@ -42,26 +47,55 @@ export class Web3BatchRequest {
 		const payload = jsonRpc.toPayload(request) as JsonRpcRequest;
 		const promise = new Web3DeferredPromise<ResponseType>();
 
-		this._requests.set(payload.id as number, { payload, promise });
+		this._requests.set(String(payload.id), { payload, promise });
 
 		return promise;
 	}
 
-	// eslint-disable-next-line class-methods-use-this
-	public async execute(options?: {
-		timeout?: number;
-	}): Promise<JsonRpcBatchResponse<unknown, unknown>> {
+	/**
+	 * Sends the requests of the batch.
+	 *
+	 * By default, the batch fails as a whole if the response does not hold one entry per request,
+	 * and resolves with the batch response.
+	 * With `partial: true`, the requests can be split in several batches of `maxBatchSize` requests,
+	 * the requests missing from the responses are retried up to `retries` times, and each request is settled
+	 * on its own. It then resolves with the {@link Web3BatchRequestResult} of each request.
+	 *
+	 * ```ts
+	 * const results = await batch.execute({ partial: true, maxBatchSize: 50, retries: 2, timeout: 10000 });
+	 * const failed = results.filter(result => result.status === 'rejected');
+	 * ```
+	 *
+	 * @param options - The timeout of the whole execution, and the partial execution options
+	 */
+	public async execute(
+		options?: Web3BatchRequestOptions,
+	): Promise<JsonRpcBatchResponse<unknown, unknown>>;
+	public async execute(
+		options: Web3BatchRequestPartialOptions,
+	): Promise<Web3BatchRequestResult[]>;
+	public async execute(
+		options?: Web3BatchRequestOptions | Web3BatchRequestPartialOptions,
+	): Promise<JsonRpcBatchResponse<unknown, unknown> | Web3BatchRequestResult[]> {
 		if (this.requests.length === 0) {
 			return Promise.resolve([]);
 		}
 
-		const request = new Web3DeferredPromise<JsonRpcBatchResponse<unknown, unknown>>({
+		const request = new Web3DeferredPromise<
+			JsonRpcBatchResponse<unknown, unknown> | Web3BatchRequestResult[]
+		>({
 			timeout: options?.timeout ?? DEFAULT_BATCH_REQUEST_TIMEOUT,
 			eagerStart: true,
 			timeoutMessage: 'Batch request timeout',
 		});
 
-		this._processBatchRequest(request).catch(err => request.reject(err));
+		if (options && 'partial' in options && options.partial) {
+			this._processPartialBatchRequest(options)
+				.then(results => request.resolve(results))
+				.catch(err => request.reject(err));
+		} else {
+			this._processBatchRequest(request).catch(err => request.reject(err));
+		}
 
 		request.catch((err: Error) => {
 			if (err instanceof OperationTimeoutError) {
@@ -74,8 +108,101 @@ export class Web3BatchRequest {
 		return request;
 	}
 
+	private async _processPartialBatchRequest({
+		maxBatchSize,
+		retries = 0,
+	}: Web3BatchRequestPartialOptions): Promise<Web3BatchRequestResult[]> {
+		const results = new Map<string, Web3BatchRequestResult>();
+		let pendingRequests = [...this._requests.values()];
+
+		for (let attempt = 0; attempt <= retries && pendingRequests.length > 0; attempt += 1) {
+			const chunkSize = maxBatchSize ?? pendingRequests.length;
+			const chunks = [];
+			for (let i = 0; i < pendingRequests.length; i += chunkSize) {
+				chunks.push(pendingRequests.slice(i, i + chunkSize));
+			}
+
+			// eslint-disable-next-line no-await-in-loop
+			const failedRequests = await Promise.all(
+				chunks.map(async chunk => this._processChunk(chunk, results)),
+			);
+			pendingRequests = failedRequests.flat();
+		}
+
+		for (const { payload, promise } of pendingRequests) {
+			const result = results.get(String(payload.id));
+			promise.reject((result as { reason: unknown }).reason);
+		}
+
+		return this.requests.map(
+			payload => results.get(String(payload.id)) as Web3BatchRequestResult,
+		);
+	}
+
+	// Settles the requests answered in the batch response and returns the ones to retry
+	private async _processChunk(
+		chunk: { payload: JsonRpcRequest; promise: Web3DeferredPromise<unknown> }[],
+		results: Map<string, Web3BatchRequestResult>,
+	) {
+		let response: JsonRpcBatchResponse<unknown, unknown>;
+		try {
+			response = await this._requestManager.sendBatch(chunk.map(r => r.payload));
+		} catch (error) {
+			for (const { payload } of chunk) {
+				results.set(String(payload.id), {
+					request: payload,
+					status: 'rejected',
+					reason: error,
+				});
+			}
+			return chunk;
+		}
+
+		const responses = new Map(
+			(Array.isArray(response) ? response : []).map(res => [String(res.id), res]),
+		);
+		const failedRequests = [];
+
+		for (const { payload, promise } of chunk) {
+			const res = responses.get(String(payload.id));
+
+			if (res && jsonRpc.isResponseWithResult(res)) {
+				results.set(String(payload.id), {
+					request: payload,
+					status: 'fulfilled',
+					value: res.result,
+				});
+				promise.resolve(res.result);
+			} else if (res && jsonRpc.isResponseWithError(res)) {
+				results.set(String(payload.id), {
+					request: payload,
+					status: 'rejected',
+					reason: res.error,
+				});
+				promise.reject(res.error);
+			} else {
+				results.set(String(payload.id), {
+					request: payload,
+					status: 'rejected',
+					reason: new ResponseError(
+						response,
+						`Batch response is missing the response of the request ${String(
+							payload.id,
+						)}`,
+						payload,
+					),
+				});
+				failedRequests.push({ payload, promise });
+			}
+		}
+
+		return failedRequests;
+	}
+
 	private async _processBatchRequest(
-		promise: Web3DeferredPromise<JsonRpcBatchResponse<unknown, unknown>>,
+		promise: Web3DeferredPromise<
+			JsonRpcBatchResponse<unknown, unknown> | Web3BatchRequestResult[]
+		>,
 	) {
 		const response = await this._requestManager.sendBatch(
 			[...this._requests.values()].map(r => r.payload),
@@ -92,13 +219,13 @@ export class Web3BatchRequest {
 
 		const requestIds = this.requests
 			.map(r => r.id)
-			.map(Number)
-			.sort((a, b) => a - b);
+			.map(String)
+			.sort((a, b) => a.localeCompare(b));
 
 		const responseIds = response
 			.map(r => r.id)
-			.map(Number)
-			.sort((a, b) => a - b);
+			.map(String)
+			.sort((a, b) => a.localeCompare(b));
 
 		if (JSON.stringify(requestIds) !== JSON.stringify(responseIds)) {
 			this._abortAllRequests('Invalid batch response');
@@ -111,9 +238,9 @@ export class Web3BatchRequest {
 
 		for (const res of response) {
 			if (jsonRpc.isResponseWithResult(res)) {
-				this._requests.get(res.id as number)?.promise.resolve(res.result);
+				this._requests.get(String(res.id))?.promise.resolve(res.result);
 			} else if (jsonRpc.isResponseWithError(res)) {
-				this._requests.get(res.id as number)?.promise.reject(res.error);
+				this._requests.get(String(res.id))?.promise.reject(res.error);
 			}
 		}
 
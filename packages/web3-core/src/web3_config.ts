@@ -20,7 +20,7 @@ import { ConfigHardforkMismatchError, ConfigChainMismatchError } from '@etn-sc/w
 import { isNullish, toHex } from '@etn-sc/web3-utils';
 import { TransactionTypeParser } from './types.js';
 // eslint-disable-next-line import/no-cycle
-import { TransactionBuilder } from './web3_context.js';
+import { FeeEstimator, TransactionBuilder } from './web3_context.js';
 import { Web3EventEmitter } from './web3_event_emitter.js';
 
 // To avoid cycle dependency declare this
@@ -52,6 +52,8 @@ export interface Web3ConfigOptions {
 	};
 	transactionBuilder?: TransactionBuilder;
 	transactionTypeParser?: TransactionTypeParser;
+	feeEstimator?: FeeEstimator;
+	priorityFeeEstimator?: FeeEstimator;
 }
 
 type ConfigEvent<T, P extends keyof T = keyof T> = P extends unknown
@@ -93,6 +95,8 @@ export abstract class Web3Config
 		},
 		transactionBuilder: undefined,
 		transactionTypeParser: undefined,
+		feeEstimator: undefined,
+		priorityFeeEstimator: undefined,
 	};
 
 	public constructor(options?: Partial<Web3ConfigOptions>) {
@@ -490,6 +494,40 @@ export abstract class Web3Config
 		this.config.transactionTypeParser = val;
 	}
 
+	/**
+	 * The `feeEstimator` is used to fill `maxPriorityFeePerGas` and `maxFeePerGas` of EIP-1559 and priority (type `0x40`) transactions
+	 * when they are not provided. When not set, `maxPriorityFeePerGas` defaults to {@link Web3Config.defaultMaxPriorityFeePerGas}
+	 * and `maxFeePerGas` to twice the base fee of the latest block plus `maxPriorityFeePerGas`.
+	 * See `createFeeHistoryEstimator` in `web3-eth` for an estimator based on the fee history of the chain.
+	 */
+	public get feeEstimator() {
+		return this.config.feeEstimator;
+	}
+
+	/**
+	 * Will set the feeEstimator
+	 */
+	public set feeEstimator(val) {
+		this._triggerConfigChange('feeEstimator', val);
+		this.config.feeEstimator = val;
+	}
+
+	/**
+	 * The `priorityFeeEstimator` is used instead of {@link Web3Config.feeEstimator} for priority (type `0x40`) transactions,
+	 * which lets the priority lane follow a different fee policy.
+	 */
+	public get priorityFeeEstimator() {
+		return this.config.priorityFeeEstimator;
+	}
+
+	/**
+	 * Will set the priorityFeeEstimator
+	 */
+	public set priorityFeeEstimator(val) {
+		this._triggerConfigChange('priorityFeeEstimator', val);
+		this.config.priorityFeeEstimator = val;
+	}
+
 	private _triggerConfigChange<K extends keyof Web3ConfigOptions>(
 		config: K,
 		newValue: Web3ConfigOptions[K],
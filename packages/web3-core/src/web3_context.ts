@@ -25,6 +25,7 @@ import {
 	EthExecutionAPI,
 	Web3BaseProvider,
 	Transaction,
+	Numbers,
 } from '@etn-sc/web3-types';
 import { isNullish } from '@etn-sc/web3-utils';
 import { ExistingPluginNamespaceError } from '@etn-sc/web3-errors';
@@ -405,6 +406,12 @@ export type TransactionBuilder<API extends Web3APISpec = unknown> = <
 	fillGasPrice?: boolean;
 }) => Promise<ReturnType>;
 
+// To avoid cycle dependency declare this type in this file
+export type FeeEstimator<API extends Web3APISpec = unknown> = (options: {
+	transaction: Transaction;
+	web3Context: Web3Context<API>;
+}) => Promise<{ maxPriorityFeePerGas: Numbers; maxFeePerGas: Numbers }>;
+
 /**
  * Extend this class when creating a plugin that either doesn't require {@link EthExecutionAPI},
  * or interacts with a RPC node that doesn't fully implement {@link EthExecutionAPI}.
@@ -44,7 +44,13 @@ import {
 	Web3BaseProviderConstructor,
 	JsonRpcRequest
 } from '@etn-sc/web3-types';
-import { isNullish, isPromise, jsonRpc, isResponseRpcError } from '@etn-sc/web3-utils';
+import {
+	isNullish,
+	isPromise,
+	jsonRpc,
+	isResponseRpcError,
+	Web3DeferredPromise,
+} from '@etn-sc/web3-utils';
 import {
 	isEIP1193Provider,
 	isLegacyRequestProvider,
@@ -54,6 +60,7 @@ import {
 	isMetaMaskProvider,
 } from './utils.js';
 import { Web3EventEmitter } from './web3_event_emitter.js';
+import { RequestBatchingOptions, RequestManagerMiddleware } from './types.js';
 
 export enum Web3RequestManagerEvent {
 	PROVIDER_CHANGED = 'PROVIDER_CHANGED',
@@ -68,6 +75,30 @@ const availableProviders: {
 	WebsocketProvider: WSProvider as Web3BaseProviderConstructor,
 };
 
+export const DEFAULT_BATCHING_WAIT = 0;
+export const DEFAULT_MAX_BATCH_SIZE = 100;
+
+// Requests without side effects, identical in-flight ones can share their response
+const deduplicatedMethods = new Set([
+	'eth_blockNumber',
+	'eth_call',
+	'eth_chainId',
+	'eth_estimateGas',
+	'eth_feeHistory',
+	'eth_gasPrice',
+	'eth_getBalance',
+	'eth_getBlockByHash',
+	'eth_getBlockByNumber',
+	'eth_getCode',
+	'eth_getLogs',
+	'eth_getProof',
+	'eth_getStorageAt',
+	'eth_getTransactionByHash',
+	'eth_getTransactionCount',
+	'eth_getTransactionReceipt',
+	'eth_maxPriorityFeePerGas',
+	'net_version',
+]);
 
 // if input was provided in params, change to data due to metamask only accepting data
 const metamaskPayload = (payload: JsonRpcRequest) => {
@@ -93,6 +124,14 @@ export class Web3RequestManager<
 }> {
 	private _provider?: SupportedProviders<API>;
 	private readonly useRpcCallSpecification?: boolean;
+	private readonly _middlewares: RequestManagerMiddleware[] = [];
+	private _batching?: Required<RequestBatchingOptions>;
+	private _pendingRequests: {
+		payload: JsonRpcRequest;
+		promise: Web3DeferredPromise<JsonRpcResponse<unknown>>;
+	}[] = [];
+	private _batchTimeout?: ReturnType<typeof setTimeout>;
+	private readonly _inflightRequests = new Map<string, Promise<unknown>>();
 	public constructor(
 		provider?: SupportedProviders<API> | string,
 		useRpcCallSpecification?: boolean,
@@ -162,6 +201,71 @@ export class Web3RequestManager<
 		return true;
 	}
 
+	/**
+	 * Adds a middleware to the request pipeline. Middlewares run in the order they were added:
+	 * the first one added sees the request first and the response or error last.
+	 *
+	 * ```ts
+	 * web3.requestManager.use({
+	 * 	processRequest: async payload => payload,
+	 * 	processResponse: async response => response,
+	 * });
+	 * ```
+	 *
+	 * @param middleware - {@link RequestManagerMiddleware} The middleware to add
+	 */
+	public use(middleware: RequestManagerMiddleware) {
+		this._middlewares.push(middleware);
+	}
+
+	/**
+	 * Removes a middleware previously added with {@link Web3RequestManager.use}.
+	 *
+	 * @param middleware - {@link RequestManagerMiddleware} The middleware to remove
+	 * @returns `true` if the middleware was found and removed
+	 */
+	public removeMiddleware(middleware: RequestManagerMiddleware): boolean {
+		const index = this._middlewares.indexOf(middleware);
+		if (index === -1) {
+			return false;
+		}
+		this._middlewares.splice(index, 1);
+		return true;
+	}
+
+	/**
+	 * Enables the automatic batching of the requests sent with {@link Web3RequestManager.send}:
+	 * the requests issued within `wait` milliseconds are sent as one batch request,
+	 * and each caller gets the response to its own request.
+	 * The middlewares still see every request on its own, a request they answer is not batched.
+	 *
+	 * ```ts
+	 * web3.requestManager.enableBatching({ wait: 10, maxBatchSize: 50 });
+	 * // sent as a single batch request
+	 * const [balance, blockNumber] = await Promise.all([
+	 * 	web3.eth.getBalance(address),
+	 * 	web3.eth.getBlockNumber(),
+	 * ]);
+	 * ```
+	 *
+	 * @param options - {@link RequestBatchingOptions} The batching window, the batch size and the deduplication of read requests
+	 */
+	public enableBatching(options: RequestBatchingOptions = {}) {
+		this._batching = {
+			wait: options.wait ?? DEFAULT_BATCHING_WAIT,
+			maxBatchSize: options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE,
+			deduplicate: options.deduplicate ?? true,
+		};
+	}
+
+	/**
+	 * Disables the automatic batching of the requests, the requests waiting for their batch are sent right away.
+	 */
+	public disableBatching() {
+		this._flushBatch();
+		this._batching = undefined;
+	}
+
 	/**
 	 *
 	 * Will execute a request
@@ -175,6 +279,10 @@ export class Web3RequestManager<
 		Method extends Web3APIMethod<API>,
 		ResponseType = Web3APIReturnType<API, Method>,
 	>(request: Web3APIRequest<API, Method>): Promise<ResponseType> {
+		if (!isNullish(this._batching)) {
+			return this._sendBatched<ResponseType>(request);
+		}
+
 		const response = await this._sendRequest<Method, ResponseType>(request);
 		if (jsonRpc.isResponseWithResult(response)) {
 			return response.result;
@@ -194,11 +302,151 @@ export class Web3RequestManager<
 		return response as JsonRpcBatchResponse<unknown>;
 	}
 
+	private async _sendBatched<ResponseType>(
+		request: Web3APIRequest<API, Web3APIMethod<API>>,
+	): Promise<ResponseType> {
+		const payload = jsonRpc.toPayload(request) as JsonRpcRequest;
+
+		if (!this._batching?.deduplicate || !deduplicatedMethods.has(payload.method)) {
+			return this._sendThroughBatch<ResponseType>(payload);
+		}
+
+		const key = JSON.stringify([payload.method, payload.params]);
+		const inflightRequest = this._inflightRequests.get(key);
+		if (!isNullish(inflightRequest)) {
+			return inflightRequest as Promise<ResponseType>;
+		}
+
+		const promise = this._sendThroughBatch<ResponseType>(payload);
+		this._inflightRequests.set(key, promise);
+		const release = () => this._inflightRequests.delete(key);
+		promise.then(release, release);
+
+		return promise;
+	}
+
+	// Runs the middlewares on the request alone, only the payload they pass on waits for the next batch
+	private async _sendThroughBatch<ResponseType>(payload: JsonRpcRequest): Promise<ResponseType> {
+		const response = await this._sendRequest<Web3APIMethod<API>, ResponseType>(
+			payload as Web3APIRequest<API, Web3APIMethod<API>>,
+			async processedPayload =>
+				this._enqueueRequest(processedPayload as JsonRpcRequest) as Promise<
+					JsonRpcResponse<ResponseType>
+				>,
+		);
+		if (jsonRpc.isResponseWithResult(response)) {
+			return response.result;
+		}
+
+		throw new ResponseError(response);
+	}
+
+	private async _enqueueRequest(payload: JsonRpcRequest): Promise<JsonRpcResponse<unknown>> {
+		const promise = new Web3DeferredPromise<JsonRpcResponse<unknown>>();
+		this._pendingRequests.push({ payload, promise });
+
+		if (
+			this._pendingRequests.length >= (this._batching?.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE)
+		) {
+			this._flushBatch();
+		} else if (isNullish(this._batchTimeout)) {
+			this._batchTimeout = setTimeout(
+				() => this._flushBatch(),
+				this._batching?.wait ?? DEFAULT_BATCHING_WAIT,
+			);
+		}
+
+		return promise;
+	}
+
+	// Sends the pending requests straight to the provider, their middlewares already ran
+	private _flushBatch() {
+		clearTimeout(this._batchTimeout);
+		this._batchTimeout = undefined;
+
+		const requests = this._pendingRequests;
+		this._pendingRequests = [];
+
+		if (requests.length === 0) {
+			return;
+		}
+
+		const { provider } = this;
+		if (isNullish(provider)) {
+			const error = new ProviderError(
+				'Provider not available. Use `.setProvider` or `.provider=` to initialize the provider.',
+			);
+			for (const { promise } of requests) {
+				promise.reject(error);
+			}
+			return;
+		}
+
+		if (requests.length === 1) {
+			const [{ payload, promise }] = requests;
+			this._sendPayload(provider, payload)
+				.then(response => promise.resolve(response))
+				.catch(error => promise.reject(error));
+			return;
+		}
+
+		this._sendPayload<never, never>(
+			provider,
+			requests.map(({ payload }) => payload),
+		)
+			.then(batchResponse => {
+				const responses = batchResponse as unknown as JsonRpcBatchResponse<unknown>;
+				// The ids are compared as strings, some providers answer a numeric id as a string
+				const responsesById = new Map(
+					responses.map(response => [String(response.id), response]),
+				);
+
+				for (const { payload, promise } of requests) {
+					const response = responsesById.get(String(payload.id));
+
+					if (isNullish(response)) {
+						promise.reject(
+							new ResponseError(
+								responses,
+								`Batch response is missing the response of the request ${String(
+									payload.id,
+								)}`,
+								payload,
+							),
+						);
+					} else {
+						this._settleBatchedRequest(payload, promise, response);
+					}
+				}
+			})
+			.catch(error => {
+				for (const { promise } of requests) {
+					promise.reject(error);
+				}
+			});
+	}
+
+	// Processes the response of a request out of the batch response, as `_sendPayload` would have
+	private _settleBatchedRequest(
+		payload: JsonRpcRequest,
+		promise: Web3DeferredPromise<JsonRpcResponse<unknown>>,
+		response: JsonRpcResponse<unknown>,
+	) {
+		try {
+			promise.resolve(
+				this._processJsonRpcResponse(payload, response, { legacy: false, error: false }),
+			);
+		} catch (error) {
+			promise.reject(error);
+		}
+	}
+
 	private async _sendRequest<
 		Method extends Web3APIMethod<API>,
 		ResponseType = Web3APIReturnType<API, Method>,
 	>(
 		request: Web3APIRequest<API, Method> | JsonRpcBatchRequest,
+		sendPayload?: (payload: JsonRpcPayload) => Promise<JsonRpcResponse<ResponseType>>,
 	): Promise<JsonRpcResponse<ResponseType>> {
 		const { provider } = this;
 
@@ -221,7 +469,76 @@ export class Web3RequestManager<
 				}
 			}
 		}
-		
+
+		return this._sendThroughMiddlewares<ResponseType>(
+			payload as JsonRpcPayload,
+			0,
+			sendPayload ??
+				(async processedPayload =>
+					this._sendPayload<Method, ResponseType>(provider, processedPayload)),
+		);
+	}
+
+	/**
+	 * Runs the middleware at `index` around the rest of the pipeline: its `processRequest` hook sees the payload
+	 * before the inner middlewares, its `processResponse` and `processError` hooks see the outcome after them.
+	 * The innermost `sendPayload` sends the payload, to the provider or within the next batch.
+	 */
+	private async _sendThroughMiddlewares<ResponseType>(
+		payload: JsonRpcPayload,
+		index: number,
+		sendPayload: (payload: JsonRpcPayload) => Promise<JsonRpcResponse<ResponseType>>,
+	): Promise<JsonRpcResponse<ResponseType>> {
+		const middleware = this._middlewares[index];
+
+		if (isNullish(middleware)) {
+			return sendPayload(payload);
+		}
+
+		let processedPayload = payload;
+		if (!isNullish(middleware.processRequest)) {
+			const processed = await middleware.processRequest(payload);
+
+			// The middleware answered the request itself, skip the inner middlewares and the provider
+			if (!Array.isArray(processed) && 'response' in processed) {
+				return processed.response as JsonRpcResponse<ResponseType>;
+			}
+			processedPayload = processed;
+		}
+
+		let response: JsonRpcResponse<ResponseType>;
+		try {
+			response = await this._sendThroughMiddlewares<ResponseType>(
+				processedPayload,
+				index + 1,
+				sendPayload,
+			);
+		} catch (error) {
+			if (isNullish(middleware.processError)) {
+				throw error;
+			}
+			return (await middleware.processError(
+				error,
+				processedPayload,
+			)) as JsonRpcResponse<ResponseType>;
+		}
+
+		if (isNullish(middleware.processResponse)) {
+			return response;
+		}
+		return (await middleware.processResponse(
+			response as JsonRpcResponse,
+			processedPayload,
+		)) as JsonRpcResponse<ResponseType>;
+	}
+
+	private async _sendPayload<
+		Method extends Web3APIMethod<API>,
+		ResponseType = Web3APIReturnType<API, Method>,
+	>(
+		provider: SupportedProviders<API>,
+		payload: JsonRpcPayload,
+	): Promise<JsonRpcResponse<ResponseType>> {
 		if (isWeb3Provider(provider)) {
 			let response;
 
@@ -52,6 +52,23 @@ export class Web3SubscriptionManager<
 		InstanceType<RegisteredSubs[keyof RegisteredSubs]>
 	> = new Map();
 
+	// The ids given by the node to the subscriptions re-issued after a reconnection, mapped to their original ids
+	private readonly _resubscribedIds = new Map<string, string>();
+
+	/**
+	 * The interval in milliseconds at which the subscriptions are emulated by polling filters
+	 * when the provider does not support subscriptions, like the `HttpProvider`.
+	 * The `logs`, `newHeads` and `newPendingTransactions` subscriptions can be emulated.
+	 * The subscriptions are not emulated if not set.
+	 *
+	 * @example
+	 * ```ts
+	 * web3.subscriptionManager.pollingInterval = 2000;
+	 * const subscription = await web3.eth.subscribe('newHeads');
+	 * ```
+	 */
+	public pollingInterval?: number;
+
 	/**
 	 *
 	 * @param - requestManager
@@ -116,9 +133,38 @@ export class Web3SubscriptionManager<
 				// eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-argument
 				providerAsWebProvider.on<Log>('data', (data: any) => this.messageListener(data));
 			}
+
+			providerAsWebProvider.on('reconnect', () => {
+				this.resubscribeAll().catch(() => {
+					// The errors are emitted by the subscriptions
+				});
+			});
 		}
 	}
 
+	/**
+	 * Re-issues all the subscriptions, keeping their ids, after the provider reconnected.
+	 * This is done automatically when a socket provider reconnects.
+	 * The errors are emitted by the subscriptions failing to resubscribe.
+	 */
+	public async resubscribeAll() {
+		this._resubscribedIds.clear();
+
+		await Promise.all(
+			[...this._subscriptions.entries()].map(async ([id, sub]) => {
+				try {
+					await sub.sendResubscribeRequest(serverId => {
+						if (serverId !== id) {
+							this._resubscribedIds.set(serverId, id);
+						}
+					});
+				} catch (error) {
+					sub._processSubscriptionError(error as Error);
+				}
+			}),
+		);
+	}
+
 	protected messageListener(
 		data?:
 			| JsonRpcSubscriptionResult
@@ -135,7 +181,9 @@ export class Web3SubscriptionManager<
 
 		// Process if the received data is related to a subscription
 		if (subscriptionId) {
-			const sub = this._subscriptions.get(subscriptionId);
+			const sub = this._subscriptions.get(
+				this._resubscribedIds.get(subscriptionId) ?? subscriptionId,
+			);
 			sub?.processSubscriptionData(data);
 		}
 	}
@@ -188,7 +236,7 @@ export class Web3SubscriptionManager<
 			throw new ProviderError('Provider not available');
 		}
 
-		if (!this.supportsSubscriptions()) {
+		if (!this.supportsSubscriptions() && isNullish(this.pollingInterval)) {
 			throw new SubscriptionError('The current provider does not support subscriptions');
 		}
 
@@ -227,6 +275,11 @@ export class Web3SubscriptionManager<
 
 		await sub.sendUnsubscribeRequest();
 		this._subscriptions.delete(id);
+		for (const [serverId, originalId] of this._resubscribedIds) {
+			if (originalId === id) {
+				this._resubscribedIds.delete(serverId);
+			}
+		}
 		return id;
 	}
 	/**
@@ -251,6 +304,7 @@ export class Web3SubscriptionManager<
 	 */
 	public clear() {
 		this._subscriptions.clear();
+		this._resubscribedIds.clear();
 	}
 
 	/**
@@ -21,15 +21,17 @@ import {
 	DEFAULT_RETURN_FORMAT,
 	DataFormat,
 	EthExecutionAPI,
+	Filter,
 	JsonRpcSubscriptionResult,
 	JsonRpcSubscriptionResultOld,
 	JsonRpcNotification,
 	Log,
 	HexString,
+	Numbers,
 	Web3APIParams,
 	Web3APISpec,
 } from '@etn-sc/web3-types';
-import { jsonRpc } from '@etn-sc/web3-utils';
+import { isNullish, jsonRpc, numberToHex } from '@etn-sc/web3-utils';
 import { SubscriptionError } from '@etn-sc/web3-errors';
 
 // eslint-disable-next-line import/no-cycle
@@ -58,6 +60,18 @@ export abstract class Web3Subscription<
 	private readonly _lastBlock?: BlockOutput;
 	private readonly _returnFormat: DataFormat;
 	protected _id?: HexString;
+	// The filter polled when the subscription is emulated, see `_startPolling`
+	private _filterId?: HexString;
+	private _pollingTimeout?: ReturnType<typeof setTimeout>;
+	private _polling = false;
+	// The id given by the node when the subscription was re-issued after a reconnection
+	private _serverId?: HexString;
+	// The number of the block of the last received data, to backfill the logs missed while disconnected
+	private _lastBlockNumber?: bigint;
+	// The keys of the logs received since `_lastBlockNumber`, to drop the ones received twice
+	private readonly _recentLogKeys = new Map<string, bigint>();
+	// The first block of the backfill in progress, the keys of the logs since this block are kept until it completes
+	private _backfillFromBlock?: bigint;
 
 	public constructor(
 		args: ArgsType,
@@ -134,6 +148,13 @@ export abstract class Web3Subscription<
 	}
 
 	public async sendSubscriptionRequest(): Promise<string> {
+		if (
+			!this._subscriptionManager.supportsSubscriptions() &&
+			!isNullish(this._subscriptionManager.pollingInterval)
+		) {
+			return this._startPolling();
+		}
+
 		this._id = await this._subscriptionManager.requestManager.send({
 			method: 'eth_subscribe',
 			params: this._buildSubscriptionParams(),
@@ -143,6 +164,51 @@ export abstract class Web3Subscription<
 		return this._id;
 	}
 
+	/**
+	 * Re-issues the subscription after the provider reconnected, keeping the id of the subscription.
+	 * The logs emitted while disconnected are fetched with `eth_getLogs` from the last block received before,
+	 * the logs received both from the new subscription and the backfill are only emitted once.
+	 *
+	 * @param onSubscribed - Called with the id given by the node before the backfill, to route the new logs meanwhile
+	 * @returns The id given by the node to the new subscription
+	 */
+	public async sendResubscribeRequest(
+		onSubscribed?: (serverId: HexString) => void,
+	): Promise<string> {
+		if (this._polling) {
+			return this._id as HexString;
+		}
+
+		const params = this._buildSubscriptionParams();
+		const [type, filter] = params as [string, Filter?];
+		// Captured before the new subscription moves the last block forward
+		const fromBlock = type === 'logs' ? this._lastBlockNumber : undefined;
+		this._backfillFromBlock = fromBlock;
+
+		try {
+			this._serverId = await this._subscriptionManager.requestManager.send({
+				method: 'eth_subscribe',
+				params,
+			});
+			onSubscribed?.(this._serverId);
+
+			if (!isNullish(fromBlock)) {
+				const logs = await this._ethRequestManager.send({
+					method: 'eth_getLogs',
+					params: [{ ...filter, fromBlock: numberToHex(fromBlock), toBlock: 'latest' }],
+				});
+				for (const log of logs) {
+					this._processSubscriptionResult(log);
+				}
+			}
+		} finally {
+			this._backfillFromBlock = undefined;
+			this._pruneLogKeys();
+		}
+
+		return this._serverId;
+	}
+
 	protected get returnFormat() {
 		return this._returnFormat;
 	}
@@ -165,11 +231,17 @@ export abstract class Web3Subscription<
 	}
 
 	public async sendUnsubscribeRequest() {
+		if (this._polling) {
+			await this._stopPolling();
+			return;
+		}
+
 		await this._subscriptionManager.requestManager.send({
 			method: 'eth_unsubscribe',
-			params: [this.id] as Web3APIParams<API, 'eth_unsubscribe'>,
+			params: [this._serverId ?? this.id] as Web3APIParams<API, 'eth_unsubscribe'>,
 		});
 		this._id = undefined;
+		this._serverId = undefined;
 	}
 
 	// eslint-disable-next-line class-methods-use-this
@@ -178,13 +250,184 @@ export abstract class Web3Subscription<
 	}
 
 	public _processSubscriptionResult(data: CombinedEventMap['data'] | unknown) {
+		if (this._isReceivedLog(data)) {
+			return;
+		}
+
 		this.emit('data', this.formatSubscriptionResult(data));
 	}
 
+	/**
+	 * Tracks the last received block and returns `true` for the logs already received,
+	 * which happens when the logs missed while disconnected are backfilled.
+	 */
+	private _isReceivedLog(data: unknown) {
+		const { blockNumber, number, blockHash, logIndex, removed } = (data ?? {}) as {
+			blockNumber?: Numbers;
+			number?: Numbers;
+			blockHash?: HexString;
+			logIndex?: Numbers;
+			removed?: boolean;
+		};
+		const receivedBlockNumber = blockNumber ?? number;
+		if (isNullish(receivedBlockNumber)) {
+			return false;
+		}
+
+		const block = BigInt(receivedBlockNumber);
+		if (isNullish(this._lastBlockNumber) || block > this._lastBlockNumber) {
+			this._lastBlockNumber = block;
+			this._pruneLogKeys();
+		}
+
+		// The removed logs are notified even if the log was received before
+		if (isNullish(blockHash) || isNullish(logIndex) || removed === true) {
+			return false;
+		}
+
+		const key = `${block.toString()}-${blockHash}-${BigInt(logIndex).toString()}`;
+		if (this._recentLogKeys.has(key)) {
+			return true;
+		}
+		if (block >= this._firstKeptBlock) {
+			this._recentLogKeys.set(key, block);
+		}
+		return false;
+	}
+
+	// The keys are kept from the last block, or from the first block of the backfill in progress
+	private get _firstKeptBlock(): bigint {
+		const lastBlockNumber = this._lastBlockNumber ?? BigInt(0);
+		return isNullish(this._backfillFromBlock) || this._backfillFromBlock > lastBlockNumber
+			? lastBlockNumber
+			: this._backfillFromBlock;
+	}
+
+	private _pruneLogKeys() {
+		const firstKeptBlock = this._firstKeptBlock;
+		for (const [key, keyBlock] of this._recentLogKeys) {
+			if (keyBlock < firstKeptBlock) {
+				this._recentLogKeys.delete(key);
+			}
+		}
+	}
+
 	public _processSubscriptionError(error: Error) {
 		this.emit('error', error);
 	}
 
+	/**
+	 * Emulates the subscription by polling a filter, for the providers not supporting subscriptions.
+	 * The id of the subscription is the id of the first installed filter,
+	 * it does not change when a filter forgotten by the node is reinstalled.
+	 */
+	private async _startPolling(): Promise<string> {
+		this._filterId = await this._installFilter();
+		this._id = this._filterId;
+		this._polling = true;
+		this._schedulePolling();
+
+		this.emit('connected', this._id);
+		return this._id;
+	}
+
+	private async _stopPolling() {
+		this._polling = false;
+		clearTimeout(this._pollingTimeout);
+
+		const filterId = this._filterId;
+		this._filterId = undefined;
+		this._id = undefined;
+
+		try {
+			await this._ethRequestManager.send({
+				method: 'eth_uninstallFilter',
+				params: [filterId],
+			});
+		} catch {
+			// The node may have already forgotten the filter
+		}
+	}
+
+	private get _ethRequestManager() {
+		return this._subscriptionManager.requestManager as unknown as Web3RequestManager;
+	}
+
+	private async _installFilter(): Promise<HexString> {
+		const [type, filter] = this._buildSubscriptionParams() as [string, unknown?];
+
+		switch (type) {
+			case 'logs':
+				return this._ethRequestManager.send({
+					method: 'eth_newFilter',
+					params: [(filter ?? {}) as Filter],
+				});
+			case 'newHeads':
+				return this._ethRequestManager.send({ method: 'eth_newBlockFilter', params: [] });
+			case 'newPendingTransactions':
+				return this._ethRequestManager.send({
+					method: 'eth_newPendingTransactionFilter',
+					params: [],
+				});
+			default:
+				throw new SubscriptionError(
+					`The "${type}" subscription can not be emulated by polling`,
+				);
+		}
+	}
+
+	private _schedulePolling() {
+		const scheduleNext = () => {
+			if (this._polling) {
+				this._schedulePolling();
+			}
+		};
+
+		this._pollingTimeout = setTimeout(() => {
+			this._pollFilterChanges().then(scheduleNext, (error: Error) => {
+				this._processSubscriptionError(error);
+				scheduleNext();
+			});
+		}, this._subscriptionManager.pollingInterval);
+	}
+
+	private async _pollFilterChanges() {
+		let changes: unknown[];
+		try {
+			changes = await this._ethRequestManager.send({
+				method: 'eth_getFilterChanges',
+				params: [this._filterId as HexString],
+			});
+		} catch (error) {
+			if (!(error instanceof Error) || !/filter not found/i.test(error.message)) {
+				throw error;
+			}
+			this._filterId = await this._installFilter();
+			return;
+		}
+
+		const [type] = this._buildSubscriptionParams() as [string];
+		for (const change of changes) {
+			if (!this._polling) {
+				return;
+			}
+
+			if (type === 'newHeads') {
+				// The block filter only returns the hashes of the new blocks
+				// eslint-disable-next-line no-await-in-loop
+				const header = await this._ethRequestManager.send({
+					method: 'eth_getBlockByHash',
+					params: [change as HexString, false],
+				});
+				if (!isNullish(header)) {
+					this._processSubscriptionResult(header);
+				}
+			} else {
+				this._processSubscriptionResult(change);
+			}
+		}
+	}
+
 	// eslint-disable-next-line class-methods-use-this
 	protected _buildSubscriptionParams(): Web3APIParams<API, 'eth_subscribe'> {
 		// This should be overridden in the subclass
@@ -0,0 +1,278 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import {
+	ConnectionError,
+	ConnectionTimeoutError,
+	FallbackProviderError,
+	ProviderError,
+	QuorumNotReachedError,
+	ResponseError,
+} from '@etn-sc/web3-errors';
+import { JsonRpcPayload, Web3BaseProvider } from '@etn-sc/web3-types';
+import { FallbackProvider } from '../../src/fallback_provider';
+import { Web3RequestManager } from '../../src/web3_request_manager';
+
+class MockProvider extends Web3BaseProvider {
+	public request = jest.fn();
+	public getStatus = jest.fn();
+	public supportsSubscriptions = jest.fn().mockReturnValue(false);
+	public on = jest.fn();
+	public removeListener = jest.fn();
+	public once = jest.fn();
+	public removeAllListeners = jest.fn();
+	public connect = jest.fn();
+	public disconnect = jest.fn();
+	public reset = jest.fn();
+
+	public constructor(result?: unknown) {
+		super();
+		this.request.mockImplementation(async (payload: JsonRpcPayload) =>
+			Promise.resolve({ jsonrpc: '2.0', id: (payload as { id: number }).id, result }),
+		);
+	}
+}
+
+const payload = { jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [] } as const;
+
+describe('FallbackProvider', () => {
+	it('should throw without providers', () => {
+		expect(() => new FallbackProvider([])).toThrow(ProviderError);
+	});
+
+	it('should throw if the quorum can not be reached', () => {
+		expect(() => new FallbackProvider([new MockProvider()], { quorum: 2 })).toThrow(
+			ProviderError,
+		);
+	});
+
+	it('should throw if the quorum is lower than 1', () => {
+		expect(() => new FallbackProvider([new MockProvider()], { quorum: 0 })).toThrow(
+			'The quorum of 0 is lower than 1',
+		);
+	});
+
+	it('should try the providers in the order of their priority', async () => {
+		const first = new MockProvider('0x1');
+		const second = new MockProvider('0x2');
+		const provider = new FallbackProvider([
+			{ provider: second, priority: 1 },
+			{ provider: first, priority: 0 },
+		]);
+
+		expect(provider.providers).toEqual([first, second]);
+		await expect(provider.request(payload)).resolves.toEqual({
+			jsonrpc: '2.0',
+			id: 1,
+			result: '0x1',
+		});
+		expect(second.request).not.toHaveBeenCalled();
+	});
+
+	it('should fail over to the next provider', async () => {
+		const first = new MockProvider();
+		first.request.mockRejectedValue(new ConnectionError('connection refused'));
+		const second = new MockProvider('0x2');
+		const provider = new FallbackProvider([first, second]);
+
+		await expect(provider.request(payload)).resolves.toMatchObject({ result: '0x2' });
+
+		// the failing provider is skipped during its cooldown
+		await provider.request(payload);
+		expect(first.request).toHaveBeenCalledTimes(1);
+		expect(second.request).toHaveBeenCalledTimes(2);
+	});
+
+	it('should retry a failing provider after its cooldown', async () => {
+		const first = new MockProvider('0x1');
+		first.request.mockRejectedValueOnce(new ConnectionError('connection refused'));
+		const provider = new FallbackProvider([first, new MockProvider('0x2')], { cooldown: 0 });
+
+		await expect(provider.request(payload)).resolves.toMatchObject({ result: '0x2' });
+		await expect(provider.request(payload)).resolves.toMatchObject({ result: '0x1' });
+	});
+
+	it('should throw if all the providers fail', async () => {
+		const first = new MockProvider();
+		first.request.mockRejectedValue(new ConnectionError('connection refused'));
+		const second = new MockProvider();
+		second.request.mockRejectedValue(new ConnectionTimeoutError(1000));
+		const provider = new FallbackProvider([first, second]);
+
+		await expect(provider.request(payload)).rejects.toThrow(FallbackProviderError);
+		expect(provider.getStatus()).toBe('disconnected');
+	});
+
+	it('should fail over on the HTTP 5xx responses', async () => {
+		const first = new MockProvider();
+		first.request.mockRejectedValue(
+			new ResponseError(
+				{ jsonrpc: '2.0', id: 1, error: { code: -32000, message: 'bad gateway' } },
+				undefined,
+				undefined,
+				502,
+			),
+		);
+		const provider = new FallbackProvider([first, new MockProvider('0x2')]);
+
+		await expect(provider.request(payload)).resolves.toMatchObject({ result: '0x2' });
+	});
+
+	it('should fail over on the network errors of fetch', async () => {
+		const first = new MockProvider();
+		first.request.mockRejectedValue(new TypeError('fetch failed'));
+		const provider = new FallbackProvider([first, new MockProvider('0x2')]);
+
+		await expect(provider.request(payload)).resolves.toMatchObject({ result: '0x2' });
+	});
+
+	it('should not fail over on the other TypeErrors', async () => {
+		const first = new MockProvider();
+		first.request.mockRejectedValue(
+			new TypeError("Cannot read properties of undefined (reading 'result')"),
+		);
+		const second = new MockProvider('0x2');
+		const provider = new FallbackProvider([first, second]);
+
+		await expect(provider.request(payload)).rejects.toThrow(TypeError);
+		expect(second.request).not.toHaveBeenCalled();
+	});
+
+	it('should not fail over on the other errors by default', async () => {
+		const first = new MockProvider();
+		first.request.mockRejectedValue(
+			new ResponseError(
+				{ jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'invalid argument' } },
+				undefined,
+				undefined,
+				400,
+			),
+		);
+		const second = new MockProvider('0x2');
+		const provider = new FallbackProvider([first, second]);
+
+		await expect(provider.request(payload)).rejects.toThrow('invalid argument');
+		expect(second.request).not.toHaveBeenCalled();
+	});
+
+	it('should not fail over a transaction sent before a timeout', async () => {
+		const first = new MockProvider();
+		first.request.mockRejectedValue(new ConnectionTimeoutError(1000));
+		const second = new MockProvider('0x2');
+		const provider = new FallbackProvider([first, second], { shouldFailover: () => true });
+
+		await expect(
+			provider.request({ ...payload, method: 'eth_sendRawTransaction', params: ['0x02f8'] }),
+		).rejects.toThrow(ConnectionTimeoutError);
+		expect(second.request).not.toHaveBeenCalled();
+	});
+
+	it('should not fail over on the errors rejected by shouldFailover', async () => {
+		const first = new MockProvider();
+		first.request.mockRejectedValue(new Error('execution reverted'));
+		const second = new MockProvider('0x2');
+		const provider = new FallbackProvider([first, second], {
+			shouldFailover: error => !(error as Error).message.includes('reverted'),
+		});
+
+		await expect(provider.request(payload)).rejects.toThrow('execution reverted');
+		expect(second.request).not.toHaveBeenCalled();
+	});
+
+	describe('quorum', () => {
+		it('should return the result most providers agree on', async () => {
+			const provider = new FallbackProvider(
+				[new MockProvider('0x1'), new MockProvider('0x2'), new MockProvider('0x2')],
+				{ quorum: 2 },
+			);
+
+			await expect(provider.request(payload)).resolves.toMatchObject({ result: '0x2' });
+		});
+
+		it('should throw if not enough providers agree', async () => {
+			const failing = new MockProvider();
+			failing.request.mockRejectedValue(new ConnectionError('connection refused'));
+			const provider = new FallbackProvider(
+				[new MockProvider('0x1'), new MockProvider('0x2'), failing],
+				{ quorum: 2 },
+			);
+
+			await expect(provider.request(payload)).rejects.toThrow(QuorumNotReachedError);
+		});
+
+		it('should only send the quorum methods to all the providers', async () => {
+			const first = new MockProvider('0x1');
+			const second = new MockProvider('0x1');
+			const provider = new FallbackProvider([first, second], { quorum: 2 });
+
+			await provider.request({ ...payload, method: 'eth_sendRawTransaction' });
+
+			expect(first.request).toHaveBeenCalledTimes(1);
+			expect(second.request).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('health checks', () => {
+		it('should mark the providers failing the health check', async () => {
+			const first = new MockProvider();
+			first.request.mockRejectedValue(new ConnectionError('connection refused'));
+			const second = new MockProvider('0x1');
+			const provider = new FallbackProvider([first, second]);
+
+			await expect(provider.checkHealth()).resolves.toEqual([false, true]);
+
+			await provider.request(payload);
+			expect(first.request).toHaveBeenCalledTimes(1);
+		});
+
+		it('should run the health checks at the given interval until disconnected', async () => {
+			const first = new MockProvider('0x1');
+			const provider = new FallbackProvider([first], { healthCheckInterval: 10 });
+
+			await new Promise(resolve => {
+				setTimeout(resolve, 35);
+			});
+			provider.disconnect();
+			const calls = first.request.mock.calls.length;
+			expect(calls).toBeGreaterThanOrEqual(2);
+
+			await new Promise(resolve => {
+				setTimeout(resolve, 35);
+			});
+			expect(first.request).toHaveBeenCalledTimes(calls);
+		});
+
+		it('should not keep the process running for the health checks', () => {
+			const provider = new FallbackProvider([new MockProvider('0x1')], {
+				healthCheckInterval: 10,
+			});
+
+			expect(provider['_healthCheckInterval']?.hasRef()).toBe(false);
+			provider.disconnect();
+		});
+	});
+
+	it('should be usable as the provider of the request manager', async () => {
+		const first = new MockProvider();
+		first.request.mockRejectedValue(new ConnectionError('connection refused'));
+		const manager = new Web3RequestManager(
+			new FallbackProvider([first, new MockProvider('0x2')]),
+		);
+
+		await expect(manager.send({ method: 'eth_blockNumber', params: [] })).resolves.toBe('0x2');
+	});
+});
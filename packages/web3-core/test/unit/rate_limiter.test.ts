@@ -0,0 +1,117 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { JsonRpcPayload } from '@etn-sc/web3-types';
+import { RequestRateLimiter, RequestRateLimiterEvent } from '../../src/rate_limiter';
+import { Web3RequestManager } from '../../src/web3_request_manager';
+import * as utils from '../../src/utils';
+
+describe('RequestRateLimiter', () => {
+	let manager: Web3RequestManager;
+	let sent: string[];
+	let pending: (() => void)[];
+
+	beforeEach(() => {
+		jest.spyOn(utils, 'isWeb3Provider').mockReturnValue(true);
+
+		sent = [];
+		pending = [];
+		const request = jest.fn().mockImplementation(
+			async (payload: JsonRpcPayload & { id: number; method: string }) =>
+				new Promise(resolve => {
+					sent.push(payload.method);
+					pending.push(() => resolve({ jsonrpc: '2.0', id: payload.id, result: '0x1' }));
+				}),
+		);
+		manager = new Web3RequestManager();
+		jest.spyOn(manager, 'provider', 'get').mockReturnValue({ request } as any);
+	});
+
+	const flush = async () =>
+		new Promise(resolve => {
+			setTimeout(resolve, 0);
+		});
+
+	it('should limit the number of requests in flight', async () => {
+		const rateLimiter = new RequestRateLimiter({ maxConcurrent: 2 });
+		manager.use(rateLimiter);
+
+		const requests = [1, 2, 3].map(async () => manager.send({ method: 'eth_getBalance' }));
+		await flush();
+
+		expect(sent).toHaveLength(2);
+		expect(rateLimiter.queueState).toEqual({ queued: 1, inFlight: 2 });
+
+		pending[0]();
+		await flush();
+		expect(sent).toHaveLength(3);
+
+		pending.slice(1).forEach(resolve => resolve());
+		await expect(Promise.all(requests)).resolves.toEqual(['0x1', '0x1', '0x1']);
+		expect(rateLimiter.queueState).toEqual({ queued: 0, inFlight: 0 });
+	});
+
+	it('should send the transactions first', async () => {
+		manager.use(new RequestRateLimiter({ maxConcurrent: 1 }));
+
+		manager.send({ method: 'eth_getBalance' }).catch(() => undefined);
+		manager.send({ method: 'eth_getCode' }).catch(() => undefined);
+		manager.send({ method: 'eth_sendRawTransaction' }).catch(() => undefined);
+		await flush();
+
+		pending[0]();
+		await flush();
+		pending[1]();
+		await flush();
+
+		expect(sent).toEqual(['eth_getBalance', 'eth_sendRawTransaction', 'eth_getCode']);
+	});
+
+	it('should release the slot of a failed request', async () => {
+		const rateLimiter = new RequestRateLimiter({ maxConcurrent: 1 });
+		manager.use(rateLimiter);
+		jest.spyOn(manager, 'provider', 'get').mockReturnValue({
+			request: jest.fn().mockRejectedValue(new Error('my-error')),
+		} as any);
+
+		await expect(manager.send({ method: 'eth_getBalance' })).rejects.toThrow('my-error');
+		expect(rateLimiter.queueState).toEqual({ queued: 0, inFlight: 0 });
+	});
+
+	it('should limit the rate of the requests', async () => {
+		const rateLimiter = new RequestRateLimiter({ requestsPerSecond: 50, burst: 1 });
+		const queueStates: number[] = [];
+		rateLimiter.on(RequestRateLimiterEvent.QUEUE_CHANGED, ({ queued }) => {
+			queueStates.push(queued);
+		});
+		manager.use(rateLimiter);
+
+		[1, 2, 3].forEach(() => {
+			manager.send({ method: 'eth_getBalance' }).catch(() => undefined);
+		});
+		await flush();
+		expect(sent).toHaveLength(1);
+
+		// one token every 20ms
+		await new Promise(resolve => {
+			setTimeout(resolve, 60);
+		});
+		expect(sent).toHaveLength(3);
+		expect(queueStates).toContain(2);
+		expect(queueStates[queueStates.length - 1]).toBe(0);
+	});
+});
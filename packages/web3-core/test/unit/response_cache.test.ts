@@ -0,0 +1,249 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { JsonRpcRequest } from '@etn-sc/web3-types';
+import { LRUResponseCacheStore, ResponseCache } from '../../src/response_cache';
+import { Web3EventEmitter } from '../../src/web3_event_emitter';
+import { Web3RequestManager } from '../../src/web3_request_manager';
+import * as utils from '../../src/utils';
+
+const blockHash = '0xdc0818cf78f21a8e70579cb46a43643f78291264dda342ae31049421c82d21ae';
+
+describe('ResponseCache', () => {
+	let manager: Web3RequestManager;
+	let cache: ResponseCache;
+	let request: jest.Mock;
+	let head: string;
+	let mined: boolean;
+
+	const callsOf = (method: string) =>
+		request.mock.calls.filter(([payload]: [JsonRpcRequest]) => payload.method === method)
+			.length;
+
+	beforeEach(() => {
+		jest.spyOn(utils, 'isWeb3Provider').mockReturnValue(true);
+
+		head = '0x20';
+		mined = true;
+		request = jest.fn().mockImplementation(async (payload: JsonRpcRequest & { id: number }) => {
+			let result: unknown = { blockHash, blockNumber: '0x5', n: payload.id };
+			if (payload.method === 'eth_blockNumber') {
+				result = head;
+			} else if ((payload.params as unknown[])?.[0] === 'finalized') {
+				result = { number: '0x18' };
+			} else if (payload.method === 'eth_getTransactionReceipt' && !mined) {
+				// eslint-disable-next-line no-null/no-null
+				result = null;
+			}
+			return Promise.resolve({ jsonrpc: '2.0', id: payload.id, result });
+		});
+		manager = new Web3RequestManager();
+		jest.spyOn(manager, 'provider', 'get').mockReturnValue({ request } as any);
+
+		cache = new ResponseCache({ requestManager: manager, headCheckInterval: 0 });
+		manager.use(cache);
+	});
+
+	it('should answer the requests at a finalized block from the cache', async () => {
+		const first = await manager.send({ method: 'eth_getCode', params: ['0x1', '0x10'] });
+		const second = await manager.send({ method: 'eth_getCode', params: ['0x1', '0x10'] });
+
+		expect(second).toEqual(first);
+		expect(callsOf('eth_getCode')).toBe(1);
+		expect(cache.stats).toEqual({ hits: 1, misses: 1 });
+	});
+
+	it('should not mix up the requests with different params', async () => {
+		await manager.send({ method: 'eth_call', params: [{ to: '0x1' }, '0x10'] });
+		await manager.send({ method: 'eth_call', params: [{ to: '0x1' }, '0x11'] });
+
+		expect(callsOf('eth_call')).toBe(2);
+	});
+
+	it('should not cache the methods with a changing result', async () => {
+		manager.removeMiddleware(cache);
+		cache = new ResponseCache();
+		manager.use(cache);
+
+		await manager.send({ method: 'eth_blockNumber', params: [] });
+		await manager.send({ method: 'eth_blockNumber', params: [] });
+
+		expect(request).toHaveBeenCalledTimes(2);
+		expect(cache.stats).toEqual({ hits: 0, misses: 0 });
+	});
+
+	it('should not cache the nonces and the requests at the pending block', async () => {
+		await manager.send({ method: 'eth_getTransactionCount', params: ['0x1', '0x10'] });
+		await manager.send({ method: 'eth_getTransactionCount', params: ['0x1', '0x10'] });
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', 'pending'] });
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', 'pending'] });
+
+		expect(callsOf('eth_getTransactionCount')).toBe(2);
+		expect(callsOf('eth_getBalance')).toBe(2);
+		expect(cache.stats).toEqual({ hits: 0, misses: 0 });
+	});
+
+	it('should only cache the mined receipts', async () => {
+		mined = false;
+		await manager.send({ method: 'eth_getTransactionReceipt', params: [blockHash] });
+
+		mined = true;
+		await manager.send({ method: 'eth_getTransactionReceipt', params: [blockHash] });
+		await manager.send({ method: 'eth_getTransactionReceipt', params: [blockHash] });
+		await manager.send({ method: 'eth_getTransactionReceipt', params: [blockHash] });
+
+		expect(callsOf('eth_getTransactionReceipt')).toBe(2);
+	});
+
+	it('should cache the requests at the latest block until a new head', async () => {
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', 'latest'] });
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', 'latest'] });
+		expect(callsOf('eth_getBalance')).toBe(1);
+
+		head = '0x21';
+
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', 'latest'] });
+		expect(callsOf('eth_getBalance')).toBe(2);
+	});
+
+	it('should only keep the requests at a block above the finalized block until a new head', async () => {
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', '0x1c'] });
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', '0x10'] });
+
+		head = '0x21';
+
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', '0x1c'] });
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', '0x10'] });
+		expect(callsOf('eth_getBalance')).toBe(3);
+		expect(cache.stats).toEqual({ hits: 1, misses: 3 });
+	});
+
+	it('should only cache the requests at a block hash without a request manager', async () => {
+		manager.removeMiddleware(cache);
+		cache = new ResponseCache();
+		manager.use(cache);
+
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', '0x10'] });
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', '0x10'] });
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', { blockHash }] });
+		await manager.send({ method: 'eth_getBalance', params: ['0x1', { blockHash }] });
+
+		expect(callsOf('eth_getBalance')).toBe(3);
+		expect(callsOf('eth_blockNumber')).toBe(0);
+	});
+
+	it('should use the given store', async () => {
+		const store = new LRUResponseCacheStore();
+		const spy = jest.spyOn(store, 'set');
+		manager.removeMiddleware(cache);
+		manager.use(new ResponseCache({ store }));
+
+		await manager.send({ method: 'eth_chainId', params: [] });
+
+		expect(spy).toHaveBeenCalledTimes(1);
+		expect(store.size).toBe(1);
+	});
+
+	describe('newHeads subscription', () => {
+		let emitter: Web3EventEmitter<any>;
+
+		const notifyHead = (subscription: string, number: string) =>
+			emitter.emit('message', {
+				jsonrpc: '2.0',
+				method: 'eth_subscription',
+				params: { subscription, result: { number } },
+			});
+
+		beforeEach(() => {
+			emitter = new Web3EventEmitter();
+			const provider = {
+				request: jest
+					.fn()
+					.mockImplementation(async (payload: JsonRpcRequest & { id: number }) =>
+						payload.method === 'eth_subscribe'
+							? Promise.resolve({ jsonrpc: '2.0', id: payload.id, result: '0xabc' })
+							: (request(payload) as Promise<unknown>),
+					),
+				supportsSubscriptions: () => true,
+				on: (type: string, listener: (data: unknown) => void) => emitter.on(type, listener),
+			};
+			jest.spyOn(manager, 'provider', 'get').mockReturnValue(provider as any);
+
+			manager.removeMiddleware(cache);
+			cache = new ResponseCache({ requestManager: manager, headCheckInterval: 0 });
+			manager.use(cache);
+		});
+
+		it('should only check the head again after a new head', async () => {
+			await manager.send({ method: 'eth_getBalance', params: ['0x1', 'latest'] });
+			head = '0x21';
+			await manager.send({ method: 'eth_getBalance', params: ['0x1', 'latest'] });
+
+			expect(callsOf('eth_blockNumber')).toBe(1);
+			expect(callsOf('eth_getBalance')).toBe(1);
+
+			notifyHead('0xabc', '0x21');
+			await manager.send({ method: 'eth_getBalance', params: ['0x1', 'latest'] });
+
+			expect(callsOf('eth_blockNumber')).toBe(2);
+			expect(callsOf('eth_getBalance')).toBe(2);
+		});
+
+		it('should ignore the notifications of the other subscriptions', async () => {
+			await manager.send({ method: 'eth_getBalance', params: ['0x1', 'latest'] });
+			notifyHead('0xdef', '0x21');
+			await manager.send({ method: 'eth_getBalance', params: ['0x1', 'latest'] });
+
+			expect(callsOf('eth_getBalance')).toBe(1);
+		});
+
+		it('should poll the head if the subscription fails', async () => {
+			(manager.provider as unknown as { request: jest.Mock }).request.mockImplementation(
+				async (payload: JsonRpcRequest & { id: number }) =>
+					payload.method === 'eth_subscribe'
+						? Promise.resolve({
+								jsonrpc: '2.0',
+								id: payload.id,
+								error: { code: -32601, message: 'method not found' },
+						  })
+						: (request(payload) as Promise<unknown>),
+			);
+
+			await manager.send({ method: 'eth_getBalance', params: ['0x1', 'latest'] });
+			head = '0x21';
+			await manager.send({ method: 'eth_getBalance', params: ['0x1', 'latest'] });
+
+			expect(callsOf('eth_getBalance')).toBe(2);
+		});
+	});
+
+	describe('LRUResponseCacheStore', () => {
+		it('should evict the least recently used response', async () => {
+			const store = new LRUResponseCacheStore(2);
+			const response = { jsonrpc: '2.0', id: 1, result: '0x1' } as const;
+
+			await store.set('a', response);
+			await store.set('b', response);
+			await store.get('a');
+			await store.set('c', response);
+
+			await expect(store.get('a')).resolves.toEqual(response);
+			await expect(store.get('b')).resolves.toBeUndefined();
+			expect(store.size).toBe(2);
+		});
+	});
+});
@@ -17,7 +17,7 @@ along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 
 import { JsonRpcBatchRequest, JsonRpcBatchResponse, JsonRpcOptionalRequest } from '@etn-sc/web3-types';
 import { jsonRpc, Web3DeferredPromise, Timeout } from '@etn-sc/web3-utils';
-import { OperationAbortError, OperationTimeoutError } from '@etn-sc/web3-errors';
+import { OperationAbortError, OperationTimeoutError, ResponseError } from '@etn-sc/web3-errors';
 import { Web3BatchRequest } from '../../src/web3_batch_request';
 
 describe('Web3BatchRequest', () => {
@@ -145,6 +145,25 @@ describe('Web3BatchRequest', () => {
 			await expect(res2).rejects.toThrow(new OperationAbortError('Invalid batch response'));
 		});
 
+		it('should throw error if the uuid ids of the responses do not match', async () => {
+			jest.restoreAllMocks();
+			jest.spyOn(requestManager, 'sendBatch').mockImplementation(async () =>
+				Promise.resolve([
+					{ ...response1, id: 'cb0a3c0e-7c8c-4a5e-9a56-2b6e0e8f4b6d' },
+					{ ...response2, id: 'f3a1e1b2-1f7d-4c0f-8a36-0d0f5b7f8c21' },
+				]),
+			);
+
+			const res1 = batchRequest.add({ method: 'my_method', params: [] });
+			const res2 = batchRequest.add({ method: 'my_method2', params: [] });
+
+			await expect(batchRequest.execute()).rejects.toThrow(
+				'Batch request mismatch the results',
+			);
+			await expect(res1).rejects.toThrow(new OperationAbortError('Invalid batch response'));
+			await expect(res2).rejects.toThrow(new OperationAbortError('Invalid batch response'));
+		});
+
 		it('should resolve individual request on execution', async () => {
 			const res1 = batchRequest.add(request1);
 			const res2 = batchRequest.add(request2);
@@ -196,4 +215,149 @@ describe('Web3BatchRequest', () => {
 			clearTimeout(timerId);
 		});
 	});
+
+	describe('execute partial', () => {
+		let requests: JsonRpcOptionalRequest[];
+		let sendBatch: jest.Mock;
+
+		const respond = (payload: JsonRpcBatchRequest) =>
+			payload.map(p => ({ id: p.id, jsonrpc: '2.0', result: `${p.method}-result` }));
+
+		beforeEach(() => {
+			requests = [10, 11, 12].map(id => ({ id, method: `my_method${id}`, params: [] }));
+			sendBatch = jest.fn().mockImplementation(respond);
+			batchRequest = new Web3BatchRequest({ sendBatch } as any);
+		});
+
+		it('should split the requests in batches of maxBatchSize', async () => {
+			const promises = requests.map(request => batchRequest.add(request));
+
+			const results = await batchRequest.execute({ partial: true, maxBatchSize: 2 });
+
+			expect(sendBatch).toHaveBeenCalledTimes(2);
+			expect(sendBatch.mock.calls[0][0]).toHaveLength(2);
+			expect(sendBatch.mock.calls[1][0]).toHaveLength(1);
+			expect(results.map(result => result.status)).toEqual([
+				'fulfilled',
+				'fulfilled',
+				'fulfilled',
+			]);
+			await expect(promises[2]).resolves.toBe('my_method12-result');
+		});
+
+		it('should retry only the requests missing from the response', async () => {
+			sendBatch
+				.mockImplementationOnce(async (payload: JsonRpcBatchRequest) =>
+					Promise.resolve(respond(payload).slice(0, 1)),
+				)
+				.mockImplementation(respond as any);
+			const promises = requests.map(request => batchRequest.add(request));
+
+			const results = await batchRequest.execute({ partial: true, retries: 1 });
+
+			expect(sendBatch).toHaveBeenCalledTimes(2);
+			expect((sendBatch.mock.calls[1][0] as JsonRpcBatchRequest).map(p => p.id)).toEqual([
+				11, 12,
+			]);
+			expect(results).toEqual([
+				{
+					request: expect.objectContaining({ id: 10 }),
+					status: 'fulfilled',
+					value: 'my_method10-result',
+				},
+				{
+					request: expect.objectContaining({ id: 11 }),
+					status: 'fulfilled',
+					value: 'my_method11-result',
+				},
+				{
+					request: expect.objectContaining({ id: 12 }),
+					status: 'fulfilled',
+					value: 'my_method12-result',
+				},
+			]);
+			await expect(Promise.all(promises)).resolves.toHaveLength(3);
+		});
+
+		it('should settle each request on its own', async () => {
+			sendBatch.mockImplementation(async (payload: JsonRpcBatchRequest) =>
+				Promise.resolve([
+					{ id: payload[0].id, jsonrpc: '2.0', result: 'result' },
+					{
+						id: payload[1].id,
+						jsonrpc: '2.0',
+						error: { code: 12, message: 'error' },
+					},
+				]),
+			);
+			const promises = Promise.allSettled(
+				requests.map(async request => batchRequest.add(request)),
+			);
+
+			const results = await batchRequest.execute({ partial: true });
+
+			expect(results.map(result => result.status)).toEqual([
+				'fulfilled',
+				'rejected',
+				'rejected',
+			]);
+			const [first, second, third] = await promises;
+			expect(first).toEqual({ status: 'fulfilled', value: 'result' });
+			expect(second).toEqual({ status: 'rejected', reason: { code: 12, message: 'error' } });
+			expect((third as PromiseRejectedResult).reason).toBeInstanceOf(ResponseError);
+			// the requests answered with an error are not retried
+			expect(sendBatch).toHaveBeenCalledTimes(1);
+		});
+
+		it('should match the responses of the default uuid ids', async () => {
+			jest.restoreAllMocks();
+			sendBatch.mockImplementation(async (payload: JsonRpcBatchRequest) =>
+				Promise.resolve(respond(payload).reverse()),
+			);
+			const promises = requests.map(async ({ method, params }) =>
+				batchRequest.add({ method, params }),
+			);
+
+			const results = await batchRequest.execute({ partial: true });
+
+			expect(typeof results[0].request.id).toBe('string');
+			expect(results.map(result => (result as { value: unknown }).value)).toEqual([
+				'my_method10-result',
+				'my_method11-result',
+				'my_method12-result',
+			]);
+			await expect(Promise.all(promises)).resolves.toEqual([
+				'my_method10-result',
+				'my_method11-result',
+				'my_method12-result',
+			]);
+		});
+
+		it('should reject the requests of a failed batch after the retries', async () => {
+			sendBatch
+				.mockImplementationOnce(respond as any)
+				.mockRejectedValue(new Error('connection error'));
+			const promises = Promise.allSettled(
+				requests.map(async request => batchRequest.add(request)),
+			);
+
+			const results = await batchRequest.execute({
+				partial: true,
+				maxBatchSize: 1,
+				retries: 2,
+			});
+
+			expect(sendBatch).toHaveBeenCalledTimes(7);
+			expect(results[1]).toEqual({
+				request: expect.objectContaining({ id: 11 }),
+				status: 'rejected',
+				reason: new Error('connection error'),
+			});
+			await expect(promises).resolves.toEqual([
+				{ status: 'fulfilled', value: 'my_method10-result' },
+				{ status: 'rejected', reason: new Error('connection error') },
+				{ status: 'rejected', reason: new Error('connection error') },
+			]);
+		});
+	});
 });
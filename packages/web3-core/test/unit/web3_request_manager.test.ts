@@ -20,6 +20,7 @@ import {
 	JsonRpcPayload,
 	JsonRpcBatchRequest,
 	JsonRpcBatchResponse,
+	JsonRpcRequest,
 	JsonRpcResponseWithError,
 	JsonRpcResponseWithResult,
 	JsonRpcIdentifier,
@@ -1242,4 +1243,310 @@ describe('Web3RequestManager', () => {
 			});
 		});
 	});
+
+	describe('use()', () => {
+		let request: any;
+		let payload: JsonRpcPayload;
+		let successResponse!: JsonRpcResponseWithResult;
+		let manager: Web3RequestManager;
+		let myProvider: { request: jest.Mock };
+
+		beforeEach(() => {
+			request = { method: 'my_method', params: [] };
+			payload = { method: 'my_method', params: [], id: 1, jsonrpc: '2.0' };
+			successResponse = { id: 1, jsonrpc: '2.0', result: 'my-resolved-value' };
+
+			jest.spyOn(jsonRpc, 'toPayload').mockReturnValue(payload);
+			jest.spyOn(utils, 'isWeb3Provider').mockReturnValue(true);
+
+			manager = new Web3RequestManager();
+			myProvider = {
+				request: jest.fn().mockImplementation(async () => Promise.resolve(successResponse)),
+			};
+			jest.spyOn(manager, 'provider', 'get').mockReturnValue(myProvider as any);
+		});
+
+		it('should let middlewares rewrite the payload in the order they were added', async () => {
+			manager.use({
+				processRequest: async p => ({ ...p, params: ['first'] } as JsonRpcPayload),
+			});
+			manager.use({
+				processRequest: async p =>
+					({
+						...p,
+						params: [...((p as { params: unknown[] }).params ?? []), 'second'],
+					} as JsonRpcPayload),
+			});
+
+			await expect(manager.send(request)).resolves.toBe('my-resolved-value');
+			expect(myProvider.request).toHaveBeenCalledWith({
+				...payload,
+				params: ['first', 'second'],
+			});
+		});
+
+		it('should short-circuit the provider when a middleware returns a response', async () => {
+			const processResponse = jest
+				.fn()
+				.mockImplementation(async (response: JsonRpcResponseWithResult) => response);
+			manager.use({ processResponse });
+			manager.use({
+				processRequest: async () => ({
+					response: { id: 1, jsonrpc: '2.0', result: 'cached-value' },
+				}),
+				processResponse,
+			});
+			manager.use({ processRequest: jest.fn() });
+
+			await expect(manager.send(request)).resolves.toBe('cached-value');
+			expect(myProvider.request).not.toHaveBeenCalled();
+			// only the outer middleware sees the response
+			expect(processResponse).toHaveBeenCalledTimes(1);
+		});
+
+		it('should run the response hooks in the reverse order', async () => {
+			const calls: string[] = [];
+			manager.use({
+				processResponse: async response => {
+					calls.push('first');
+					return response;
+				},
+			});
+			manager.use({
+				processResponse: async (response, p) => {
+					calls.push('second');
+					expect(p).toEqual(payload);
+					return { ...response, result: 'rewritten-value' } as JsonRpcResponseWithResult;
+				},
+			});
+
+			await expect(manager.send(request)).resolves.toBe('rewritten-value');
+			expect(calls).toEqual(['second', 'first']);
+		});
+
+		it('should let a middleware rewrite an error', async () => {
+			myProvider.request.mockRejectedValue(new Error('my-error'));
+			manager.use({
+				processError: async () => {
+					throw new Error('my-rewritten-error');
+				},
+			});
+
+			await expect(manager.send(request)).rejects.toThrow('my-rewritten-error');
+		});
+
+		it('should let a middleware recover from an error', async () => {
+			myProvider.request.mockRejectedValue(new Error('my-error'));
+			const processError = jest.fn().mockResolvedValue(successResponse);
+			manager.use({ processError });
+
+			await expect(manager.send(request)).resolves.toBe('my-resolved-value');
+			expect(processError).toHaveBeenCalledWith(new Error('my-error'), payload);
+		});
+
+		it('should not run a removed middleware', async () => {
+			const middleware = { processRequest: jest.fn() };
+			manager.use(middleware);
+
+			expect(manager.removeMiddleware(middleware)).toBe(true);
+			expect(manager.removeMiddleware(middleware)).toBe(false);
+
+			await expect(manager.send(request)).resolves.toBe('my-resolved-value');
+			expect(middleware.processRequest).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('enableBatching()', () => {
+		let manager: Web3RequestManager;
+		let myProvider: { request: jest.Mock };
+
+		const respond = (payload: JsonRpcPayload) =>
+			(payload as JsonRpcBatchRequest).map(p => ({
+				id: p.id,
+				jsonrpc: '2.0',
+				result: `${p.method}-${String((p.params as unknown[])[0])}`,
+			}));
+
+		beforeEach(() => {
+			jest.spyOn(utils, 'isWeb3Provider').mockReturnValue(true);
+
+			manager = new Web3RequestManager();
+			myProvider = {
+				request: jest.fn().mockImplementation(async (payload: JsonRpcPayload) =>
+					Promise.resolve(
+						Array.isArray(payload)
+							? respond(payload)
+							: {
+									id: payload.id,
+									jsonrpc: '2.0',
+									result: `${payload.method}-single`,
+							  },
+					),
+				),
+			};
+			jest.spyOn(manager, 'provider', 'get').mockReturnValue(myProvider as any);
+			manager.enableBatching();
+		});
+
+		it('should send the requests of the same tick as one batch request', async () => {
+			const results = await Promise.all([
+				manager.send({ method: 'eth_getBalance', params: ['0x1'] }),
+				manager.send({ method: 'eth_getCode', params: ['0x2'] }),
+				manager.send({ method: 'eth_sendRawTransaction', params: ['0x3'] }),
+			]);
+
+			expect(results).toEqual([
+				'eth_getBalance-0x1',
+				'eth_getCode-0x2',
+				'eth_sendRawTransaction-0x3',
+			]);
+			expect(myProvider.request).toHaveBeenCalledTimes(1);
+			expect(myProvider.request.mock.calls[0][0]).toHaveLength(3);
+		});
+
+		it('should send a single request as a normal request', async () => {
+			await expect(manager.send({ method: 'eth_getBalance', params: ['0x1'] })).resolves.toBe(
+				'eth_getBalance-single',
+			);
+			expect(Array.isArray(myProvider.request.mock.calls[0][0])).toBe(false);
+		});
+
+		it('should split the requests in batches of maxBatchSize', async () => {
+			manager.enableBatching({ maxBatchSize: 2, deduplicate: false });
+
+			await Promise.all([
+				manager.send({ method: 'eth_getBalance', params: ['0x1'] }),
+				manager.send({ method: 'eth_getBalance', params: ['0x2'] }),
+				manager.send({ method: 'eth_getBalance', params: ['0x3'] }),
+			]);
+
+			expect(myProvider.request).toHaveBeenCalledTimes(2);
+		});
+
+		it('should deduplicate identical in-flight read requests', async () => {
+			const results = await Promise.all([
+				manager.send({ method: 'eth_getBalance', params: ['0x1'] }),
+				manager.send({ method: 'eth_getBalance', params: ['0x1'] }),
+				manager.send({ method: 'eth_sendRawTransaction', params: ['0x2'] }),
+				manager.send({ method: 'eth_sendRawTransaction', params: ['0x2'] }),
+			]);
+
+			expect(results).toEqual([
+				'eth_getBalance-0x1',
+				'eth_getBalance-0x1',
+				'eth_sendRawTransaction-0x2',
+				'eth_sendRawTransaction-0x2',
+			]);
+			expect(myProvider.request.mock.calls[0][0]).toHaveLength(3);
+		});
+
+		it('should reject only the requests with an error response', async () => {
+			myProvider.request.mockImplementation(async (payload: JsonRpcBatchRequest) =>
+				Promise.resolve([
+					{ id: payload[0].id, jsonrpc: '2.0', result: '0x1' },
+					{
+						id: payload[1].id,
+						jsonrpc: '2.0',
+						error: { code: 123, message: 'my-error' },
+					},
+				]),
+			);
+
+			const [first, second] = await Promise.allSettled([
+				manager.send({ method: 'eth_getBalance', params: ['0x1'] }),
+				manager.send({ method: 'eth_getBalance', params: ['0x2'] }),
+			]);
+
+			expect(first).toEqual({ status: 'fulfilled', value: '0x1' });
+			expect((second as PromiseRejectedResult).reason).toBeInstanceOf(InvalidResponseError);
+		});
+
+		it('should reject all the requests if the batch request fails', async () => {
+			myProvider.request.mockRejectedValue(new Error('my-error'));
+
+			const results = await Promise.allSettled([
+				manager.send({ method: 'eth_getBalance', params: ['0x1'] }),
+				manager.send({ method: 'eth_getBalance', params: ['0x2'] }),
+			]);
+
+			expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+		});
+
+		it('should reject the requests missing from the batch response', async () => {
+			myProvider.request.mockImplementation(async (payload: JsonRpcBatchRequest) =>
+				Promise.resolve([{ id: payload[0].id, jsonrpc: '2.0', result: '0x1' }]),
+			);
+
+			const [, second] = await Promise.allSettled([
+				manager.send({ method: 'eth_getBalance', params: ['0x1'] }),
+				manager.send({ method: 'eth_getBalance', params: ['0x2'] }),
+			]);
+
+			expect((second as PromiseRejectedResult).reason).toBeInstanceOf(ResponseError);
+		});
+
+		it('should run the middlewares on each request before batching them', async () => {
+			const processRequest = jest
+				.fn()
+				.mockImplementation(async (payload: JsonRpcRequest) =>
+					payload.method === 'eth_chainId'
+						? { response: { id: payload.id, jsonrpc: '2.0', result: '0x1' } }
+						: payload,
+				);
+			const processResponse = jest
+				.fn()
+				.mockImplementation(async (response: JsonRpcResponseWithResult) => response);
+			manager.use({ processRequest, processResponse });
+
+			const results = await Promise.all([
+				manager.send({ method: 'eth_getBalance', params: ['0x1'] }),
+				manager.send({ method: 'eth_chainId', params: [] }),
+				manager.send({ method: 'eth_getCode', params: ['0x2'] }),
+			]);
+
+			expect(results).toEqual(['eth_getBalance-0x1', '0x1', 'eth_getCode-0x2']);
+			expect(processRequest).toHaveBeenCalledTimes(3);
+			expect(processRequest.mock.calls.some(([payload]) => Array.isArray(payload))).toBe(
+				false,
+			);
+			// the request answered by the middleware is not sent
+			expect(myProvider.request.mock.calls[0][0]).toHaveLength(2);
+			expect(processResponse).toHaveBeenCalledTimes(2);
+		});
+
+		it('should process the response of a request sent alone once', async () => {
+			const processJsonRpcResponse = jest.spyOn(manager as any, '_processJsonRpcResponse');
+
+			await manager.send({ method: 'eth_getBalance', params: ['0x1'] });
+
+			expect(processJsonRpcResponse).toHaveBeenCalledTimes(1);
+		});
+
+		it('should match the responses whose id is a string', async () => {
+			jsonRpc.setRequestIdStart(0);
+			myProvider.request.mockImplementation(async (payload: JsonRpcBatchRequest) =>
+				Promise.resolve(
+					respond(payload)
+						.map(response => ({ ...response, id: String(response.id) }))
+						.reverse(),
+				),
+			);
+
+			const results = await Promise.all([
+				manager.send({ method: 'eth_getBalance', params: ['0x1'] }),
+				manager.send({ method: 'eth_getCode', params: ['0x2'] }),
+			]);
+
+			expect(results).toEqual(['eth_getBalance-0x1', 'eth_getCode-0x2']);
+			jsonRpc.setRequestIdStart(undefined);
+		});
+
+		it('should send the pending requests when batching is disabled', async () => {
+			const request = manager.send({ method: 'eth_getBalance', params: ['0x1'] });
+			manager.disableBatching();
+
+			expect(myProvider.request).toHaveBeenCalledTimes(1);
+			await expect(request).resolves.toBe('eth_getBalance-single');
+		});
+	});
 });
@@ -75,11 +75,15 @@ describe('Web3Subscription', () => {
 		it('should start listening to the "message" event', async () => {
 			await sub.subscribe();
 
-			expect(requestManager.provider.on).toHaveBeenCalledTimes(1);
+			expect(requestManager.provider.on).toHaveBeenCalledTimes(2);
 			expect(requestManager.provider.on).toHaveBeenCalledWith(
 				'message',
 				expect.any(Function),
 			);
+			expect(requestManager.provider.on).toHaveBeenCalledWith(
+				'reconnect',
+				expect.any(Function),
+			);
 		});
 	});
 
@@ -150,11 +154,15 @@ describe('Web3Subscription without subscription manager - (deprecated)', () => {
 			// requestManager.provider.on.mockClear();
 			await sub.subscribe();
 
-			expect(requestManager.provider.on).toHaveBeenCalledTimes(1);
+			expect(requestManager.provider.on).toHaveBeenCalledTimes(2);
 			expect(requestManager.provider.on).toHaveBeenCalledWith(
 				'message',
 				expect.any(Function),
 			);
+			expect(requestManager.provider.on).toHaveBeenCalledWith(
+				'reconnect',
+				expect.any(Function),
+			);
 		});
 	});
 
@@ -168,11 +176,15 @@ describe('Web3Subscription without subscription manager - (deprecated)', () => {
 		it('should invoke request manager to unsubscribe', async () => {
 			await sub.unsubscribe();
 
-			expect(requestManager.provider.on).toHaveBeenCalledTimes(1);
+			expect(requestManager.provider.on).toHaveBeenCalledTimes(2);
 			expect(requestManager.provider.on).toHaveBeenCalledWith(
 				'message',
 				expect.any(Function),
 			);
+			expect(requestManager.provider.on).toHaveBeenCalledWith(
+				'reconnect',
+				expect.any(Function),
+			);
 		});
 
 		it('should remove the subscription id', async () => {
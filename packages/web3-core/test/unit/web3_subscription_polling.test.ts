@@ -0,0 +1,185 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+/* eslint-disable max-classes-per-file */
+
+import { SubscriptionError } from '@etn-sc/web3-errors';
+import { Web3Subscription, Web3SubscriptionManager } from '../../src';
+import { ExampleSubscription } from './fixtures/example_subscription';
+
+class LogsSubscription extends Web3Subscription<{ data: unknown }, { address: string }> {
+	protected _buildSubscriptionParams() {
+		return ['logs', this.args] as never;
+	}
+}
+
+class SyncingSubscription extends Web3Subscription<{ data: unknown }> {
+	// eslint-disable-next-line class-methods-use-this
+	protected _buildSubscriptionParams() {
+		return ['syncing'] as never;
+	}
+}
+
+const subscriptions = {
+	newHeads: ExampleSubscription as never,
+	logs: LogsSubscription as never,
+	syncing: SyncingSubscription as never,
+};
+
+const waitForPolling = async () =>
+	new Promise(resolve => {
+		setTimeout(resolve, 30);
+	});
+
+describe('Web3Subscription polling', () => {
+	let send: jest.Mock;
+	let subscriptionManager: Web3SubscriptionManager;
+
+	beforeEach(() => {
+		send = jest.fn();
+		const requestManager = {
+			send,
+			on: jest.fn(),
+			provider: { request: jest.fn(), supportsSubscriptions: () => false },
+		};
+		subscriptionManager = new Web3SubscriptionManager(
+			requestManager as any,
+			subscriptions as any,
+		);
+		subscriptionManager.pollingInterval = 10;
+	});
+
+	afterEach(async () => {
+		send.mockResolvedValue(true);
+		await subscriptionManager.unsubscribe();
+	});
+
+	it('should throw if the polling interval is not set', async () => {
+		subscriptionManager.pollingInterval = undefined;
+
+		await expect(subscriptionManager.subscribe('newHeads')).rejects.toThrow(
+			'The current provider does not support subscriptions',
+		);
+	});
+
+	it('should emit the logs of the filter changes', async () => {
+		const logs = [{ logIndex: '0x0' }, { logIndex: '0x1' }];
+		send.mockImplementation(async ({ method }: { method: string }) =>
+			Promise.resolve(method === 'eth_newFilter' ? '0x1' : logs),
+		);
+
+		const sub = await subscriptionManager.subscribe('logs', { address: '0x2' });
+		const data = jest.fn();
+		sub.on('data', data);
+		await waitForPolling();
+
+		expect(sub.id).toBe('0x1');
+		expect(send).toHaveBeenCalledWith({
+			method: 'eth_newFilter',
+			params: [{ address: '0x2' }],
+		});
+		expect(send).toHaveBeenCalledWith({ method: 'eth_getFilterChanges', params: ['0x1'] });
+		expect(data).toHaveBeenCalledWith(logs[0]);
+		expect(data).toHaveBeenCalledWith(logs[1]);
+	});
+
+	it('should emit the headers of the new blocks', async () => {
+		const header = { number: '0x10' };
+		send.mockImplementation(async ({ method }: { method: string }) => {
+			switch (method) {
+				case 'eth_newBlockFilter':
+					return Promise.resolve('0x1');
+				case 'eth_getFilterChanges':
+					return Promise.resolve(['0xabc']);
+				default:
+					return Promise.resolve(header);
+			}
+		});
+
+		const sub = await subscriptionManager.subscribe('newHeads');
+		const data = jest.fn();
+		sub.on('data', data);
+		await waitForPolling();
+
+		expect(send).toHaveBeenCalledWith({
+			method: 'eth_getBlockByHash',
+			params: ['0xabc', false],
+		});
+		expect(data).toHaveBeenCalledWith(header);
+	});
+
+	it('should reinstall a filter forgotten by the node', async () => {
+		let filterId = 0;
+		send.mockImplementation(async ({ method }: { method: string }) => {
+			if (method === 'eth_newBlockFilter') {
+				filterId += 1;
+				return Promise.resolve(`0x${filterId}`);
+			}
+			return filterId === 1
+				? Promise.reject(new Error('Returned error: filter not found'))
+				: Promise.resolve([]);
+		});
+
+		const sub = await subscriptionManager.subscribe('newHeads');
+		const error = jest.fn();
+		sub.on('error', error);
+		await waitForPolling();
+
+		expect(send).toHaveBeenCalledWith({ method: 'eth_getFilterChanges', params: ['0x2'] });
+		expect(error).not.toHaveBeenCalled();
+		// the id of the subscription does not change
+		expect(sub.id).toBe('0x1');
+	});
+
+	it('should emit the other polling errors', async () => {
+		send.mockImplementation(async ({ method }: { method: string }) =>
+			method === 'eth_newBlockFilter'
+				? Promise.resolve('0x1')
+				: Promise.reject(new Error('connection refused')),
+		);
+
+		const sub = await subscriptionManager.subscribe('newHeads');
+		const error = jest.fn();
+		sub.on('error', error);
+		await waitForPolling();
+
+		expect(error).toHaveBeenCalledWith(new Error('connection refused'));
+	});
+
+	it('should stop polling and uninstall the filter on unsubscribe', async () => {
+		send.mockImplementation(async ({ method }: { method: string }) =>
+			Promise.resolve(method === 'eth_newBlockFilter' ? '0x1' : []),
+		);
+
+		const sub = await subscriptionManager.subscribe('newHeads');
+		await sub.unsubscribe();
+		expect(send).toHaveBeenCalledWith({ method: 'eth_uninstallFilter', params: ['0x1'] });
+		send.mockClear();
+		await waitForPolling();
+
+		expect(sub.id).toBeUndefined();
+		expect(subscriptionManager.subscriptions.size).toBe(0);
+		expect(send).not.toHaveBeenCalledWith({
+			method: 'eth_getFilterChanges',
+			params: ['0x1'],
+		});
+	});
+
+	it('should throw for the subscriptions that can not be emulated', async () => {
+		await expect(subscriptionManager.subscribe('syncing')).rejects.toThrow(SubscriptionError);
+	});
+});
@@ -0,0 +1,155 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Web3Subscription, Web3SubscriptionManager } from '../../src';
+import { ExampleSubscription } from './fixtures/example_subscription';
+
+class LogsSubscription extends Web3Subscription<{ data: unknown }, { address: string }> {
+	protected _buildSubscriptionParams() {
+		return ['logs', this.args] as never;
+	}
+}
+
+const subscriptions = {
+	newHeads: ExampleSubscription as never,
+	logs: LogsSubscription as never,
+};
+
+const blockHash = '0xdc0818cf78f21a8e70579cb46a43643f78291264dda342ae31049421c82d21ae';
+
+describe('Web3SubscriptionManager reconnection', () => {
+	let send: jest.Mock;
+	let listeners: Record<string, (data?: unknown) => void>;
+	let subscriptionManager: Web3SubscriptionManager;
+
+	const notify = (subscription: string, result: unknown) =>
+		listeners.message({
+			jsonrpc: '2.0',
+			method: 'eth_subscription',
+			params: { subscription, result },
+		});
+
+	beforeEach(() => {
+		let subscriptionId = 0;
+		send = jest.fn().mockImplementation(async ({ method }: { method: string }) => {
+			subscriptionId += 1;
+			return Promise.resolve(method === 'eth_subscribe' ? `0x${subscriptionId}` : true);
+		});
+		listeners = {};
+		const requestManager = {
+			send,
+			on: jest.fn(),
+			provider: {
+				request: jest.fn(),
+				on: (event: string, listener: (data?: unknown) => void) => {
+					listeners[event] = listener;
+				},
+			},
+		};
+		subscriptionManager = new Web3SubscriptionManager(
+			requestManager as any,
+			subscriptions as any,
+		);
+	});
+
+	it('should resubscribe on reconnect and keep the subscription id', async () => {
+		const sub = await subscriptionManager.subscribe('newHeads');
+		const data = jest.fn();
+		sub.on('data', data);
+
+		listeners.reconnect();
+		await new Promise(resolve => {
+			setTimeout(resolve, 0);
+		});
+
+		expect(send).toHaveBeenCalledTimes(2);
+		expect(sub.id).toBe('0x1');
+
+		notify('0x2', { number: '0x1' });
+		expect(data).toHaveBeenCalledWith({ number: '0x1' });
+
+		await sub.unsubscribe();
+		expect(send).toHaveBeenLastCalledWith({ method: 'eth_unsubscribe', params: ['0x2'] });
+		expect(subscriptionManager.subscriptions.size).toBe(0);
+	});
+
+	it('should backfill the logs missed while disconnected', async () => {
+		const sub = await subscriptionManager.subscribe('logs', { address: '0x2' });
+		const data = jest.fn();
+		sub.on('data', data);
+
+		const firstLog = { blockNumber: '0x10', blockHash, logIndex: '0x0' };
+		notify('0x1', firstLog);
+
+		const missedLogs = [
+			{ blockNumber: '0x10', blockHash, logIndex: '0x1' },
+			{ blockNumber: '0x11', blockHash, logIndex: '0x0' },
+		];
+		send.mockImplementation(async ({ method }: { method: string }) =>
+			Promise.resolve(method === 'eth_getLogs' ? [firstLog, ...missedLogs] : '0x2'),
+		);
+		await subscriptionManager.resubscribeAll();
+
+		expect(send).toHaveBeenCalledWith({
+			method: 'eth_getLogs',
+			params: [{ address: '0x2', fromBlock: '0x10', toBlock: 'latest' }],
+		});
+		expect(data.mock.calls).toEqual([[firstLog], [missedLogs[0]], [missedLogs[1]]]);
+
+		// the logs received from the new subscription are not duplicated either
+		notify('0x2', missedLogs[1]);
+		expect(data).toHaveBeenCalledTimes(3);
+	});
+
+	it('should not duplicate the logs received from the new subscription during the backfill', async () => {
+		const sub = await subscriptionManager.subscribe('logs', { address: '0x2' });
+		const data = jest.fn();
+		sub.on('data', data);
+
+		const firstLog = { blockNumber: '0x10', blockHash, logIndex: '0x0' };
+		notify('0x1', firstLog);
+
+		const missedLog = { blockNumber: '0x11', blockHash, logIndex: '0x0' };
+		const liveLog = { blockNumber: '0x12', blockHash, logIndex: '0x0' };
+		send.mockImplementation(async ({ method }: { method: string }) => {
+			if (method !== 'eth_getLogs') {
+				return Promise.resolve('0x2');
+			}
+			// a new log is received before the backfill, moving the last block past its first block
+			notify('0x2', liveLog);
+			return Promise.resolve([firstLog, missedLog, liveLog]);
+		});
+		await subscriptionManager.resubscribeAll();
+
+		expect(send).toHaveBeenCalledWith({
+			method: 'eth_getLogs',
+			params: [{ address: '0x2', fromBlock: '0x10', toBlock: 'latest' }],
+		});
+		expect(data.mock.calls).toEqual([[firstLog], [liveLog], [missedLog]]);
+	});
+
+	it('should emit the errors of the subscriptions failing to resubscribe', async () => {
+		const sub = await subscriptionManager.subscribe('newHeads');
+		const error = jest.fn();
+		sub.on('error', error);
+
+		send.mockRejectedValue(new Error('connection refused'));
+		await subscriptionManager.resubscribeAll();
+
+		expect(error).toHaveBeenCalledWith(new Error('connection refused'));
+	});
+});
@@ -92,6 +92,8 @@ export const ERR_TX_INVALID_PROPERTIES_FOR_TYPE = 439;
 
 export const ERR_TX_MISSING_GAS_INNER_ERROR = 440;
 export const ERR_TX_GAS_MISMATCH_INNER_ERROR = 441;
+export const ERR_TX_MISSING_PRIORITY_SIGNER = 442;
+export const ERR_TX_UNSUPPORTED_PRIORITY = 443;
 // Connection error codes
 export const ERR_CONN = 500;
 export const ERR_CONN_INVALID = 501;
@@ -108,6 +110,8 @@ export const ERR_INVALID_PROVIDER = 601;
 export const ERR_INVALID_CLIENT = 602;
 export const ERR_SUBSCRIPTION = 603;
 export const ERR_WS_PROVIDER = 604;
+export const ERR_FALLBACK_PROVIDER = 605;
+export const ERR_QUORUM_NOT_REACHED = 606;
 
 // Account error codes
 export const ERR_PRIVATE_KEY_LENGTH = 701;
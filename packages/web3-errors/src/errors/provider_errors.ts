@@ -23,6 +23,8 @@ import {
 	ERR_INVALID_CLIENT,
 	ERR_SUBSCRIPTION,
 	ERR_WS_PROVIDER,
+	ERR_FALLBACK_PROVIDER,
+	ERR_QUORUM_NOT_REACHED,
 } from '../error_codes.js';
 import { BaseWeb3Error } from '../web3_error_base.js';
 
@@ -53,3 +55,26 @@ export class SubscriptionError extends BaseWeb3Error {
 export class Web3WSProviderError extends BaseWeb3Error {
 	public code = ERR_WS_PROVIDER; // this had duplicate code with generic provider
 }
+
+export class FallbackProviderError extends BaseWeb3Error {
+	public code = ERR_FALLBACK_PROVIDER;
+
+	public constructor(errors: Error[]) {
+		super(`All ${errors.length} providers failed to answer the request`, errors);
+	}
+}
+
+export class QuorumNotReachedError extends BaseWeb3Error {
+	public code = ERR_QUORUM_NOT_REACHED;
+
+	public constructor(public quorum: number, public responses: number, errors?: Error[]) {
+		super(
+			`Quorum of ${quorum} matching responses not reached with ${responses} responses`,
+			errors,
+		);
+	}
+
+	public toJSON() {
+		return { ...super.toJSON(), quorum: this.quorum, responses: this.responses };
+	}
+}
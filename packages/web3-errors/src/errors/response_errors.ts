@@ -45,11 +45,16 @@ export class ResponseError<ErrorType = unknown, RequestType = unknown> extends B
 	public code = ERR_RESPONSE;
 	public data?: ErrorType | ErrorType[];
 	public request?: JsonRpcPayload<RequestType>;
+	/**
+	 * The HTTP status of the response, if it was received over HTTP
+	 */
+	public statusCode?: number;
 
 	public constructor(
 		response: JsonRpcResponse<unknown, ErrorType>,
 		message?: string,
 		request?: JsonRpcPayload<RequestType>,
+		statusCode?: number,
 	) {
 		super(
 			message ??
@@ -67,6 +72,7 @@ export class ResponseError<ErrorType = unknown, RequestType = unknown> extends B
 		}
 
 		this.request = request;
+		this.statusCode = statusCode;
 		let errorOrErrors: JsonRpcError | JsonRpcError[] | undefined;
 		if (`error` in response) {
 			errorOrErrors = response.error as JsonRpcError;
@@ -67,6 +67,8 @@ import {
 	ERR_TX_INVALID_PROPERTIES_FOR_TYPE,
 	ERR_TX_MISSING_GAS_INNER_ERROR,
 	ERR_TX_GAS_MISMATCH_INNER_ERROR,
+	ERR_TX_MISSING_PRIORITY_SIGNER,
+	ERR_TX_UNSUPPORTED_PRIORITY,
 } from '../error_codes.js';
 import { InvalidValueError, BaseWeb3Error } from '../web3_error_base.js';
 
@@ -576,7 +578,7 @@ export class InvalidPropertiesForTransactionTypeError extends BaseWeb3Error {
 
 	public constructor(
 		validationError: Web3ValidationErrorObject[],
-		txType: '0x0' | '0x1' | '0x2',
+		txType: '0x0' | '0x1' | '0x2' | '0x40',
 	) {
 		const invalidPropertyNames: string[] = [];
 		validationError.forEach(error => invalidPropertyNames.push(error.keyword));
@@ -587,3 +589,25 @@ export class InvalidPropertiesForTransactionTypeError extends BaseWeb3Error {
 		);
 	}
 }
+
+export class MissingPrioritySignerError extends InvalidValueError {
+	public code = ERR_TX_MISSING_PRIORITY_SIGNER;
+
+	public constructor(value: { from?: HexString }) {
+		super(
+			`from: ${value.from ?? 'undefined'}`,
+			'Priority transactions (type 0x40) must be signed by a priority signer as well as the sender',
+		);
+	}
+}
+
+export class PriorityTransactionNotSupportedError extends InvalidValueError {
+	public code = ERR_TX_UNSUPPORTED_PRIORITY;
+
+	public constructor(value: { chainId: unknown; hardfork?: unknown }) {
+		super(
+			JSON.stringify(value),
+			'Priority transactions (type 0x40) are not supported on the given chain and hardfork',
+		);
+	}
+}
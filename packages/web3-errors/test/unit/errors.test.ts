@@ -150,6 +150,20 @@ describe('errors', () => {
 		});
 	});
 
+	describe('FallbackProviderError', () => {
+		it('should have valid json structure', () => {
+			expect(
+				new providerErrors.FallbackProviderError([new Error('my error')]).toJSON(),
+			).toMatchSnapshot();
+		});
+	});
+
+	describe('QuorumNotReachedError', () => {
+		it('should have valid json structure', () => {
+			expect(new providerErrors.QuorumNotReachedError(2, 3).toJSON()).toMatchSnapshot();
+		});
+	});
+
 	describe('TransactionError', () => {
 		it('should have valid json structure', () => {
 			expect(
@@ -212,6 +226,27 @@ describe('errors', () => {
 		});
 	});
 
+	describe('MissingPrioritySignerError', () => {
+		it('should have valid json structure', () => {
+			expect(
+				new transactionErrors.MissingPrioritySignerError({
+					from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+				}).toJSON(),
+			).toMatchSnapshot();
+		});
+	});
+
+	describe('PriorityTransactionNotSupportedError', () => {
+		it('should have valid json structure', () => {
+			expect(
+				new transactionErrors.PriorityTransactionNotSupportedError({
+					chainId: '0x1',
+					hardfork: 'london',
+				}).toJSON(),
+			).toMatchSnapshot();
+		});
+	});
+
 	describe('NoContractAddressFoundError', () => {
 		it('should have valid json structure', () => {
 			expect(
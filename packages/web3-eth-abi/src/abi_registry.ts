@@ -0,0 +1,251 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { AbiError } from '@etn-sc/web3-errors';
+import {
+	AbiErrorFragment,
+	AbiEventFragment,
+	AbiFunctionFragment,
+	ContractAbi,
+	DecodedParams,
+	HexString,
+} from '@etn-sc/web3-types';
+import { isHexStrict } from '@etn-sc/web3-validator';
+
+import { encodeErrorSignature } from './api/errors_api.js';
+import { encodeEventSignature } from './api/events_api.js';
+import { encodeFunctionSignature } from './api/functions_api.js';
+import { decodeLog } from './api/logs_api.js';
+import { decodeParameters } from './api/parameters_api.js';
+import {
+	isAbiErrorFragment,
+	isAbiEventFragment,
+	isAbiFunctionFragment,
+	jsonInterfaceMethodToString,
+} from './utils.js';
+
+type RegistryFragment = AbiFunctionFragment | AbiEventFragment | AbiErrorFragment;
+
+export interface AbiDecodedData<Fragment extends RegistryFragment> {
+	/**
+	 * The fragment decoding the data
+	 */
+	fragment: Fragment;
+	/**
+	 * The signature of the fragment, e.g. `transfer(address,uint256)`
+	 */
+	signature: string;
+	values: DecodedParams;
+}
+
+export interface AbiRegistryLog {
+	topics: HexString[];
+	data: HexString;
+}
+
+// The errors of the `require` and `assert` statements of Solidity, known without their ABI
+const BUILT_IN_ERRORS: AbiErrorFragment[] = [
+	{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] },
+	{ type: 'error', name: 'Panic', inputs: [{ name: 'code', type: 'uint256' }] },
+];
+
+const toLowerHex = (value: HexString, name: string) => {
+	if (!isHexStrict(value)) {
+		throw new AbiError(`Invalid ${name}, it must be a hex string: ${String(value)}`);
+	}
+	return value.toLowerCase();
+};
+
+// Events with the same signature differ by their indexed parameters, e.g. the `Transfer` of ERC20 and ERC721
+const fragmentKey = (fragment: RegistryFragment) => {
+	const key = `${fragment.type}:${jsonInterfaceMethodToString(fragment)}`;
+	return isAbiEventFragment(fragment)
+		? `${key}:${(fragment.inputs ?? []).map(input => (input.indexed ? 1 : 0)).join('')}`
+		: key;
+};
+
+const countIndexed = (fragment: AbiEventFragment) =>
+	(fragment.inputs ?? []).filter(input => input.indexed).length;
+
+/**
+ * Indexes the fragments of many ABIs by their selector, to decode the calldata, logs and revert data of any registered contract.
+ * The functions are indexed by their 4-byte selector, the events by their topic0 and the errors by their 4-byte selector.
+ * The anonymous events can not be indexed, as they have no topic0.
+ *
+ * As different fragments may share a selector, every decoding returns the candidates decoding the data,
+ * an empty array if no fragment matches. The same fragment registered by several ABIs is only kept once.
+ *
+ * ```ts
+ * const registry = new AbiRegistry([erc20Abi, routerAbi]);
+ * registry.register(vaultAbi);
+ *
+ * const [call] = registry.decodeFunctionData(tx.input);
+ * > { fragment: {...}, signature: 'transfer(address,uint256)', values: { to: '0x...', amount: 100n, ... } }
+ *
+ * const [event] = registry.decodeLog(receipt.logs[0]);
+ * const [error] = registry.decodeErrorData(revertData);
+ * ```
+ */
+export class AbiRegistry {
+	private readonly _functions = new Map<HexString, AbiFunctionFragment[]>();
+	private readonly _events = new Map<HexString, AbiEventFragment[]>();
+	private readonly _errors = new Map<HexString, AbiErrorFragment[]>();
+	private readonly _keys = new Set<string>();
+
+	public constructor(abis: ContractAbi[] = []) {
+		this._add(this._errors, BUILT_IN_ERRORS, fragment =>
+			encodeErrorSignature(fragment).slice(0, 10),
+		);
+		for (const abi of abis) {
+			this.register(abi);
+		}
+	}
+
+	/**
+	 * Indexes the function, event and error fragments of an ABI
+	 *
+	 * @param abi - The ABI of a contract
+	 * @returns The registry
+	 */
+	public register(abi: ContractAbi) {
+		this._add(this._functions, abi.filter(isAbiFunctionFragment), encodeFunctionSignature);
+		this._add(
+			this._events,
+			abi.filter(
+				fragment => isAbiEventFragment(fragment) && !fragment.anonymous,
+			) as AbiEventFragment[],
+			encodeEventSignature,
+		);
+		this._add(this._errors, abi.filter(isAbiErrorFragment) as AbiErrorFragment[], fragment =>
+			encodeErrorSignature(fragment).slice(0, 10),
+		);
+		return this;
+	}
+
+	/**
+	 * Will return the function fragments of a 4-byte selector
+	 */
+	public getFunctions(selector: HexString): AbiFunctionFragment[] {
+		return this._functions.get(toLowerHex(selector, 'selector')) ?? [];
+	}
+
+	/**
+	 * Will return the event fragments of a topic0
+	 */
+	public getEvents(topic: HexString): AbiEventFragment[] {
+		return this._events.get(toLowerHex(topic, 'topic')) ?? [];
+	}
+
+	/**
+	 * Will return the error fragments of a 4-byte selector
+	 */
+	public getErrors(selector: HexString): AbiErrorFragment[] {
+		return this._errors.get(toLowerHex(selector, 'selector')) ?? [];
+	}
+
+	/**
+	 * Decodes the input of a transaction or of a call with the functions of its selector
+	 *
+	 * @param input - The calldata, starting with the 4-byte selector
+	 * @returns The functions decoding the input, more than one if they share the selector
+	 */
+	public decodeFunctionData(input: HexString): AbiDecodedData<AbiFunctionFragment>[] {
+		const data = toLowerHex(input, 'input');
+		return AbiRegistry._decodeParameters(
+			this._functions.get(data.slice(0, 10)) ?? [],
+			data.slice(10),
+		);
+	}
+
+	/**
+	 * Decodes a log with the events of its topic0, only the ones with as many indexed parameters as the log topics are candidates
+	 *
+	 * @param log - The topics and the data of the log
+	 * @returns The events decoding the log, more than one if they share the topic and the indexed parameters
+	 */
+	public decodeLog(log: AbiRegistryLog): AbiDecodedData<AbiEventFragment>[] {
+		const data = toLowerHex(log.data, 'data');
+		const topics = log.topics.map(topic => toLowerHex(topic, 'topic'));
+		if (topics.length === 0) {
+			return [];
+		}
+
+		const candidates: AbiDecodedData<AbiEventFragment>[] = [];
+		for (const fragment of this._events.get(topics[0]) ?? []) {
+			if (countIndexed(fragment) === topics.length - 1) {
+				try {
+					candidates.push({
+						fragment,
+						signature: jsonInterfaceMethodToString(fragment),
+						values: decodeLog([...(fragment.inputs ?? [])], data, topics.slice(1)),
+					});
+				} catch {
+					// The data does not match the parameters of the fragment
+				}
+			}
+		}
+		return candidates;
+	}
+
+	/**
+	 * Decodes the revert data of a call with the errors of its selector, including the `Error(string)` and `Panic(uint256)` of Solidity
+	 *
+	 * @param revertData - The revert data, starting with the 4-byte selector
+	 * @returns The errors decoding the revert data, more than one if they share the selector
+	 */
+	public decodeErrorData(revertData: HexString): AbiDecodedData<AbiErrorFragment>[] {
+		const data = toLowerHex(revertData, 'revert data');
+		return AbiRegistry._decodeParameters(
+			this._errors.get(data.slice(0, 10)) ?? [],
+			data.slice(10),
+		);
+	}
+
+	private _add<Fragment extends RegistryFragment>(
+		index: Map<HexString, Fragment[]>,
+		fragments: Fragment[],
+		selectorOf: (fragment: Fragment) => HexString,
+	) {
+		for (const fragment of fragments) {
+			const key = fragmentKey(fragment);
+			if (!this._keys.has(key)) {
+				this._keys.add(key);
+				const selector = selectorOf(fragment);
+				index.set(selector, [...(index.get(selector) ?? []), fragment]);
+			}
+		}
+	}
+
+	private static _decodeParameters<Fragment extends AbiFunctionFragment | AbiErrorFragment>(
+		fragments: Fragment[],
+		data: HexString,
+	): AbiDecodedData<Fragment>[] {
+		const candidates: AbiDecodedData<Fragment>[] = [];
+		for (const fragment of fragments) {
+			try {
+				candidates.push({
+					fragment,
+					signature: jsonInterfaceMethodToString(fragment),
+					values: decodeParameters([...(fragment.inputs ?? [])], data),
+				});
+			} catch {
+				// The data does not match the parameters of the fragment
+			}
+		}
+		return candidates;
+	}
+}
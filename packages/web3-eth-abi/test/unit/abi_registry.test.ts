@@ -0,0 +1,178 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { AbiError } from '@etn-sc/web3-errors';
+import { AbiErrorFragment, AbiEventFragment, AbiFunctionFragment } from '@etn-sc/web3-types';
+import { AbiRegistry } from '../../src/abi_registry';
+import { encodeErrorSignature } from '../../src/api/errors_api';
+import { encodeEventSignature } from '../../src/api/events_api';
+import { encodeFunctionCall, encodeFunctionSignature } from '../../src/api/functions_api';
+import { encodeParameters } from '../../src/api/parameters_api';
+
+const holder = '0x407d73d8a49eeb85d32cf465507dd71d507100c1';
+const recipient = '0xde0b295669a9fd93d5f28d9ec85e40f4cb697bae';
+
+const transfer: AbiFunctionFragment = {
+	type: 'function',
+	name: 'transfer',
+	inputs: [
+		{ name: 'to', type: 'address' },
+		{ name: 'amount', type: 'uint256' },
+	],
+	outputs: [{ name: '', type: 'bool' }],
+	stateMutability: 'nonpayable',
+};
+const erc20Transfer: AbiEventFragment = {
+	type: 'event',
+	name: 'Transfer',
+	inputs: [
+		{ name: 'from', type: 'address', indexed: true },
+		{ name: 'to', type: 'address', indexed: true },
+		{ name: 'value', type: 'uint256', indexed: false },
+	],
+};
+const erc721Transfer: AbiEventFragment = {
+	...erc20Transfer,
+	inputs: [
+		{ name: 'from', type: 'address', indexed: true },
+		{ name: 'to', type: 'address', indexed: true },
+		{ name: 'tokenId', type: 'uint256', indexed: true },
+	],
+};
+const insufficientBalance: AbiErrorFragment = {
+	type: 'error',
+	name: 'InsufficientBalance',
+	inputs: [
+		{ name: 'available', type: 'uint256' },
+		{ name: 'required', type: 'uint256' },
+	],
+};
+// Both share the selector 0x42966c68
+const burn: AbiFunctionFragment = {
+	type: 'function',
+	name: 'burn',
+	inputs: [{ name: 'amount', type: 'uint256' }],
+	outputs: [],
+	stateMutability: 'nonpayable',
+};
+const collateBurn: AbiFunctionFragment = {
+	type: 'function',
+	name: 'collate_propagate_storage',
+	inputs: [{ name: 'key', type: 'bytes16' }],
+	outputs: [],
+	stateMutability: 'nonpayable',
+};
+
+const topic = (address: string) => `0x000000000000000000000000${address.slice(2)}`;
+const uint256Topic = (value: number) => encodeParameters(['uint256'], [value]);
+
+describe('AbiRegistry', () => {
+	let registry: AbiRegistry;
+
+	beforeEach(() => {
+		registry = new AbiRegistry([[transfer, erc20Transfer, insufficientBalance]]);
+		registry.register([erc721Transfer]);
+	});
+
+	it('should index the fragments by their selector', () => {
+		expect(registry.getFunctions(encodeFunctionSignature(transfer))).toEqual([transfer]);
+		expect(registry.getEvents(encodeEventSignature(erc20Transfer))).toEqual([
+			erc20Transfer,
+			erc721Transfer,
+		]);
+		expect(registry.getErrors(encodeErrorSignature(insufficientBalance).slice(0, 10))).toEqual([
+			insufficientBalance,
+		]);
+		expect(registry.getFunctions('0x12345678')).toEqual([]);
+	});
+
+	it('should keep a fragment registered by several ABIs once', () => {
+		registry.register([
+			{
+				...transfer,
+				inputs: [
+					{ name: 'recipient', type: 'address' },
+					{ name: 'value', type: 'uint256' },
+				],
+			},
+		]);
+
+		expect(registry.getFunctions(encodeFunctionSignature(transfer))).toHaveLength(1);
+	});
+
+	it('should decode the input of a call', () => {
+		const [decoded, ...others] = registry.decodeFunctionData(
+			encodeFunctionCall(transfer, [recipient, 100]).toUpperCase().replace('0X', '0x'),
+		);
+
+		expect(others).toEqual([]);
+		expect(decoded.fragment).toBe(transfer);
+		expect(decoded.signature).toBe('transfer(address,uint256)');
+		expect((decoded.values.to as string).toLowerCase()).toBe(recipient);
+		expect(decoded.values.amount).toBe(BigInt(100));
+	});
+
+	it('should return the candidates of a function selector collision', () => {
+		registry.register([burn, collateBurn]);
+		const input = encodeFunctionCall(burn, [1]);
+
+		expect(encodeFunctionSignature(collateBurn)).toBe(encodeFunctionSignature(burn));
+		expect(registry.decodeFunctionData(input).map(({ signature }) => signature)).toEqual([
+			'burn(uint256)',
+			'collate_propagate_storage(bytes16)',
+		]);
+	});
+
+	it('should decode a log with the events of its topic and indexed parameters', () => {
+		const topics = [encodeEventSignature(erc20Transfer), topic(holder), topic(recipient)];
+
+		const erc20Log = registry.decodeLog({ topics, data: uint256Topic(100) });
+		const erc721Log = registry.decodeLog({ topics: [...topics, uint256Topic(7)], data: '0x' });
+
+		expect(erc20Log).toHaveLength(1);
+		expect(erc20Log[0].fragment).toBe(erc20Transfer);
+		expect(erc20Log[0].values.value).toBe(BigInt(100));
+		expect(erc721Log).toHaveLength(1);
+		expect(erc721Log[0].fragment).toBe(erc721Transfer);
+		expect(erc721Log[0].values.tokenId).toBe(BigInt(7));
+		expect(registry.decodeLog({ topics: [], data: '0x' })).toEqual([]);
+	});
+
+	it('should decode the custom and the built-in errors', () => {
+		const customError = `${encodeErrorSignature(insufficientBalance).slice(
+			0,
+			10,
+		)}${encodeParameters(['uint256', 'uint256'], [0, 100]).slice(2)}`;
+		const revertString = `0x08c379a0${encodeParameters(['string'], ['not allowed']).slice(2)}`;
+
+		const [custom] = registry.decodeErrorData(customError);
+		const [builtIn] = registry.decodeErrorData(revertString);
+
+		expect(custom.signature).toBe('InsufficientBalance(uint256,uint256)');
+		expect(custom.values.required).toBe(BigInt(100));
+		expect(builtIn.signature).toBe('Error(string)');
+		expect(builtIn.values.message).toBe('not allowed');
+	});
+
+	it('should not return the candidates failing to decode the data', () => {
+		expect(registry.decodeFunctionData(`${encodeFunctionSignature(transfer)}1234`)).toEqual([]);
+	});
+
+	it('should throw for the data that is not hex', () => {
+		expect(() => registry.decodeFunctionData('transfer')).toThrow(AbiError);
+	});
+});
@@ -33,6 +33,7 @@ import {
 	PrivateKeyLengthError,
 	TransactionSigningError,
 	UndefinedRawTransactionError,
+	UnsupportedTransactionTypeError,
 } from '@etn-sc/web3-errors';
 import {
 	Address,
@@ -63,6 +64,7 @@ import { secp256k1 } from './tx/constants.js';
 import { keyStoreSchema } from './schemas.js';
 import { TransactionFactory } from './tx/transactionFactory.js';
 import type {
+	RecoverPriorityTransactionResult,
 	SignatureObject,
 	SignTransactionResult,
 	SignPriorityETNIP1TransactionResult,
@@ -345,6 +347,35 @@ export const recoverTransaction = (rawTransaction: HexString): Address => {
 	return toChecksumAddress(tx.getSenderAddress().toString());
 };
 
+/**
+ * Recovers the addresses of the sender and of the priority signer of the given ETNIP-1 priority transaction.
+ *
+ * @param rawTransaction - The hex string having the encoded type 0x40 transaction
+ * @returns The addresses which signed this transaction as sender and as priority signer
+ * ```ts
+ * recoverPriorityTransaction('0x40f8...');
+ * > {
+ *   sender: '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23',
+ *   prioritySender: '0xb8CE9ab6943e0eCED004cDe8e3bBed6568B2Fa01'
+ * }
+ * ```
+ */
+export const recoverPriorityTransaction = (
+	rawTransaction: HexString,
+): RecoverPriorityTransactionResult => {
+	if (isNullish(rawTransaction)) throw new UndefinedRawTransactionError();
+
+	const tx = TransactionFactory.fromSerializedData(hexToBytes(rawTransaction));
+
+	if (!(tx instanceof PriorityETNIP1Transaction))
+		throw new UnsupportedTransactionTypeError(tx.type);
+
+	return {
+		sender: toChecksumAddress(tx.getSenderAddress().toString()),
+		prioritySender: toChecksumAddress(tx.getPrioritySenderAddress().toString()),
+	};
+};
+
 /**
  * Recovers the Ethereum address which was used to sign the given data
  *
@@ -0,0 +1,86 @@
+export default {
+	"name": "electroneum",
+	"chainId": 52014,
+	"networkId": 52014,
+	"defaultHardfork": "priority",
+	"consensus": {
+		"type": "poa",
+		"algorithm": "ibft",
+		"ibft": {}
+	},
+	"comment": "The Electroneum Smart Chain main network",
+	"url": "https://electroneum.com/",
+	// TODO: fill in the genesis extraData (the IBFT validators) and the bootnodes of the main network from the etn-sc
+	// genesis, and check the block of the priority fork; the other forks are active from the genesis block
+	"genesis": {
+		"gasLimit": 30000000,
+		"difficulty": 1,
+		"nonce": "0x0000000000000000",
+		"extraData": "0x"
+	},
+	"hardforks": [
+		{
+			"name": "chainstart",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "homestead",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "tangerineWhistle",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "spuriousDragon",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "byzantium",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "constantinople",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "petersburg",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "istanbul",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "muirGlacier",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "berlin",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "london",
+			"block": 0,
+			"forkHash": null
+		},
+		{
+			"name": "priority",
+			"block": 0,
+			"forkHash": null
+		}
+	],
+	"bootstrapNodes": [],
+	"dnsNetworks": []
+}
+ ;
\ No newline at end of file
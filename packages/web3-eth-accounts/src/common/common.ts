@@ -19,6 +19,8 @@ import { EventEmitter, bytesToHex, hexToBytes, uint8ArrayConcat } from '@etn-sc/
 import type { Numbers } from '@etn-sc/web3-types';
 import { TypeOutput } from './types.js';
 import { intToUint8Array, toType, parseGethGenesis } from './utils.js';
+import electroneum from './chains/electroneum.js';
+import electroneumTestnet from './chains/electroneumTestnet.js';
 import goerli from './chains/goerli.js';
 import mainnet from './chains/mainnet.js';
 import sepolia from './chains/sepolia.js';
@@ -40,6 +42,7 @@ import type {
 	GenesisBlockConfig,
 	GethConfigOpts,
 	HardforkConfig,
+	IbftConfig,
 } from './types.js';
 
 const { buf: crc32Uint8Array } = pkg;
@@ -74,6 +77,12 @@ export class Common extends EventEmitter {
 	 * Common.custom({chainId: 123})
 	 * ```
 	 *
+	 * The built-in Electroneum chains can be used as a base chain as well, e.g.:
+	 *
+	 * ```javascript
+	 * Common.custom({ chainId: 5201421 }, { baseChain: 'electroneumtestnet' })
+	 * ```
+	 *
 	 * There are also selected supported custom chains which can be initialized by using one of the
 	 * {@link CustomChains} for {@link chainParamsOrName}, e.g.:
 	 *
@@ -1125,6 +1134,7 @@ export class Common extends EventEmitter {
 	 * e.g. "ethash" for "pow" consensus type,
 	 * "clique" for "poa" consensus type or
 	 * "casper" for "pos" consensus type.
+	 * Electroneum chains use "ibft" for "poa" consensus type.
 	 *
 	 * Note: This value can update along a Hardfork.
 	 */
@@ -1153,10 +1163,13 @@ export class Common extends EventEmitter {
 	 * ethash: empty object
 	 * clique: period, epoch
 	 * casper: empty object
+	 * ibft: empty object
 	 *
 	 * Note: This value can update along a Hardfork.
 	 */
-	public consensusConfig(): { [key: string]: CliqueConfig | EthashConfig | CasperConfig } {
+	public consensusConfig(): {
+		[key: string]: CliqueConfig | EthashConfig | CasperConfig | IbftConfig;
+	} {
 		const hardfork = this.hardfork();
 
 		let value;
@@ -1193,7 +1206,13 @@ export class Common extends EventEmitter {
 		for (const [name, id] of Object.entries(Chain)) {
 			names[id] = name.toLowerCase();
 		}
-		const chains = { mainnet, goerli, sepolia } as ChainsConfig;
+		const chains = {
+			mainnet,
+			goerli,
+			sepolia,
+			electroneum,
+			electroneumtestnet: electroneumTestnet,
+		} as ChainsConfig;
 		if (customChains) {
 			for (const chain of customChains) {
 				const { name } = chain;
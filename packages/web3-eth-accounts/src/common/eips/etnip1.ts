@@ -0,0 +1,14 @@
+export default {
+	"name": "ETNIP-1",
+	"number": 520140001,
+	"comment": "Priority transactions (type 0x40) co-signed by a priority signer",
+	"url": "https://github.com/electroneum/electroneum-sc",
+	"status": "Final",
+	"minimumHardfork": "london",
+	"requiredEIPs": [1559, 2930],
+	"gasConfig": {},
+	"gasPrices": {},
+	"vm": {},
+	"pow": {}
+}
+ ;
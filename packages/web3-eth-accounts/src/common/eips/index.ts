@@ -36,6 +36,7 @@ import e3860 from './3860.js';
 import e4345 from './4345.js';
 import e4399 from './4399.js';
 import e5133 from './5133.js';
+import etnip1 from './etnip1.js';
 
 export const EIPs: { [key: number]: any } = {
 	1153: e1153,
@@ -60,4 +61,5 @@ export const EIPs: { [key: number]: any } = {
 	4345: e4345,
 	4399: e4399,
 	5133: e5133,
+	520140001: etnip1,
 };
@@ -18,6 +18,8 @@ export enum Chain {
 	Mainnet = 1,
 	Goerli = 5,
 	Sepolia = 11155111,
+	Electroneum = 52014,
+	ElectroneumTestnet = 5201420,
 }
 
 export enum Hardfork {
@@ -39,6 +41,7 @@ export enum Hardfork {
 	Merge = 'merge',
 	Shanghai = 'shanghai',
 	ShardingForkDev = 'shardingFork',
+	Priority = 'priority',
 }
 
 export enum ConsensusType {
@@ -51,6 +54,7 @@ export enum ConsensusAlgorithm {
 	Ethash = 'ethash',
 	Clique = 'clique',
 	Casper = 'casper',
+	Ibft = 'ibft',
 }
 
 export enum CustomChain {
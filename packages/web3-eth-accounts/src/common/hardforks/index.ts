@@ -31,6 +31,7 @@ import arrowGlacier from './arrowGlacier.js';
 import grayGlacier from './grayGlacier.js';
 import mergeForkIdTransition from './mergeForkIdTransition.js';
 import merge from './merge.js';
+import priority from './priority.js';
 
 export const hardforks: { [key: string]: any } = {
 	chainstart,
@@ -50,4 +51,5 @@ export const hardforks: { [key: string]: any } = {
 	grayGlacier,
 	mergeForkIdTransition,
 	merge,
+	priority,
 };
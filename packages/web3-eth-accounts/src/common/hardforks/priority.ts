@@ -0,0 +1,8 @@
+export default {
+	"name": "priority",
+	"comment": "Electroneum Smart Chain hardfork enabling ETNIP-1 priority transactions",
+	"url": "https://github.com/electroneum/electroneum-sc",
+	"status": "Final",
+	"eips": [520140001]
+}
+ ;
\ No newline at end of file
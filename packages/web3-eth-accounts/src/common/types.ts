@@ -29,6 +29,8 @@ export type EthashConfig = Record<string, unknown>;
 
 export type CasperConfig = Record<string, unknown>;
 
+export type IbftConfig = Record<string, unknown>;
+
 export interface GenesisBlockConfig {
 	timestamp?: string;
 	gasLimit: number;
@@ -75,6 +77,7 @@ export interface ChainConfig {
 		clique?: CliqueConfig;
 		ethash?: EthashConfig;
 		casper?: CasperConfig;
+		ibft?: IbftConfig;
 	};
 }
 export interface ChainsConfig {
@@ -16,10 +16,13 @@ along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 import { keccak256 } from 'ethereum-cryptography/keccak.js';
 import { validateNoLeadingZeroes } from '@etn-sc/web3-validator';
+import { PriorityTransactionNotSupportedError } from '@etn-sc/web3-errors';
 import { RLP } from '@ethereumjs/rlp';
+import { Numbers } from '@etn-sc/web3-types';
 import { bytesToHex, hexToBytes, uint8ArrayConcat, uint8ArrayEquals } from '@etn-sc/web3-utils';
 import { MAX_INTEGER, SECP256K1_ORDER_DIV_2, secp256k1 } from './constants.js';
 import { BaseTransaction } from './baseTransaction.js';
+import { Address } from './address.js';
 import {
 	getAccessListData,
 	getAccessListJSON,
@@ -32,6 +35,7 @@ import {
 	ecrecover,
 	uint8ArrayToBigInt,
 	bigIntToUnpaddedUint8Array,
+	unpadUint8Array,
 } from '../common/utils.js';
 import type {
 	AccessList,
@@ -43,6 +47,7 @@ import type {
 } from './types.js';
 import { Capability, ECDSASignature } from './types.js';
 import type { Common } from '../common/common.js';
+import { Chain, Hardfork } from '../common/enums.js';
 
 const TRANSACTION_TYPE = 64;
 const TRANSACTION_TYPE_UINT8ARRAY = hexToBytes(TRANSACTION_TYPE.toString(16).padStart(2, '0'));
@@ -73,7 +78,15 @@ export class PriorityETNIP1Transaction extends BaseTransaction<PriorityETNIP1Tra
 	 *
 	 * @hidden
 	 */
-	protected DEFAULT_HARDFORK = 'london';
+	protected DEFAULT_HARDFORK = Hardfork.Priority;
+
+	/**
+	 * The default chain if no chain ID is given. Priority transactions
+	 * are only live on Electroneum chains.
+	 *
+	 * @hidden
+	 */
+	protected DEFAULT_CHAIN = Chain.Electroneum;
 
 	/**
 	 * Instantiate a transaction from a data dictionary.
@@ -172,7 +185,11 @@ export class PriorityETNIP1Transaction extends BaseTransaction<PriorityETNIP1Tra
 				v: v !== undefined ? uint8ArrayToBigInt(v) : undefined, // EIP2930 supports v's with value 0 (empty Uint8Array)
 				r,
 				s,
-				pV: pV !== undefined ? uint8ArrayToBigInt(pV) : undefined,
+				// A sender-signed transaction awaiting its priority signature has an empty priority signature
+				pV:
+					pV !== undefined && pR !== undefined && pR.length > 0
+						? uint8ArrayToBigInt(pV)
+						: undefined,
 				pR,
 				pS,
 			},
@@ -197,7 +214,18 @@ export class PriorityETNIP1Transaction extends BaseTransaction<PriorityETNIP1Tra
 		if (!this.common.isActivatedEIP(1559)) {
 			throw new Error('EIP-1559 not enabled on Common');
 		}
-		this.activeCapabilities = this.activeCapabilities.concat([1559, 2718, 2930]);
+		if (!this.common.isActivatedEIP(Capability.ETNIP1PriorityTransactions)) {
+			throw new PriorityTransactionNotSupportedError({
+				chainId: bigIntToHex(this.chainId),
+				hardfork: this.common.hardfork(),
+			});
+		}
+		this.activeCapabilities = this.activeCapabilities.concat([
+			1559,
+			2718,
+			2930,
+			Capability.ETNIP1PriorityTransactions,
+		]);
 
 		// Populate the access list fields
 		const accessListData = getAccessListData(accessList ?? []);
@@ -356,6 +384,15 @@ export class PriorityETNIP1Transaction extends BaseTransaction<PriorityETNIP1Tra
 		return message;
 	}
 
+	/**
+	 * Returns true if the transaction carries the sender signature, regardless of
+	 * whether the priority signature has been attached yet
+	 */
+	public isSenderSigned(): boolean {
+		const { v, r, s } = this;
+		return v !== undefined && r !== undefined && s !== undefined;
+	}
+
 	public override isSigned(): boolean {
 		const { v, r, s, pV, pR, pS } = this;
 		if (
@@ -436,7 +473,7 @@ export class PriorityETNIP1Transaction extends BaseTransaction<PriorityETNIP1Tra
 	 * Returns the public key of the sender
 	 */
 	public getSenderPublicKey(): Uint8Array {
-		if (!this.isSigned()) {
+		if (!this.isSenderSigned()) {
 			const msg = this._errorMsg('Cannot call this method if transaction is not signed');
 			throw new Error(msg);
 		}
@@ -460,40 +497,116 @@ export class PriorityETNIP1Transaction extends BaseTransaction<PriorityETNIP1Tra
 	}
 
 	/**
-	 * Returns the public key of the sender
+	 * Returns the public key of the priority signer
 	 */
-	public getSenderAndPriorityPublicKey(): [Uint8Array, Uint8Array] {
+	public getPriorityPublicKey(): Uint8Array {
 		if (!this.isSigned()) {
 			const msg = this._errorMsg('Cannot call this method if transaction is not signed');
 			throw new Error(msg);
 		}
 
 		const msgHash = this.getMessageToVerifySignature();
-		const { v, r, s, pV, pR, pS } = this;
+		const { pV, pR, pS } = this;
 
 		this._validateHighS();
 
 		try {
-			return [
-				ecrecover(
-					msgHash,
-					v! + BigInt(27), // Recover the 27 which was stripped from ecsign
-					bigIntToUnpaddedUint8Array(r!),
-					bigIntToUnpaddedUint8Array(s!),
-				),
-				ecrecover(
-					msgHash,
-					pV! + BigInt(27), // Recover the 27 which was stripped from ecsign
-					bigIntToUnpaddedUint8Array(pR!),
-					bigIntToUnpaddedUint8Array(pS!),
-				),
-			];
+			return ecrecover(
+				msgHash,
+				pV! + BigInt(27), // Recover the 27 which was stripped from ecsign
+				bigIntToUnpaddedUint8Array(pR!),
+				bigIntToUnpaddedUint8Array(pS!),
+			);
 		} catch (e: any) {
-			const msg = this._errorMsg('Invalid Signature');
+			const msg = this._errorMsg('Invalid Priority Signature');
 			throw new Error(msg);
 		}
 	}
 
+	/**
+	 * Returns the public keys of the sender and of the priority signer
+	 */
+	public getSenderAndPriorityPublicKey(): [Uint8Array, Uint8Array] {
+		return [this.getSenderPublicKey(), this.getPriorityPublicKey()];
+	}
+
+	/**
+	 * Returns the address of the priority signer
+	 */
+	public getPrioritySenderAddress(): Address {
+		return new Address(Address.publicToAddress(this.getPriorityPublicKey()));
+	}
+
+	/**
+	 * Determines if the priority signature is valid, i.e. if a priority signer
+	 * can be recovered from it over the message signed by the sender.
+	 * As any well-formed signature recovers some signer, a signature over another message
+	 * is only detected by giving the expected priority signer.
+	 *
+	 * @param expectedPrioritySigner - The address the priority signature must recover to
+	 */
+	public verifyPrioritySignature(expectedPrioritySigner?: Address | string): boolean {
+		try {
+			const publicKey = this.getPriorityPublicKey();
+			if (unpadUint8Array(publicKey).length === 0) {
+				return false;
+			}
+			return (
+				expectedPrioritySigner === undefined ||
+				this.getPrioritySenderAddress().toString() ===
+					expectedPrioritySigner.toString().toLowerCase()
+			);
+		} catch (e: any) {
+			return false;
+		}
+	}
+
+	/**
+	 * Determines if the sender signature is valid, whether or not the priority
+	 * signature has been attached yet
+	 */
+	public verifySenderSignature(): boolean {
+		return super.verifySignature();
+	}
+
+	/**
+	 * Determines if both the sender and the priority signatures are valid.
+	 * Used by {@link PriorityETNIP1Transaction.validate}.
+	 */
+	public override verifySignature(): boolean {
+		return this.verifySenderSignature() && this.verifyPrioritySignature();
+	}
+
+	/**
+	 * Checks the transaction like {@link PriorityETNIP1Transaction.validate},
+	 * and that the priority signature recovers to the expected priority signer.
+	 * It is kept apart from `validate`, whose signature is shared by all the transaction types.
+	 *
+	 * @param expectedPrioritySigner - The address the priority signature must recover to
+	 * @param stringError - Whether to return the errors instead of a boolean
+	 */
+	public validateWithPrioritySigner(expectedPrioritySigner: Address | string): boolean;
+	public validateWithPrioritySigner(
+		expectedPrioritySigner: Address | string,
+		stringError: false,
+	): boolean;
+	public validateWithPrioritySigner(
+		expectedPrioritySigner: Address | string,
+		stringError: true,
+	): string[];
+	public validateWithPrioritySigner(
+		expectedPrioritySigner: Address | string,
+		stringError = false,
+	): boolean | string[] {
+		const errors = this.validate(true);
+
+		if (this.isSigned() && !this.verifyPrioritySignature(expectedPrioritySigner)) {
+			errors.push('Invalid Priority Signer');
+		}
+
+		return stringError ? errors : errors.length === 0;
+	}
+
 	public _processSignature(v: bigint, r: Uint8Array, s: Uint8Array) {
 		const opts = { ...this.txOptions, common: this.common };
 
@@ -588,6 +701,103 @@ export class PriorityETNIP1Transaction extends BaseTransaction<PriorityETNIP1Tra
 		return tx;
 	}
 
+	/**
+	 * Signs the transaction as the sender only, leaving the priority signature empty.
+	 *
+	 * The returned transaction can be serialized with {@link PriorityETNIP1Transaction.serialize}
+	 * and handed to the priority signer, who restores it with
+	 * {@link PriorityETNIP1Transaction.fromSerializedTx} and completes it with
+	 * {@link PriorityETNIP1Transaction.signPriority} or {@link PriorityETNIP1Transaction.addPrioritySignature}.
+	 *
+	 * ```ts
+	 * const partialTx = PriorityETNIP1Transaction.fromTxData(txData, { common }).signSender(privateKey);
+	 * const portableTx = bytesToHex(partialTx.serialize());
+	 *
+	 * // later, by the priority signer
+	 * const signedTx = PriorityETNIP1Transaction.fromSerializedTx(hexToBytes(portableTx), {
+	 * 	common,
+	 * }).signPriority(priorityPrivateKey);
+	 * ```
+	 */
+	public signSender(privateKey: Uint8Array) {
+		if (privateKey.length !== 32) {
+			const msg = this._errorMsg('Private key must be 32 bytes in length.');
+			throw new Error(msg);
+		}
+
+		const { v, r, s } = this.__ecsign(this.getMessageToSign(true), privateKey);
+		return this._processSignature(v, r, s);
+	}
+
+	/**
+	 * Attaches the signature of the priority signer to a transaction already signed by the sender.
+	 *
+	 * The priority signer signs the same message as the sender, see
+	 * {@link PriorityETNIP1Transaction.getMessageToSign}.
+	 *
+	 * @param pV - The y-parity of the priority signature (0 or 1)
+	 * @param pR - The r value of the priority signature
+	 * @param pS - The s value of the priority signature
+	 * @returns A new, fully signed transaction
+	 */
+	public addPrioritySignature(
+		pV: Numbers | Uint8Array,
+		pR: Numbers | Uint8Array,
+		pS: Numbers | Uint8Array,
+	) {
+		if (!this.verifySenderSignature()) {
+			const msg = this._errorMsg(
+				'Cannot add a priority signature: the sender signature is missing or invalid',
+			);
+			throw new Error(msg);
+		}
+
+		const opts = { ...this.txOptions, common: this.common };
+		const tx = PriorityETNIP1Transaction.fromTxData(
+			{
+				chainId: this.chainId,
+				nonce: this.nonce,
+				maxPriorityFeePerGas: this.maxPriorityFeePerGas,
+				maxFeePerGas: this.maxFeePerGas,
+				gasLimit: this.gasLimit,
+				to: this.to,
+				value: this.value,
+				data: this.data,
+				accessList: this.accessList,
+				v: this.v,
+				r: this.r,
+				s: this.s,
+				pV,
+				pR,
+				pS,
+			},
+			opts,
+		);
+
+		if (!tx.verifyPrioritySignature()) {
+			const msg = this._errorMsg('Invalid Priority Signature');
+			throw new Error(msg);
+		}
+
+		return tx;
+	}
+
+	/**
+	 * Signs a transaction already signed by the sender as the priority signer.
+	 *
+	 * @param priorityPrivateKey - The private key of the priority signer
+	 * @returns A new, fully signed transaction
+	 */
+	public signPriority(priorityPrivateKey: Uint8Array) {
+		if (priorityPrivateKey.length !== 32) {
+			const msg = this._errorMsg('Private key must be 32 bytes in length.');
+			throw new Error(msg);
+		}
+
+		const { v, r, s } = this.__ecsign(this.getMessageToSign(true), priorityPrivateKey);
+		return this.addPrioritySignature(v - BigInt(27), r, s);
+	}
+
 	// eslint-disable-next-line class-methods-use-this
 	private __ecsign(
 		msgHash: Uint8Array,
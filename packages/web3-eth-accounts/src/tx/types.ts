@@ -49,6 +49,11 @@ export enum Capability {
 	 * See: [2930](https://eips.ethereum.org/EIPS/eip-2930) Access Lists EIP
 	 */
 	EIP2930AccessLists = 2930,
+
+	/**
+	 * Tx is an Electroneum priority transaction as defined in ETNIP-1
+	 */
+	ETNIP1PriorityTransactions = 520140001,
 }
 
 /**
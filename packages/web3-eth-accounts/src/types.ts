@@ -45,6 +45,11 @@ export type SignPriorityETNIP1TransactionResult = SignatureObject & {
 	transactionHash: string;
 };
 
+export type RecoverPriorityTransactionResult = {
+	sender: string;
+	prioritySender: string;
+};
+
 export type SignTransactionFunction = (
 	transaction:
 		| TxData
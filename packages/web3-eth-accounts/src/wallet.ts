@@ -47,6 +47,7 @@ export class Wallet<
 	T extends Web3BaseWalletAccount = Web3BaseWalletAccount,
 > extends Web3BaseWallet<T> {
 	private readonly _addressMap = new Map<string, number>();
+	private readonly _prioritySignerMap = new Map<string, T>();
 	private readonly _defaultKeyName = 'web3js_wallet';
 
 	/**
@@ -218,12 +219,14 @@ export class Wallet<
 				return false;
 			}
 			this._addressMap.delete(addressOrIndex.toLowerCase());
+			this._prioritySignerMap.delete(addressOrIndex.toLowerCase());
 			this.splice(index, 1);
 
 			return true;
 		}
 
 		if (this[addressOrIndex]) {
+			this._prioritySignerMap.delete(this[addressOrIndex].address.toLowerCase());
 			this.splice(addressOrIndex, 1);
 			return true;
 		}
@@ -252,6 +255,7 @@ export class Wallet<
 	 */
 	public clear() {
 		this._addressMap.clear();
+		this._prioritySignerMap.clear();
 
 		// Setting length clears the Array in JS.
 		this.length = 0;
@@ -259,6 +263,62 @@ export class Wallet<
 		return this;
 	}
 
+	/**
+	 * Registers the priority signer used to add the priority signature to ETNIP-1 (type `0x40`)
+	 * transactions sent from the given address. The priority signer is kept apart from the wallet accounts,
+	 * so it is not returned by `get` and is not part of `encrypt` or `save`.
+	 *
+	 * @param address - The address of the sender the priority signer is used for
+	 * @param prioritySigner - A private key or account object of the priority signer
+	 * @returns The wallet
+	 *
+	 * ```ts
+	 * web3.eth.accounts.wallet.add('0xbce9b59981303e76c4878b1a6d7b088ec6b9dd5c966b7d5f54d7a749ff683387');
+	 * web3.eth.accounts.wallet.setPrioritySigner(
+	 * 	'0x85D70633b90e03e0276B98880286D0D055685ed7',
+	 * 	'0x348ce564d427a3311b6536bbcff9390d69395b06ed6c486954e971d960fe8709',
+	 * );
+	 * web3.eth.accounts.wallet.getPrioritySigner('0x85D70633b90e03e0276B98880286D0D055685ed7');
+	 * > {
+	 *   address: '0xb8CE9ab6943e0eCED004cDe8e3bBed6568B2Fa01',
+	 *   privateKey: '0x348ce564d427a3311b6536bbcff9390d69395b06ed6c486954e971d960fe8709',
+	 *   signTransaction: [Function: signTransaction],
+	 *   sign: [Function: sign],
+	 *   encrypt: [Function: encrypt]
+	 * }
+	 * ```
+	 */
+	public setPrioritySigner(address: string, prioritySigner: T | string): this {
+		this._prioritySignerMap.set(
+			address.toLowerCase(),
+			typeof prioritySigner === 'string'
+				? this._accountProvider.privateKeyToAccount(prioritySigner)
+				: prioritySigner,
+		);
+
+		return this;
+	}
+
+	/**
+	 * Get the priority signer registered for the given sender address.
+	 *
+	 * @param address - The address of the sender
+	 * @returns The priority signer account or undefined if none is registered for the address
+	 */
+	public getPrioritySigner(address: string): T | undefined {
+		return this._prioritySignerMap.get(address.toLowerCase());
+	}
+
+	/**
+	 * Removes the priority signer registered for the given sender address.
+	 *
+	 * @param address - The address of the sender
+	 * @returns Whether a priority signer was registered for the address
+	 */
+	public removePrioritySigner(address: string): boolean {
+		return this._prioritySignerMap.delete(address.toLowerCase());
+	}
+
 	/**
 	 * Encrypts all wallet accounts to an array of encrypted keystore v3 objects.
 	 *
@@ -224,7 +224,7 @@ export const transactionsPriorityTestData: [TxData | AccessListEIP2930TxData | F
 			gasLimit: '0x6A4012',
 			value: '0x186A0',
 			data: '',
-			chainId: 1,
+			chainId: 52014,
 			nonce: 0,
 		},
 	],
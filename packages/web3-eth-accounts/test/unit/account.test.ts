@@ -15,6 +15,7 @@ You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 
+import { UnsupportedTransactionTypeError } from '@etn-sc/web3-errors';
 import { Address } from '@etn-sc/web3-types';
 import { Web3ValidatorError, isHexStrict } from '@etn-sc/web3-validator';
 import {
@@ -25,6 +26,7 @@ import {
 	privateKeyToAccount,
 	privateKeyToAddress,
 	recover,
+	recoverPriorityTransaction,
 	recoverTransaction,
 	sign,
 	signTransaction,
@@ -174,6 +176,36 @@ describe('accounts', () => {
 			expect(address).toBeDefined();
 			expect(address).toEqual(account.address);
 		});
+
+		it.each(transactionsPriorityTestData)(
+			'Recover sender and priority signer',
+			async txData => {
+				const account = create();
+				const priorityAccount = create();
+				const signedResult = await signPriorityTransaction(
+					TransactionFactory.fromTxData(txData),
+					account.privateKey,
+					priorityAccount.privateKey,
+				);
+
+				expect(recoverPriorityTransaction(signedResult.rawTransaction)).toEqual({
+					sender: account.address,
+					prioritySender: priorityAccount.address,
+				});
+			},
+		);
+
+		it('Recover priority signer of a non priority transaction should throw', async () => {
+			const account = create();
+			const signedResult = await signTransaction(
+				TransactionFactory.fromTxData(transactionsTestData[2][0]),
+				account.privateKey,
+			);
+
+			expect(() => recoverPriorityTransaction(signedResult.rawTransaction)).toThrow(
+				UnsupportedTransactionTypeError,
+			);
+		});
 	});
 
 	describe('Hash Message', () => {
@@ -76,6 +76,30 @@ describe('[Common/Chains]: Initialization / Chain params', () => {
 		expect(c.consensusConfig().epoch).toBe(30000);
 	});
 
+	it('Should initialize with Electroneum chains', () => {
+		let c = new Common({ chain: 'electroneum' });
+		expect(c.chainName()).toBe('electroneum');
+		expect(c.chainId()).toEqual(BigInt(52014));
+		expect(c.networkId()).toEqual(BigInt(52014));
+		expect(c.hardfork()).toEqual(Hardfork.Priority);
+		expect(c.hardforkBlock(Hardfork.Priority)).toEqual(BigInt(0));
+		expect(c.consensusType()).toEqual(ConsensusType.ProofOfAuthority);
+		expect(c.consensusAlgorithm()).toEqual(ConsensusAlgorithm.Ibft);
+		expect(c.isActivatedEIP(1559)).toBe(true);
+
+		c = new Common({ chain: Chain.ElectroneumTestnet });
+		expect(c.chainName()).toBe('electroneumtestnet');
+		expect(c.chainId()).toEqual(BigInt(5201420));
+		expect(c.hardfork()).toEqual(Hardfork.Priority);
+	});
+
+	it('Should use Electroneum chains as base chain for custom chains', () => {
+		const c = Common.custom({ chainId: 1234 }, { baseChain: 'electroneum' });
+		expect(c.chainId()).toEqual(BigInt(1234));
+		expect(c.hardfork()).toEqual(Hardfork.Priority);
+		expect(c.consensusAlgorithm()).toEqual(ConsensusAlgorithm.Ibft);
+	});
+
 	it('Should provide DNS network information in a uniform way', () => {
 		const configs = ['mainnet', 'goerli'];
 		for (const network of configs) {
@@ -90,6 +114,8 @@ describe('[Common/Chains]: Initialization / Chain params', () => {
 describe('[Common]: isSupportedChainId static method', () => {
 	it('Should return true for supported chainId', () => {
 		expect(Common.isSupportedChainId(BigInt(1))).toBe(true);
+		expect(Common.isSupportedChainId(BigInt(52014))).toBe(true);
+		expect(Common.isSupportedChainId(BigInt(5201420))).toBe(true);
 	});
 
 	it('Should return false for unsupported chainId', () => {
@@ -38,13 +38,18 @@ const privateToPublic = function (privateKey: Uint8Array): Uint8Array {
 const common = new Common({
 	chain: 5,
 	hardfork: Hardfork.London,
+	eips: [Capability.ETNIP1PriorityTransactions],
 });
 // @ts-expect-error set private property
 common._chainParams.chainId = 4;
 describe('[BaseTransaction]', () => {
 	// EIP-2930 is not enabled in Common by default (2021-03-06)
 	// eslint-disable-next-line @typescript-eslint/no-shadow
-	const common = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.London });
+	const common = new Common({
+		chain: Chain.Mainnet,
+		hardfork: Hardfork.London,
+		eips: [Capability.ETNIP1PriorityTransactions],
+	});
 
 	const legacyTxs: BaseTransaction<Transaction>[] = [];
 	for (const tx of legacyFixtures.slice(0, 4)) {
@@ -132,6 +137,7 @@ describe('[BaseTransaction]', () => {
 			const initCommon = new Common({
 				chain: Chain.Mainnet,
 				hardfork: Hardfork.London,
+				eips: [Capability.ETNIP1PriorityTransactions],
 			});
 			tx = txType.class.fromTxData({}, { common: initCommon });
 			expect(tx.common.hardfork()).toBe('london');
@@ -273,12 +279,15 @@ describe('[BaseTransaction]', () => {
 				...txType.txs,
 				// add unsigned variants
 				...txType.txs.map(tx =>
-					txType.class.fromTxData({
-						...tx,
-						v: undefined,
-						r: undefined,
-						s: undefined,
-					}),
+					txType.class.fromTxData(
+						{
+							...tx,
+							v: undefined,
+							r: undefined,
+							s: undefined,
+						},
+						{ common: tx.common },
+					),
 				),
 			];
 			for (const tx of txs) {
@@ -16,15 +16,18 @@ along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 import { RLP } from '@ethereumjs/rlp';
 import { hexToBytes } from '@etn-sc/web3-utils';
+import { PriorityTransactionNotSupportedError } from '@etn-sc/web3-errors';
 import { Chain, Common, Hardfork } from '../../../src/common';
 
-import { PriorityETNIP1Transaction } from '../../../src';
+import { Capability, PriorityETNIP1Transaction, privateKeyToAddress } from '../../../src';
+import { SECP256K1_ORDER } from '../../../src/tx/constants';
 
 import testdata from '../../fixtures/json/etnip1.json';
 
 const common = new Common({
 	chain: 5,
 	hardfork: Hardfork.London,
+	eips: [Capability.ETNIP1PriorityTransactions],
 });
 // @ts-expect-error set private property
 common._chainParams.chainId = 4;
@@ -118,6 +121,166 @@ describe('[PriorityETNIP1Transaction]', () => {
 		}
 	});
 
+	it('getPrioritySenderAddress()', () => {
+		const data = testdata[0];
+		// eslint-disable-next-line @typescript-eslint/no-unsafe-call
+		const pkey = hexToBytes(data.privateKey.slice(2));
+		const priorityPkey = hexToBytes('02'.repeat(32));
+		const signed = PriorityETNIP1Transaction.fromTxData(data, { common }).sign(
+			pkey,
+			priorityPkey,
+		);
+
+		expect(signed.getPrioritySenderAddress().toString()).toBe(
+			privateKeyToAddress(priorityPkey).toLowerCase(),
+		);
+		expect(signed.getSenderAddress().toString()).toBe(privateKeyToAddress(pkey).toLowerCase());
+		expect(signed.getPrioritySenderAddress().toString()).not.toBe(
+			signed.getSenderAddress().toString(),
+		);
+		expect(() =>
+			PriorityETNIP1Transaction.fromTxData(data, { common }).getPrioritySenderAddress(),
+		).toThrow('Cannot call this method if transaction is not signed');
+	});
+
+	it('validate() -> checks the priority signature', () => {
+		const data = testdata[0];
+		// eslint-disable-next-line @typescript-eslint/no-unsafe-call
+		const pkey = hexToBytes(data.privateKey.slice(2));
+		const signed = PriorityETNIP1Transaction.fromTxData(data, { common }).sign(pkey, pkey);
+		expect(signed.verifyPrioritySignature()).toBe(true);
+		expect(signed.validate()).toBe(true);
+
+		const tampered = PriorityETNIP1Transaction.fromTxData(
+			{
+				...data,
+				v: signed.v,
+				r: signed.r,
+				s: signed.s,
+				pV: signed.pV,
+				pR: SECP256K1_ORDER,
+				pS: signed.pS,
+			},
+			{ common },
+		);
+		expect(tampered.verifySignature()).toBe(false);
+		expect(tampered.verifyPrioritySignature()).toBe(false);
+		expect(tampered.validate()).toBe(false);
+		expect(tampered.validate(true)).toContain('Invalid Signature');
+		expect(() => tampered.getPrioritySenderAddress()).toThrow('Invalid Priority Signature');
+	});
+
+	it('validateWithPrioritySigner() -> refuses a priority signature over another message', () => {
+		const data = testdata[0];
+		// eslint-disable-next-line @typescript-eslint/no-unsafe-call
+		const pkey = hexToBytes(data.privateKey.slice(2));
+		const prioritySigner = privateKeyToAddress(pkey);
+		const signed = PriorityETNIP1Transaction.fromTxData(data, { common }).sign(pkey, pkey);
+		expect(signed.validateWithPrioritySigner(prioritySigner)).toBe(true);
+
+		// The priority signature of a transaction with another value
+		const other = PriorityETNIP1Transaction.fromTxData(
+			{ ...data, value: BigInt(data.value) + BigInt(1) },
+			{ common },
+		).sign(pkey, pkey);
+		const forged = PriorityETNIP1Transaction.fromTxData(
+			{
+				...data,
+				v: signed.v,
+				r: signed.r,
+				s: signed.s,
+				pV: other.pV,
+				pR: other.pR,
+				pS: other.pS,
+			},
+			{ common },
+		);
+		expect(forged.verifyPrioritySignature()).toBe(true);
+		expect(forged.verifyPrioritySignature(prioritySigner)).toBe(false);
+		expect(forged.validateWithPrioritySigner(prioritySigner)).toBe(false);
+		expect(forged.validateWithPrioritySigner(prioritySigner, true)).toContain(
+			'Invalid Priority Signer',
+		);
+	});
+
+	describe('two-party signing', () => {
+		const data = testdata[0];
+		// eslint-disable-next-line @typescript-eslint/no-unsafe-call
+		const pkey = hexToBytes(data.privateKey.slice(2));
+		const priorityPkey = hexToBytes(
+			'0x348ce564d427a3311b6536bbcff9390d69395b06ed6c486954e971d960fe8709',
+		);
+
+		it('signSender() -> signs as the sender only', () => {
+			const partial = PriorityETNIP1Transaction.fromTxData(data, { common }).signSender(pkey);
+			expect(partial.isSenderSigned()).toBe(true);
+			expect(partial.isSigned()).toBe(false);
+			expect(partial.verifySenderSignature()).toBe(true);
+			expect(partial.getSenderAddress().toString()).toBe(
+				privateKeyToAddress(pkey).toLowerCase(),
+			);
+			expect(partial.pV).toBeUndefined();
+		});
+
+		it('signPriority() -> completes a partial transaction restored from its serialization', () => {
+			const partial = PriorityETNIP1Transaction.fromTxData(data, { common }).signSender(pkey);
+			const restored = PriorityETNIP1Transaction.fromSerializedTx(partial.serialize(), {
+				common,
+			});
+			expect(restored.isSenderSigned()).toBe(true);
+			expect(restored.pV).toBeUndefined();
+			expect(restored.pR).toBeUndefined();
+			expect(restored.pS).toBeUndefined();
+
+			const signed = restored.signPriority(priorityPkey);
+			expect(signed.validate()).toBe(true);
+			expect(signed.getSenderAddress().toString()).toBe(
+				privateKeyToAddress(pkey).toLowerCase(),
+			);
+			expect(signed.getPrioritySenderAddress().toString()).toBe(
+				privateKeyToAddress(priorityPkey).toLowerCase(),
+			);
+			expect(signed.serialize()).toEqual(
+				PriorityETNIP1Transaction.fromTxData(data, { common })
+					.sign(pkey, priorityPkey)
+					.serialize(),
+			);
+		});
+
+		it('addPrioritySignature() -> attaches a detached priority signature', () => {
+			const partial = PriorityETNIP1Transaction.fromTxData(data, { common }).signSender(pkey);
+			const { pV, pR, pS } = PriorityETNIP1Transaction.fromTxData(data, { common }).sign(
+				pkey,
+				priorityPkey,
+			);
+
+			const signed = partial.addPrioritySignature(pV!, pR!, pS!);
+			expect(signed.isSigned()).toBe(true);
+			expect(signed.getPrioritySenderAddress().toString()).toBe(
+				privateKeyToAddress(priorityPkey).toLowerCase(),
+			);
+			expect(() => partial.addPrioritySignature(pV!, SECP256K1_ORDER, pS!)).toThrow(
+				'Invalid Priority Signature',
+			);
+		});
+
+		it('refuses to add a priority signature without an intact sender signature', () => {
+			const unsigned = PriorityETNIP1Transaction.fromTxData(data, { common });
+			expect(() => unsigned.signPriority(priorityPkey)).toThrow(
+				'Cannot add a priority signature: the sender signature is missing or invalid',
+			);
+
+			const partial = unsigned.signSender(pkey);
+			const tampered = PriorityETNIP1Transaction.fromTxData(
+				{ ...data, v: partial.v, r: SECP256K1_ORDER, s: partial.s },
+				{ common },
+			);
+			expect(() => tampered.signPriority(priorityPkey)).toThrow(
+				'Cannot add a priority signature: the sender signature is missing or invalid',
+			);
+		});
+	});
+
 	it('hash()', () => {
 		const data = testdata[0];
 		// eslint-disable-next-line @typescript-eslint/no-unsafe-call
@@ -143,6 +306,34 @@ describe('[PriorityETNIP1Transaction]', () => {
 		expect(Object.isFrozen(signedTxn)).toBe(false);
 	});
 
+	it('is refused if ETNIP-1 is not activated on Common', () => {
+		expect(() =>
+			PriorityETNIP1Transaction.fromTxData(
+				{},
+				{ common: new Common({ chain: Chain.Mainnet, hardfork: Hardfork.London }) },
+			),
+		).toThrow(PriorityTransactionNotSupportedError);
+		expect(() =>
+			PriorityETNIP1Transaction.fromTxData(
+				{},
+				{ common: new Common({ chain: Chain.Electroneum, hardfork: Hardfork.London }) },
+			),
+		).toThrow(PriorityTransactionNotSupportedError);
+	});
+
+	it('is activated by the priority hardfork of Electroneum chains', () => {
+		const tx = PriorityETNIP1Transaction.fromTxData(
+			{},
+			{ common: new Common({ chain: Chain.Electroneum }) },
+		);
+		expect(tx.common.hardfork()).toEqual(Hardfork.Priority);
+		expect(tx.supports(Capability.ETNIP1PriorityTransactions)).toBe(true);
+
+		expect(PriorityETNIP1Transaction.fromTxData({}).common.chainId()).toEqual(
+			BigInt(Chain.Electroneum),
+		);
+	});
+
 	it('common propagates from the common of tx, not the common in TxOptions', () => {
 		const data = testdata[0];
 		// eslint-disable-next-line @typescript-eslint/no-unsafe-call
@@ -151,7 +342,7 @@ describe('[PriorityETNIP1Transaction]', () => {
 		const newCommon = new Common({
 			chain: Chain.Goerli,
 			hardfork: Hardfork.London,
-			eips: [2537],
+			eips: [2537, Capability.ETNIP1PriorityTransactions],
 		});
 		expect(Object.isFrozen(newCommon)).not.toEqual(common);
 		Object.defineProperty(txn, 'common', {
@@ -15,10 +15,12 @@ You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 import { hexToBytes } from '@etn-sc/web3-utils';
+import { PriorityTransactionNotSupportedError } from '@etn-sc/web3-errors';
 import { Chain, Common, Hardfork } from '../../../src/common';
 
 import {
 	AccessListEIP2930Transaction,
+	Capability,
 	FeeMarketEIP1559Transaction,
 	PriorityETNIP1Transaction,
 	Transaction,
@@ -28,6 +30,7 @@ import {
 const common = new Common({
 	chain: Chain.Mainnet,
 	hardfork: Hardfork.London,
+	eips: [Capability.ETNIP1PriorityTransactions],
 });
 
 const pKey = hexToBytes('4646464646464646464646464646464646464646464646464646464646464646');
@@ -153,6 +156,14 @@ describe('[TransactionFactory]: Basic functions', () => {
 		}
 	});
 
+	it('fromTxData() -> priority transactions default to Electroneum', () => {
+		const tx = TransactionFactory.fromTxData({ type: 64 });
+		expect(tx.constructor.name).toBe('PriorityETNIP1Transaction');
+		expect(tx.common.chainId()).toEqual(BigInt(Chain.Electroneum));
+		expect(tx.common.hardfork()).toEqual(Hardfork.Priority);
+		expect(tx.supports(Capability.ETNIP1PriorityTransactions)).toBe(true);
+	});
+
 	it('fromTxData() -> error cases', () => {
 		const unsupportedCommon = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.Istanbul });
 		expect(() => {
@@ -163,6 +174,17 @@ describe('[TransactionFactory]: Basic functions', () => {
 			TransactionFactory.fromTxData({ type: 999 });
 		}).toThrow();
 
+		expect(() => {
+			TransactionFactory.fromTxData(
+				{ type: 64 },
+				{ common: new Common({ chain: Chain.Mainnet, hardfork: Hardfork.London }) },
+			);
+		}).toThrow(PriorityTransactionNotSupportedError);
+
+		expect(() => {
+			TransactionFactory.fromTxData({ type: 64, chainId: BigInt(1) });
+		}).toThrow();
+
 		expect(() => {
 			TransactionFactory.fromTxData({ value: BigInt('-100') });
 		}).toThrow();
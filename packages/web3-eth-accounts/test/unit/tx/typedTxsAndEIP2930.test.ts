@@ -18,6 +18,7 @@ import { bytesToHex, hexToBytes, uint8ArrayEquals, uint8ArrayConcat } from '@etn
 import {
 	AccessListEIP2930Transaction,
 	AccessListUint8ArrayItem,
+	Capability,
 	FeeMarketEIP1559Transaction,
 	PriorityETNIP1Transaction,
 } from '../../../src';
@@ -41,6 +42,7 @@ const address = Address.publicToAddress(privateToPublic(pKey));
 const common = new Common({
 	chain: Chain.Mainnet,
 	hardfork: Hardfork.London,
+	eips: [Capability.ETNIP1PriorityTransactions],
 });
 
 const txTypes = [
@@ -71,10 +73,12 @@ describe('[AccessListEIP2930Transaction / FeeMarketEIP1559Transaction] -> EIP-29
 			let tx = txType.class.fromTxData({}, { common });
 			expect(tx).toBeTruthy();
 
+			// priority transactions are only supported on Electroneum chains
+			const supportedChainId = txType.type === 64 ? Chain.ElectroneumTestnet : Chain.Goerli;
 			tx = txType.class.fromTxData({
-				chainId: 5,
+				chainId: supportedChainId,
 			});
-			expect(tx.common.chainId() === BigInt(5)).toBeTruthy();
+			expect(tx.common.chainId() === BigInt(supportedChainId)).toBeTruthy();
 
 			tx = txType.class.fromTxData({
 				chainId: 99999,
@@ -317,7 +321,11 @@ describe('[AccessListEIP2930Transaction / FeeMarketEIP1559Transaction] -> EIP-29
 			tx = txType.class.fromTxData({}, { common, freeze: false });
 			expect(tx.getDataFee()).toEqual(BigInt(0));
 
-			const mutableCommon = new Common({ chain: Chain.Mainnet, hardfork: Hardfork.London });
+			const mutableCommon = new Common({
+				chain: Chain.Mainnet,
+				hardfork: Hardfork.London,
+				eips: [Capability.ETNIP1PriorityTransactions],
+			});
 			tx = txType.class.fromTxData({}, { common: mutableCommon });
 			tx.common.setHardfork(Hardfork.Istanbul);
 			expect(tx.getDataFee()).toEqual(BigInt(0));
@@ -574,7 +582,7 @@ describe('[AccessListEIP2930Transaction] -> Class Specific Tests', () => {
 		const newCommon = new Common({
 			chain: Chain.Mainnet,
 			hardfork: Hardfork.London,
-			eips: [2537],
+			eips: [2537, Capability.ETNIP1PriorityTransactions],
 		});
 		expect(newCommon).not.toEqual(common);
 		Object.defineProperty(txn, 'common', {
@@ -236,6 +236,80 @@ describe('Wallet', () => {
 			expect(wallet).toHaveLength(0);
 			expect(wallet.get(0)).toBeUndefined();
 		});
+
+		it('should remove all priority signers', () => {
+			wallet.setPrioritySigner('my_address', { address: 'priority_address' } as never);
+
+			wallet.clear();
+
+			expect(wallet.getPrioritySigner('my_address')).toBeUndefined();
+		});
+	});
+
+	describe('setPrioritySigner', () => {
+		it('should register priority signer account for the given address', () => {
+			const prioritySigner = { address: 'priority_address' } as never;
+
+			const result = wallet.setPrioritySigner('My_Address', prioritySigner);
+
+			expect(result).toBe(wallet);
+			expect(wallet.getPrioritySigner('my_address')).toEqual(prioritySigner);
+			expect(wallet.getPrioritySigner('MY_ADDRESS')).toEqual(prioritySigner);
+		});
+
+		it('should create priority signer account from private key', () => {
+			wallet.setPrioritySigner('my_address', 'private_key');
+
+			expect(accountProvider.privateKeyToAccount).toHaveBeenCalledWith('private_key');
+			expect(wallet.getPrioritySigner('my_address')).toEqual({
+				address: `privatekey_create_${totalPrivatekeyCreate}`,
+			});
+		});
+
+		it('should not add priority signer to the wallet accounts', () => {
+			wallet.setPrioritySigner('my_address', { address: 'priority_address' } as never);
+
+			expect(wallet).toHaveLength(0);
+		});
+	});
+
+	describe('getPrioritySigner', () => {
+		it('should return undefined if no priority signer is registered', () => {
+			expect(wallet.getPrioritySigner('my_address')).toBeUndefined();
+		});
+	});
+
+	describe('removePrioritySigner', () => {
+		it('should remove priority signer for given address', () => {
+			wallet.setPrioritySigner('my_address', { address: 'priority_address' } as never);
+
+			const result = wallet.removePrioritySigner('MY_ADDRESS');
+
+			expect(result).toBeTruthy();
+			expect(wallet.getPrioritySigner('my_address')).toBeUndefined();
+		});
+
+		it('should return false if no priority signer is registered', () => {
+			expect(wallet.removePrioritySigner('my_address')).toBeFalsy();
+		});
+
+		it('should remove priority signer when account is removed by address', () => {
+			wallet.add({ address: 'my_address' } as never);
+			wallet.setPrioritySigner('my_address', { address: 'priority_address' } as never);
+
+			wallet.remove('my_address');
+
+			expect(wallet.getPrioritySigner('my_address')).toBeUndefined();
+		});
+
+		it('should remove priority signer when account is removed by index', () => {
+			wallet.add({ address: 'My_Address' } as never);
+			wallet.setPrioritySigner('my_address', { address: 'priority_address' } as never);
+
+			wallet.remove(0);
+
+			expect(wallet.getPrioritySigner('my_address')).toBeUndefined();
+		});
 	});
 
 	describe('encrypt', () => {
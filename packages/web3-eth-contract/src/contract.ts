@@ -33,6 +33,8 @@ import {
 	call,
 	estimateGas,
 	getLogs,
+	paginateLogs,
+	PaginateLogsOptions,
 	sendTransaction,
 	decodeEventABI,
 	NewHeadsSubscription,
@@ -66,6 +68,7 @@ import {
 	BlockNumberOrTag,
 	BlockTags,
 	Bytes,
+	CallOverrides,
 	EthExecutionAPI,
 	Filter,
 	FilterAbis,
@@ -97,6 +100,7 @@ import {
 	ContractEventOptions,
 	NonPayableMethodObject,
 	NonPayableTxOptions,
+	PastEventsPage,
 	PayableMethodObject,
 	PayableTxOptions,
 	Web3ContractContext,
@@ -108,6 +112,7 @@ import {
 	getSendTxParams,
 	isContractInitOptions,
 	isWeb3ContractContext,
+	methodObjectTargets,
 } from './utils.js';
 
 type ContractBoundMethod<
@@ -772,7 +777,73 @@ export class Contract<Abi extends ContractAbi>
 				: decodeEventABI(abi, log as LogsInput, this._jsonInterface, returnFormat),
 		);
 
-		const filter = options?.filter ?? {};
+		return this._filterEvents(abi, options?.filter ?? {}, decodedLogs);
+	}
+
+	/**
+	 * Gets past events for this contract page by page, for the ranges of blocks too large for a single {@link Contract.getPastEvents}.
+	 * The range of each `eth_getLogs` request is halved when the node rejects it, and doubled after each page.
+	 * The events are filtered by their indexed parameters as with {@link Contract.getPastEvents}.
+	 *
+	 * ```ts
+	 * for await (const page of myContract.iteratePastEvents(
+	 *   'MyEvent',
+	 *   { filter: { myIndexedParam: [20, 23] }, fromBlock: 0, toBlock: 'latest' },
+	 *   { initialRange: 5000, checkpoint: savedCheckpoint },
+	 * )) {
+	 *   console.log(page.fromBlock, page.toBlock, page.events);
+	 *   savedCheckpoint = page.checkpoint;
+	 * }
+	 * ```
+	 *
+	 * @param eventName - The name of the event in the contract, or `allEvents` to get all events.
+	 * @param filter - The filter options used to get events.
+	 * @param options - The ranges of the requests, and the checkpoint of a previous scan to resume.
+	 * @param returnFormat - Return format
+	 * @returns - An async iterator of the pages, with the events of a range of blocks and the checkpoint to resume after it.
+	 */
+	public async *iteratePastEvents<ReturnFormat extends DataFormat = typeof DEFAULT_RETURN_FORMAT>(
+		eventName: keyof ContractEvents<Abi> | 'allEvents' | 'ALLEVENTS',
+		filter: Omit<Filter, 'address'> = {},
+		options: PaginateLogsOptions = {},
+		returnFormat: ReturnFormat = DEFAULT_RETURN_FORMAT as ReturnFormat,
+	): AsyncGenerator<PastEventsPage> {
+		const abi =
+			eventName === 'allEvents' || eventName === ALL_EVENTS
+				? ALL_EVENTS_ABI
+				: (this._jsonInterface.find(
+						j => 'name' in j && j.name === eventName,
+				  ) as AbiEventFragment & { signature: string });
+
+		if (!abi) {
+			throw new Web3ContractError(`Event ${String(eventName)} not found.`);
+		}
+
+		const { fromBlock, toBlock, topics, address } = encodeEventABI(this.options, abi, filter);
+
+		for await (const { logs, ...page } of paginateLogs(
+			this,
+			{ fromBlock, toBlock, topics, address },
+			options,
+			returnFormat,
+		)) {
+			const decodedLogs = logs.map(log =>
+				typeof log === 'string'
+					? log
+					: decodeEventABI(abi, log as LogsInput, this._jsonInterface, returnFormat),
+			);
+
+			yield { ...page, events: this._filterEvents(abi, filter.filter ?? {}, decodedLogs) };
+		}
+	}
+
+	// Filters the events by their indexed parameters
+	// eslint-disable-next-line class-methods-use-this
+	private _filterEvents(
+		abi: AbiEventFragment,
+		filter: Record<string, unknown>,
+		decodedLogs: (string | EventLog)[],
+	): (string | EventLog)[] {
 		const filterKeys = Object.keys(filter);
 
 		if (filterKeys.length > 0) {
@@ -951,6 +1022,7 @@ export class Contract<Abi extends ContractAbi>
 				call: async (
 					options?: PayableCallOptions | NonPayableCallOptions,
 					block?: BlockNumberOrTag,
+					overrides?: CallOverrides,
 				) =>
 					this._contractMethodCall(
 						methodAbi,
@@ -958,6 +1030,7 @@ export class Contract<Abi extends ContractAbi>
 						internalErrorsAbis,
 						options,
 						block,
+						overrides,
 					),
 
 				send: (options?: PayableTxOptions | NonPayableTxOptions) =>
@@ -965,13 +1038,15 @@ export class Contract<Abi extends ContractAbi>
 
 				estimateGas: async <ReturnFormat extends DataFormat = typeof DEFAULT_RETURN_FORMAT>(
 					options?: PayableCallOptions | NonPayableCallOptions,
-					returnFormat: ReturnFormat = DEFAULT_RETURN_FORMAT as ReturnFormat,
+					returnFormat?: ReturnFormat,
+					overrides?: CallOverrides,
 				) =>
 					this._contractMethodEstimateGas({
 						abi: methodAbi,
 						params: abiParams,
-						returnFormat,
+						returnFormat: returnFormat ?? (DEFAULT_RETURN_FORMAT as ReturnFormat),
 						options,
+						overrides,
 					}),
 
 				encodeABI: () => encodeMethodABI(methodAbi, abiParams),
@@ -989,6 +1064,11 @@ export class Contract<Abi extends ContractAbi>
 					),
 			};
 
+			methodObjectTargets.set(methods, {
+				abi: methodAbi,
+				getAddress: () => this.options.address,
+			});
+
 			if (methodAbi.stateMutability === 'payable') {
 				return methods as PayableMethodObject<
 					ContractOverloadedMethodInputs<T>,
@@ -1008,6 +1088,7 @@ export class Contract<Abi extends ContractAbi>
 		errorsAbi: AbiErrorFragment[],
 		options?: Options,
 		block?: BlockNumberOrTag,
+		overrides?: CallOverrides,
 	) {
 		const tx = getEthTxCallParams({
 			abi,
@@ -1022,7 +1103,7 @@ export class Contract<Abi extends ContractAbi>
 			},
 		});
 		try {
-			const result = await call(this, tx, block, DEFAULT_RETURN_FORMAT);
+			const result = await call(this, tx, block, DEFAULT_RETURN_FORMAT, overrides);
 			return decodeMethodReturn(abi, result);
 		} catch (error: unknown) {
 			if (error instanceof ContractExecutionError) {
@@ -1143,12 +1224,14 @@ export class Contract<Abi extends ContractAbi>
 		returnFormat,
 		options,
 		contractOptions,
+		overrides,
 	}: {
 		abi: AbiFunctionFragment;
 		params: unknown[];
 		returnFormat: ReturnFormat;
 		options?: Options;
 		contractOptions?: ContractOptions;
+		overrides?: CallOverrides;
 	}) {
 		const tx = getEstimateGasParams({
 			abi,
@@ -1156,7 +1239,7 @@ export class Contract<Abi extends ContractAbi>
 			options: { ...options, dataInputFill: this.config.contractDataInputFill },
 			contractOptions: contractOptions ?? this.options,
 		});
-		return estimateGas(this, tx, BlockTags.LATEST, returnFormat);
+		return estimateGas(this, tx, BlockTags.LATEST, returnFormat, overrides);
 	}
 
 	// eslint-disable-next-line class-methods-use-this
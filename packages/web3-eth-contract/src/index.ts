@@ -46,6 +46,7 @@ export * from './encoding.js';
 
 export * from './contract.js';
 export * from './log_subscription.js';
+export * from './multicall.js';
 export * from './types.js';
 
 export default Contract;
@@ -161,4 +161,16 @@ export class LogsSubscription extends Web3Subscription<
 	protected formatSubscriptionResult(data: EventLog) {
 		return decodeEventABI(this.abi, data as LogsInput, this.jsonInterface, super.returnFormat);
 	}
+
+	public _processSubscriptionResult(data: EventLog) {
+		if ((data as LogsInput & { removed?: boolean }).removed) {
+			this.emit(
+				'changed',
+				this.formatSubscriptionResult(data) as EventLog & { removed: true },
+			);
+			return;
+		}
+
+		super._processSubscriptionResult(data);
+	}
 }
@@ -0,0 +1,195 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Web3Context } from '@etn-sc/web3-core';
+import { Web3ContractError } from '@etn-sc/web3-errors';
+import {
+	AbiFunctionFragment,
+	Address,
+	BlockNumberOrTag,
+	HexString,
+	NonPayableCallOptions,
+} from '@etn-sc/web3-types';
+import { isNullish } from '@etn-sc/web3-utils';
+import { Contract } from './contract.js';
+import { decodeMethodReturn } from './encoding.js';
+import { NonPayableMethodObject } from './types.js';
+import { methodObjectTargets } from './utils.js';
+
+/**
+ * The address of the Multicall3 contract, deployed at the same address on most chains
+ */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/**
+ * The ABI of the `aggregate3` function of the Multicall3 contract
+ */
+export const multicall3Abi = [
+	{
+		inputs: [
+			{
+				components: [
+					{ internalType: 'address', name: 'target', type: 'address' },
+					{ internalType: 'bool', name: 'allowFailure', type: 'bool' },
+					{ internalType: 'bytes', name: 'callData', type: 'bytes' },
+				],
+				internalType: 'struct Multicall3.Call3[]',
+				name: 'calls',
+				type: 'tuple[]',
+			},
+		],
+		name: 'aggregate3',
+		outputs: [
+			{
+				components: [
+					{ internalType: 'bool', name: 'success', type: 'bool' },
+					{ internalType: 'bytes', name: 'returnData', type: 'bytes' },
+				],
+				internalType: 'struct Multicall3.Result[]',
+				name: 'returnData',
+				type: 'tuple[]',
+			},
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+] as const;
+
+export interface MulticallOptions {
+	/**
+	 * The address of the Multicall3 compatible aggregator contract, {@link MULTICALL3_ADDRESS} by default
+	 */
+	address?: Address;
+	/**
+	 * Whether the failing calls are tolerated, their result then has `success: false`.
+	 * Otherwise the whole aggregate call fails. `false` by default, it can be set for each call.
+	 */
+	allowFailure?: boolean;
+}
+
+/**
+ * A contract method call, with its own failure tolerance
+ */
+export type MulticallCall =
+	| NonPayableMethodObject
+	| { method: NonPayableMethodObject; allowFailure?: boolean };
+
+export interface MulticallResult<Result = unknown> {
+	success: boolean;
+	/**
+	 * The return of the method, decoded with its ABI. It is not set for a failed call.
+	 */
+	result?: Result;
+	/**
+	 * The raw return data, the revert data for a failed call
+	 */
+	returnData: HexString;
+}
+
+/**
+ * Aggregates the calls of contract methods into a single `eth_call` to a Multicall3 compatible contract.
+ *
+ * ```ts
+ * const multicall = new Multicall(web3, { allowFailure: true });
+ * const results = await multicall.aggregate(
+ *   holders.map(holder => token.methods.balanceOf(holder)),
+ * );
+ * > [{ success: true, result: 1000n, returnData: '0x...' }, ...]
+ * ```
+ */
+export class Multicall {
+	private readonly _contract: Contract<typeof multicall3Abi>;
+	private readonly _allowFailure: boolean;
+
+	public constructor(context: Web3Context, options: MulticallOptions = {}) {
+		this._contract = new Contract(
+			multicall3Abi,
+			options.address ?? MULTICALL3_ADDRESS,
+			context,
+		);
+		this._allowFailure = options.allowFailure ?? false;
+	}
+
+	/**
+	 * Will return the address of the aggregator contract
+	 */
+	public get address() {
+		return this._contract.options.address;
+	}
+
+	/**
+	 * Sends the calls of the given methods in a single `eth_call`, and decodes each return with the ABI of its method
+	 *
+	 * @param calls - The method objects, e.g. `contract.methods.balanceOf(address)`, or the method objects with their failure tolerance
+	 * @param options - The options of the aggregate call
+	 * @param block - The block of the aggregate call
+	 * @returns The result of each call, in the order of the calls
+	 */
+	public async aggregate(
+		calls: MulticallCall[],
+		options?: NonPayableCallOptions,
+		block?: BlockNumberOrTag,
+	): Promise<MulticallResult[]> {
+		const targets = calls.map(call => this._getTarget(call));
+
+		const results = (await this._contract.methods
+			.aggregate3(targets.map(({ call }) => call))
+			.call(options, block)) as unknown as { success: boolean; returnData: HexString }[];
+
+		return results.map(({ success, returnData }, index) => {
+			const { abi, call } = targets[index];
+			if (!success) {
+				return { success, returnData };
+			}
+
+			try {
+				return { success, returnData, result: decodeMethodReturn(abi, returnData) };
+			} catch (error) {
+				// e.g. the empty return of a call to an account without code
+				if (!call.allowFailure) {
+					throw error;
+				}
+				return { success: false, returnData };
+			}
+		});
+	}
+
+	private _getTarget(call: MulticallCall): {
+		abi: AbiFunctionFragment;
+		call: { target: Address; allowFailure: boolean; callData: HexString };
+	} {
+		const { method, allowFailure = this._allowFailure } =
+			'method' in call ? call : { method: call };
+
+		const target = methodObjectTargets.get(method);
+		if (isNullish(target)) {
+			throw new Web3ContractError('The method object was not created by a contract');
+		}
+
+		const address = target.getAddress();
+		if (isNullish(address)) {
+			throw new Web3ContractError(
+				`The contract of the method "${target.abi.name ?? ''}" has no address`,
+			);
+		}
+
+		return {
+			abi: target.abi,
+			call: { target: address, allowFailure, callData: method.encodeABI() },
+		};
+	}
+}
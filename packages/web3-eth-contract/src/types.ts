@@ -19,6 +19,7 @@ import { Web3ContextInitOptions, Web3PromiEvent } from '@etn-sc/web3-core';
 import {
 	AccessListResult,
 	BlockNumberOrTag,
+	CallOverrides,
 	EthExecutionAPI,
 	HexString,
 	Numbers,
@@ -28,8 +29,9 @@ import {
 	DataFormat,
 	DEFAULT_RETURN_FORMAT,
 	FormatType,
+	EventLog,
 } from '@etn-sc/web3-types';
-import { NewHeadsSubscription, SendTransactionEvents } from '@etn-sc/web3-eth';
+import { LogsCheckpoint, NewHeadsSubscription, SendTransactionEvents } from '@etn-sc/web3-eth';
 import { LogsSubscription } from './log_subscription.js';
 
 export type NonPayableTxOptions = NonPayableCallOptions;
@@ -51,6 +53,25 @@ export interface ContractEventOptions {
 	topics?: string[];
 }
 
+export interface PastEventsPage {
+	/**
+	 * The events of the page, filtered by their indexed parameters
+	 */
+	events: (string | EventLog)[];
+	/**
+	 * The first block of the page
+	 */
+	fromBlock: bigint;
+	/**
+	 * The last block of the page
+	 */
+	toBlock: bigint;
+	/**
+	 * The checkpoint to resume the scan after this page, it is `undefined` for the last page
+	 */
+	checkpoint?: LogsCheckpoint;
+}
+
 export interface NonPayableMethodObject<Inputs = unknown[], Outputs = unknown[]> {
 	arguments: Inputs;
 	/**
@@ -97,12 +118,14 @@ export interface NonPayableMethodObject<Inputs = unknown[], Outputs = unknown[]>
 	 *
 	 * @param tx - The options used for calling.
 	 * @param block - If you pass this parameter it will not use the default block set with contract.defaultBlock. Pre-defined block numbers as `earliest`, `latest`, `pending`, `safe` or `finalized can also be used. Useful for requesting data from or replaying transactions in past blocks.
+	 * @param overrides - The state of the accounts and the fields of the block to override for the call, e.g. `{ stateOverride: { [address]: { balance: '0xde0b6b3a7640000' } } }`, if supported by the node.
 	 * @returns - The return value(s) of the smart contract method. If it returns a single value, it’s returned as is. If it has multiple return values they are returned as an object with properties and indices.
 	 */
 
 	call<SpecialOutput = Outputs>(
 		tx?: NonPayableCallOptions,
 		block?: BlockNumberOrTag,
+		overrides?: CallOverrides,
 	): Promise<SpecialOutput>;
 
 	/**
@@ -192,11 +215,13 @@ export interface NonPayableMethodObject<Inputs = unknown[], Outputs = unknown[]>
 	 *
 	 * @param options  - The options used for calling
 	 * @param returnFormat - The data format you want the output in.
+	 * @param overrides - The state of the accounts and the fields of the block to override for the estimation, if supported by the node.
 	 * @returns - The gas amount estimated.
 	 */
 	estimateGas<ReturnFormat extends DataFormat = typeof DEFAULT_RETURN_FORMAT>(
 		options?: NonPayableCallOptions,
 		returnFormat?: ReturnFormat,
+		overrides?: CallOverrides,
 	): Promise<FormatType<Numbers, ReturnFormat>>;
 
 	/**
@@ -287,11 +312,13 @@ export interface PayableMethodObject<Inputs = unknown[], Outputs = unknown[]> {
 	 *
 	 * @param tx - The options used for calling.
 	 * @param block - If you pass this parameter it will not use the default block set with contract.defaultBlock. Pre-defined block numbers as `earliest`, `latest`, `pending`, `safe` or `finalized can also be used. Useful for requesting data from or replaying transactions in past blocks.
+	 * @param overrides - The state of the accounts and the fields of the block to override for the call, e.g. `{ stateOverride: { [address]: { balance: '0xde0b6b3a7640000' } } }`, if supported by the node.
 	 * @returns - The return value(s) of the smart contract method. If it returns a single value, it’s returned as is. If it has multiple return values they are returned as an object with properties and indices.
 	 */
 	call<SpecialOutput = Outputs>(
 		tx?: PayableCallOptions,
 		block?: BlockNumberOrTag,
+		overrides?: CallOverrides,
 	): Promise<SpecialOutput>;
 
 	/**
@@ -381,11 +408,13 @@ export interface PayableMethodObject<Inputs = unknown[], Outputs = unknown[]> {
 	 *
 	 * @param options  - The options used for calling
 	 * @param returnFormat - The data format you want the output in.
+	 * @param overrides - The state of the accounts and the fields of the block to override for the estimation, if supported by the node.
 	 * @returns - The gas amount estimated.
 	 */
 	estimateGas<ReturnFormat extends DataFormat = typeof DEFAULT_RETURN_FORMAT>(
 		options?: PayableCallOptions,
 		returnFormat?: ReturnFormat,
+		overrides?: CallOverrides,
 	): Promise<FormatType<Numbers, ReturnFormat>>;
 
 	/**
@@ -32,6 +32,14 @@ import { isNullish, mergeDeep } from '@etn-sc/web3-utils';
 import { encodeMethodABI } from './encoding.js';
 import { Web3ContractContext } from './types.js';
 
+/**
+ * The ABI and the contract of the method objects created by the contracts, to aggregate their calls with a {@link Multicall}
+ */
+export const methodObjectTargets = new WeakMap<
+	object,
+	{ abi: AbiFunctionFragment; getAddress: () => Address | undefined }
+>();
+
 const dataInputEncodeMethodHelper = (
 	txParams: TransactionCall | TransactionForAccessList,
 	abi: AbiFunctionFragment,
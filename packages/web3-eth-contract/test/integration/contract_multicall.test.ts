@@ -0,0 +1,86 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Contract, Multicall } from '../../src';
+import { ERC20TokenAbi, ERC20TokenBytecode } from '../shared_fixtures/build/ERC20Token';
+import { Multicall3Abi, Multicall3Bytecode } from '../shared_fixtures/build/Multicall3';
+import { getSystemTestProvider, createTempAccount } from '../fixtures/system_test_utils';
+
+const initialSupply = BigInt('5000000000');
+
+describe('contract', () => {
+	describe('multicall', () => {
+		let token: Contract<typeof ERC20TokenAbi>;
+		let multicall: Multicall;
+		let holder: string;
+		let other: string;
+
+		beforeAll(async () => {
+			const acc = await createTempAccount();
+			const sendOptions = { from: acc.address, gas: '10000000' };
+			holder = acc.address;
+			other = (await createTempAccount()).address;
+
+			token = await new Contract(ERC20TokenAbi, undefined, {
+				provider: getSystemTestProvider(),
+			})
+				.deploy({ data: ERC20TokenBytecode, arguments: [initialSupply] })
+				.send(sendOptions);
+			await token.methods.transfer(other, 10).send(sendOptions);
+
+			const aggregator = await new Contract(Multicall3Abi, undefined, {
+				provider: getSystemTestProvider(),
+			})
+				.deploy({ data: Multicall3Bytecode })
+				.send(sendOptions);
+
+			multicall = new Multicall(token, { address: aggregator.options.address });
+		});
+
+		it('should aggregate the calls and decode their returns', async () => {
+			const results = await multicall.aggregate([
+				token.methods.balanceOf(holder),
+				token.methods.balanceOf(other),
+				token.methods.symbol(),
+			]);
+
+			expect(results.map(({ result }) => result)).toEqual([
+				initialSupply - BigInt(10),
+				BigInt(10),
+				'GLD',
+			]);
+			expect(results.every(({ success }) => success)).toBe(true);
+		});
+
+		it('should tolerate the failing calls allowed to fail', async () => {
+			const results = await multicall.aggregate([
+				{ method: token.methods.transferFrom(other, holder, 1000), allowFailure: true },
+				token.methods.totalSupply(),
+			]);
+
+			expect(results[0].success).toBe(false);
+			expect(results[0].result).toBeUndefined();
+			expect(results[1]).toMatchObject({ success: true, result: initialSupply });
+		});
+
+		it('should fail if a call not tolerating failures fails', async () => {
+			await expect(
+				multicall.aggregate([token.methods.transferFrom(other, holder, 1000)]),
+			).rejects.toThrow();
+		});
+	});
+});
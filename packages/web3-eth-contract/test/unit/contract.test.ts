@@ -822,6 +822,31 @@ describe('Contract', () => {
 			spyEthCall.mockClear();
 		});
 
+		it('should pass the overrides to the call', async () => {
+			const contract = new Contract(erc721Abi, '0x1230B93ffd14F2F022039675fA3fc3A46eE4C701');
+			const overrides = {
+				stateOverride: {
+					'0x00000000219ab540356cBB839Cbe05303d7705Fa': { balance: '0xde0b6b3a7640000' },
+				},
+				blockOverrides: { number: 1 },
+			};
+
+			const spyEthCall = jest.spyOn(eth, 'call').mockResolvedValue('0x00');
+
+			await contract.methods
+				.approve('0x00000000219ab540356cBB839Cbe05303d7705Fa', 1)
+				.call({}, 'latest', overrides);
+
+			expect(spyEthCall).toHaveBeenCalledWith(
+				contract,
+				expect.any(Object),
+				'latest',
+				expect.any(Object),
+				overrides,
+			);
+			spyEthCall.mockClear();
+		});
+
 		it('should be able to call a payable method with data as a web3Context option', async () => {
 			const expectedProvider = 'http://127.0.0.1:8545';
 			const web3Context = new Web3Context({
@@ -1076,6 +1101,50 @@ describe('Contract', () => {
 			spyGetLogs.mockClear();
 		});
 
+		it('iteratePastEvents should filter the events of each page', async () => {
+			const contract = new Contract<typeof GreeterAbi>(GreeterAbi, deployedAddr);
+			const [firstLog, secondLog] = AllGetPastEventsData.getLogsData;
+
+			const spyPaginateLogs = jest
+				.spyOn(eth, 'paginateLogs')
+				.mockImplementation(async function* (_objInstance, _params, _options) {
+					expect(_params.address).toStrictEqual(deployedAddr.toLocaleLowerCase());
+					expect(_options).toStrictEqual({ initialRange: 10 });
+
+					yield {
+						logs: [firstLog],
+						fromBlock: BigInt(0),
+						toBlock: BigInt(9),
+						checkpoint: { fromBlock: '0xa', toBlock: '0x14', range: '0x14' },
+					} as any;
+					yield { logs: [secondLog], fromBlock: BigInt(10), toBlock: BigInt(20) } as any;
+				});
+
+			const pages = [];
+			for await (const page of contract.iteratePastEvents(
+				'allEvents',
+				{ filter: { greeting: 'Another Greeting' } },
+				{ initialRange: 10 },
+			)) {
+				pages.push(page);
+			}
+
+			expect(pages).toStrictEqual([
+				{
+					events: [],
+					fromBlock: BigInt(0),
+					toBlock: BigInt(9),
+					checkpoint: { fromBlock: '0xa', toBlock: '0x14', range: '0x14' },
+				},
+				{
+					events: [AllGetPastEventsData.response[1]],
+					fromBlock: BigInt(10),
+					toBlock: BigInt(20),
+				},
+			]);
+			spyPaginateLogs.mockClear();
+		});
+
 		it('getPastEvents for all events with filter by topics should work', async () => {
 			const contract = new Contract<typeof GreeterAbi>(GreeterAbi);
 
@@ -0,0 +1,114 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Web3Context } from '@etn-sc/web3-core';
+import { encodeParameters } from '@etn-sc/web3-eth-abi';
+import { Web3ContractError } from '@etn-sc/web3-errors';
+import { Web3BaseProvider } from '@etn-sc/web3-types';
+import { Contract, Multicall, MULTICALL3_ADDRESS } from '../../src';
+import { ERC20TokenAbi } from '../shared_fixtures/build/ERC20Token';
+
+const tokenAddress = '0x6e599da0bff7a6598ac1224e4985430bf16458a4';
+const holder = '0xde0B295669a9FD93d5F28D9Ec85E40f4cb697BAe';
+
+describe('Multicall', () => {
+	let context: Web3Context;
+	let token: Contract<typeof ERC20TokenAbi>;
+	let send: jest.SpyInstance;
+
+	const mockResults = (results: [boolean, string][]) =>
+		send.mockImplementation(async ({ id }: { id: number }) =>
+			Promise.resolve({
+				jsonrpc: '2.0',
+				id,
+				result: encodeParameters(['tuple(bool,bytes)[]'], [results]),
+			}),
+		);
+
+	beforeEach(() => {
+		context = new Web3Context('http://127.0.0.1:8545');
+		token = new Contract(ERC20TokenAbi, tokenAddress, context);
+		// the contracts share the provider of the context
+		send = jest.spyOn(context.provider as Web3BaseProvider, 'request');
+	});
+
+	it('should aggregate the calls into a single eth_call', async () => {
+		mockResults([
+			[true, encodeParameters(['uint256'], [1000])],
+			[true, encodeParameters(['string'], ['GLD'])],
+		]);
+
+		const results = await new Multicall(context).aggregate([
+			token.methods.balanceOf(holder),
+			token.methods.symbol(),
+		]);
+
+		expect(send).toHaveBeenCalledTimes(1);
+		const [{ method, params }] = send.mock.calls[0] as [
+			{ method: string; params: [{ to: string; input: string }] },
+		];
+		expect(method).toBe('eth_call');
+		expect(params[0].to.toLowerCase()).toBe(MULTICALL3_ADDRESS.toLowerCase());
+		expect(params[0].input).toContain(token.methods.symbol().encodeABI().slice(2));
+		expect(results.map(({ success, result }) => ({ success, result }))).toEqual([
+			{ success: true, result: BigInt(1000) },
+			{ success: true, result: 'GLD' },
+		]);
+	});
+
+	it('should not decode the failed calls', async () => {
+		mockResults([[false, '0x']]);
+
+		const results = await new Multicall(context, { allowFailure: true }).aggregate([
+			token.methods.balanceOf(holder),
+		]);
+
+		expect(results).toEqual([{ success: false, returnData: '0x' }]);
+	});
+
+	it('should fail on an empty return not allowed to fail', async () => {
+		mockResults([[true, '0x']]);
+
+		await expect(
+			new Multicall(context).aggregate([token.methods.balanceOf(holder)]),
+		).rejects.toThrow();
+	});
+
+	it('should treat an empty return allowed to fail as a failure', async () => {
+		mockResults([[true, '0x']]);
+
+		const results = await new Multicall(context).aggregate([
+			{ method: token.methods.balanceOf(holder), allowFailure: true },
+		]);
+
+		expect(results).toEqual([{ success: false, returnData: '0x' }]);
+	});
+
+	it('should throw for the method objects of a contract without address', async () => {
+		const contract = new Contract(ERC20TokenAbi, context);
+
+		await expect(new Multicall(context).aggregate([contract.methods.symbol()])).rejects.toThrow(
+			new Web3ContractError('The contract of the method "symbol" has no address'),
+		);
+	});
+
+	it('should throw for the method objects not created by a contract', async () => {
+		await expect(
+			new Multicall(context).aggregate([{ encodeABI: () => '0x' } as any]),
+		).rejects.toThrow(Web3ContractError);
+	});
+});
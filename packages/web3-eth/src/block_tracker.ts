@@ -0,0 +1,221 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Web3Context, Web3EventEmitter, Web3SubscriptionManager } from '@etn-sc/web3-core';
+import {
+	Block,
+	BlockHeaderOutput,
+	DEFAULT_RETURN_FORMAT,
+	EthExecutionAPI,
+	FormatType,
+	HexString,
+} from '@etn-sc/web3-types';
+import { isNullish } from '@etn-sc/web3-utils';
+import { getBlock } from './rpc_method_wrappers.js';
+import { NewHeadsSubscription } from './web3_subscriptions.js';
+
+export const DEFAULT_BLOCK_TRACKER_WINDOW_SIZE = 64;
+
+/**
+ * A tracked block, the header of a new head or the block of a fetched missing parent
+ */
+export type BlockTrackerHeader =
+	| BlockHeaderOutput
+	| FormatType<Block, typeof DEFAULT_RETURN_FORMAT>;
+
+export interface BlockTrackerOptions {
+	/**
+	 * The number of recent blocks kept to detect the reorganizations, the deeper ones drop the whole window.
+	 * A new block further than the window above the head resets the window, without the blocks in between.
+	 */
+	windowSize?: number;
+}
+
+export interface ChainReorg {
+	/**
+	 * The blocks removed from the chain, from the lowest to the highest one
+	 */
+	dropped: BlockTrackerHeader[];
+	/**
+	 * The blocks replacing them, from the lowest to the highest one
+	 */
+	added: BlockTrackerHeader[];
+}
+
+export type BlockTrackerEvents = {
+	block: BlockTrackerHeader;
+	reorg: ChainReorg;
+	error: Error;
+};
+
+interface TrackedBlock {
+	header: BlockTrackerHeader;
+	hash: HexString;
+	parentHash: HexString;
+	number: bigint;
+}
+
+const toTrackedBlock = (header: BlockTrackerHeader): TrackedBlock => ({
+	header,
+	hash: header.hash as HexString,
+	parentHash: header.parentHash as HexString,
+	number: BigInt(header.number as bigint),
+});
+
+/**
+ * Tracks the head of the chain and detects the chain reorganizations,
+ * by checking the parent hash of every new block against a window of recent blocks.
+ *
+ * - **block**: Fires on each block added to the chain, including the ones of a reorganization.
+ * - **reorg**: Fires with the dropped and added blocks when the chain is reorganized.
+ * - **error**: Fires when a new block or a missing parent can not be processed.
+ *
+ * ```ts
+ * const tracker = new BlockTracker(web3.eth, { windowSize: 128 });
+ * tracker.on('reorg', ({ dropped, added }) => console.log(dropped, added));
+ * await tracker.start();
+ * ```
+ */
+export class BlockTracker extends Web3EventEmitter<BlockTrackerEvents> {
+	private readonly _web3Context: Web3Context<EthExecutionAPI>;
+	private readonly _windowSize: number;
+	// The recent blocks of the chain, from the lowest to the highest one
+	private _window: TrackedBlock[] = [];
+	// The blocks are processed one after the other, as the missing parents are fetched
+	private _processing: Promise<void> = Promise.resolve();
+	private _subscription?: NewHeadsSubscription;
+
+	public constructor(
+		web3Context: Web3Context<EthExecutionAPI>,
+		options: BlockTrackerOptions = {},
+	) {
+		super();
+		this._web3Context = web3Context;
+		this._windowSize = options.windowSize ?? DEFAULT_BLOCK_TRACKER_WINDOW_SIZE;
+	}
+
+	/**
+	 * Will return the highest tracked block
+	 */
+	public get head(): BlockTrackerHeader | undefined {
+		return this._window[this._window.length - 1]?.header;
+	}
+
+	/**
+	 * Subscribes to the new heads and tracks them
+	 */
+	public async start() {
+		if (!isNullish(this._subscription)) {
+			return;
+		}
+
+		const subscription = new NewHeadsSubscription(undefined, {
+			subscriptionManager: this._web3Context.subscriptionManager as Web3SubscriptionManager,
+			returnFormat: DEFAULT_RETURN_FORMAT,
+		});
+		subscription.on('data', header => {
+			this.addBlock(header).catch((error: Error) => this.emit('error', error));
+		});
+		subscription.on('error', error => this.emit('error', error));
+
+		this._subscription = subscription;
+		await subscription.subscribe();
+	}
+
+	/**
+	 * Unsubscribes from the new heads and forgets the tracked blocks
+	 */
+	public async stop() {
+		const subscription = this._subscription;
+		this._subscription = undefined;
+		this._window = [];
+
+		await subscription?.unsubscribe();
+	}
+
+	/**
+	 * Adds a new block to the tracked chain, it is done on every new head once started.
+	 * The missing parents of the block are fetched, and the `reorg` event is emitted if it does not extend the chain.
+	 *
+	 * @param header - The header of the new block
+	 */
+	public async addBlock(header: BlockTrackerHeader) {
+		const processing = this._processing.then(async () =>
+			this._addBlock(toTrackedBlock(header)),
+		);
+		this._processing = processing.catch(() => undefined);
+
+		return processing;
+	}
+
+	private async _addBlock(block: TrackedBlock) {
+		if (this._window.some(tracked => tracked.hash === block.hash)) {
+			return;
+		}
+
+		const added = [block];
+		const lowest = this._window[0];
+		let ancestorIndex = this._indexOf(block.parentHash);
+
+		// Fetch the missing parents until one is tracked, or the window is left
+		while (
+			ancestorIndex === -1 &&
+			!isNullish(lowest) &&
+			added[0].number > lowest.number &&
+			added.length < this._windowSize
+		) {
+			// eslint-disable-next-line no-await-in-loop
+			const parent = await getBlock(
+				this._web3Context,
+				added[0].parentHash,
+				false,
+				DEFAULT_RETURN_FORMAT,
+			);
+			// The node already dropped the branch of the block, the next head replaces it
+			if (isNullish(parent)) {
+				return;
+			}
+			added.unshift(toTrackedBlock(parent));
+			ancestorIndex = this._indexOf(added[0].parentHash);
+		}
+
+		const head = this._window[this._window.length - 1];
+		// A gap larger than the window, the added blocks do not reach the height of the tracked ones
+		const isForwardGap =
+			ancestorIndex === -1 && !isNullish(head) && added[0].number > head.number + BigInt(1);
+
+		const dropped = isForwardGap ? [] : this._window.slice(ancestorIndex + 1);
+		this._window = [
+			...(isForwardGap ? [] : this._window.slice(0, ancestorIndex + 1)),
+			...added,
+		].slice(-this._windowSize);
+
+		if (dropped.length > 0) {
+			this.emit('reorg', {
+				dropped: dropped.map(({ header }) => header),
+				added: added.map(({ header }) => header),
+			});
+		}
+		for (const { header } of added) {
+			this.emit('block', header);
+		}
+	}
+
+	private _indexOf(hash: HexString) {
+		return this._window.findIndex(tracked => tracked.hash === hash);
+	}
+}
@@ -60,8 +60,13 @@ export * from './types.js';
 export * from './validation.js';
 export * from './rpc_method_wrappers.js';
 export * from './utils/format_transaction.js';
+export * from './utils/format_overrides.js';
 export * from './utils/prepare_transaction_for_signing.js';
+export * from './utils/fee_estimator.js';
+export * from './utils/paginate_logs.js';
+export * from './utils/simulate_transaction.js';
 export * from './web3_subscriptions.js';
+export * from './block_tracker.js';
 export { detectTransactionType } from './utils/detect_transaction_type.js';
 export { transactionBuilder } from './utils/transaction_builder.js';
 
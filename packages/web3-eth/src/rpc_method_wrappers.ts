@@ -28,7 +28,9 @@ import {
 	Address,
 	BlockTag,
 	BlockNumberOrTag,
+	BlockOverridesAPI,
 	Bytes,
+	CallOverrides,
 	Filter,
 	HexString,
 	Numbers,
@@ -46,6 +48,7 @@ import {
 	TransactionWithFromAndToLocalWalletIndex,
 	TransactionForAccessList,
 	AccessListResult,
+	StateOverrideAPI,
 	Eip712TypedData,
 } from '@etn-sc/web3-types';
 import { Web3Context, Web3PromiEvent } from '@etn-sc/web3-core';
@@ -74,6 +77,7 @@ import {
 // eslint-disable-next-line import/no-cycle
 import { getTransactionFromOrToAttr } from './utils/transaction_builder.js';
 import { formatTransaction } from './utils/format_transaction.js';
+import { formatBlockOverrides, formatStateOverride } from './utils/format_overrides.js';
 // eslint-disable-next-line import/no-cycle
 import { trySendTransaction } from './utils/try_send_transaction.js';
 // eslint-disable-next-line import/no-cycle
@@ -627,7 +631,8 @@ export function sendSignedTransaction<
 					};
 
 					try {
-						const { v, r, s, ...txWithoutSigParams } = unSerializedTransactionWithFrom;
+						const { v, r, s, pV, pR, pS, ...txWithoutSigParams } =
+							unSerializedTransactionWithFrom;
 
 						await sendTxHelper.checkRevertBeforeSending(
 							txWithoutSigParams as TransactionCall,
@@ -759,6 +764,19 @@ export async function signTransaction<ReturnFormat extends DataFormat>(
 		  };
 }
 
+// The overrides are only passed if given, to keep the requests without overrides unchanged
+const formatCallOverrides = (overrides?: CallOverrides): [StateOverrideAPI?, BlockOverridesAPI?] =>
+	isNullish(overrides)
+		? []
+		: [
+				isNullish(overrides.stateOverride)
+					? undefined
+					: formatStateOverride(overrides.stateOverride),
+				isNullish(overrides.blockOverrides)
+					? undefined
+					: formatBlockOverrides(overrides.blockOverrides),
+		  ];
+
 // TODO Decide what to do with transaction.to
 // https://github.com/ChainSafe/web3.js/pull/4525#issuecomment-982330076
 /**
@@ -770,6 +788,7 @@ export async function call<ReturnFormat extends DataFormat>(
 	transaction: TransactionCall,
 	blockNumber: BlockNumberOrTag = web3Context.defaultBlock,
 	returnFormat: ReturnFormat,
+	overrides?: CallOverrides,
 ) {
 	const blockNumberFormatted = isBlockTag(blockNumber as string)
 		? (blockNumber as BlockTag)
@@ -779,6 +798,7 @@ export async function call<ReturnFormat extends DataFormat>(
 		web3Context.requestManager,
 		formatTransaction(transaction, ETH_DATA_FORMAT),
 		blockNumberFormatted,
+		...formatCallOverrides(overrides),
 	);
 
 	return format({ format: 'bytes' }, response as Bytes, returnFormat);
@@ -794,6 +814,7 @@ export async function estimateGas<ReturnFormat extends DataFormat>(
 	transaction: Transaction,
 	blockNumber: BlockNumberOrTag = web3Context.defaultBlock,
 	returnFormat: ReturnFormat,
+	overrides?: CallOverrides,
 ) {
 	const transactionFormatted = formatTransaction(transaction, ETH_DATA_FORMAT);
 	const blockNumberFormatted = isBlockTag(blockNumber as string)
@@ -804,6 +825,7 @@ export async function estimateGas<ReturnFormat extends DataFormat>(
 		web3Context.requestManager,
 		transactionFormatted,
 		blockNumberFormatted,
+		...formatCallOverrides(overrides),
 	);
 
 	return format({ format: 'uint' }, response as Numbers, returnFormat);
@@ -50,7 +50,16 @@ export const accessListResultSchema = {
 
 export const chainSchema = {
 	type: 'string',
-	enum: ['goerli', 'kovan', 'mainnet', 'rinkeby', 'ropsten', 'sepolia'],
+	enum: [
+		'goerli',
+		'kovan',
+		'mainnet',
+		'rinkeby',
+		'ropsten',
+		'sepolia',
+		'electroneum',
+		'electroneumtestnet',
+	],
 };
 
 export const hardforkSchema = {
@@ -68,6 +77,7 @@ export const hardforkSchema = {
 		'merge',
 		'muirGlacier',
 		'petersburg',
+		'priority',
 		'shanghai',
 		'spuriousDragon',
 		'tangerineWhistle',
@@ -163,6 +173,15 @@ export const transactionSchema = {
 		s: {
 			format: 'bytes32',
 		},
+		pV: {
+			format: 'uint',
+		},
+		pR: {
+			format: 'bytes32',
+		},
+		pS: {
+			format: 'bytes32',
+		},
 	},
 };
 
@@ -233,6 +252,15 @@ export const transactionInfoSchema = {
 		s: {
 			format: 'bytes32',
 		},
+		priorityV: {
+			format: 'uint',
+		},
+		priorityR: {
+			format: 'bytes32',
+		},
+		priorityS: {
+			format: 'bytes32',
+		},
 	},
 };
 
@@ -639,3 +667,45 @@ export const accountSchema = {
 		},
 	},
 };
+
+export const accountOverrideSchema = {
+	type: 'object',
+	properties: {
+		balance: {
+			format: 'uint',
+		},
+		nonce: {
+			format: 'uint',
+		},
+		code: {
+			format: 'bytes',
+		},
+	},
+};
+
+export const blockOverridesSchema = {
+	type: 'object',
+	properties: {
+		number: {
+			format: 'uint',
+		},
+		difficulty: {
+			format: 'uint',
+		},
+		time: {
+			format: 'uint',
+		},
+		gasLimit: {
+			format: 'uint',
+		},
+		coinbase: {
+			format: 'address',
+		},
+		random: {
+			format: 'bytes32',
+		},
+		baseFee: {
+			format: 'uint',
+		},
+	},
+};
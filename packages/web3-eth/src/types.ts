@@ -67,6 +67,12 @@ export interface SendTransactionOptions<ResolveType = TransactionReceipt> {
 	contractAbi?: ContractAbi;
 	checkRevertBeforeSending?: boolean;
 	ignoreFillingGasLimit?: boolean;
+	/**
+	 * Private key used to add the priority signature to ETNIP-1 (type `0x40`) transactions
+	 * signed with an account from the local wallet.
+	 * Defaults to the priority signer registered for the sender with `wallet.setPrioritySigner`.
+	 */
+	priorityPrivateKey?: HexString | Uint8Array;
 }
 
 export interface SendSignedTransactionOptions<ResolveType = TransactionReceipt> {
@@ -22,6 +22,7 @@ import {
 } from '@etn-sc/web3-types';
 import { bytesToHex, format, hexToBytes, keccak256 } from '@etn-sc/web3-utils';
 import { TransactionFactory } from '@etn-sc/web3-eth-accounts';
+import { isNullish } from '@etn-sc/web3-validator';
 import { detectRawTransactionType } from './detect_transaction_type.js';
 import { formatTransaction } from './format_transaction.js';
 
@@ -37,13 +38,19 @@ export function decodeSignedTransaction<ReturnFormat extends DataFormat>(
 	returnFormat: ReturnFormat,
 	options: { fillInputAndData?: boolean } = { fillInputAndData: false },
 ): SignedTransactionInfoAPI {
+	// Priority transactions (type 0x40) serialize their co-signature as `pV`, `pR` and `pS`,
+	// which are exposed under the same names the JSON-RPC API uses
+	const { pV, pR, pS, ...decodedTransaction } = TransactionFactory.fromSerializedData(
+		hexToBytes(encodedSignedTransaction),
+	).toJSON();
+	const prioritySignature = isNullish(pV) ? {} : { priorityV: pV, priorityR: pR, priorityS: pS };
+
 	return {
 		raw: format({ format: 'bytes' }, encodedSignedTransaction, returnFormat),
 		tx: formatTransaction(
 			{
-				...TransactionFactory.fromSerializedData(
-					hexToBytes(encodedSignedTransaction),
-				).toJSON(),
+				...decodedTransaction,
+				...prioritySignature,
 				hash: bytesToHex(keccak256(hexToBytes(encodedSignedTransaction))),
 				type: detectRawTransactionType(hexToBytes(encodedSignedTransaction)),
 			} as TransactionSignedAPI,
@@ -15,11 +15,15 @@ You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 
-import { format, toHex } from '@etn-sc/web3-utils';
+import { format, toBigInt, toHex, toNumber } from '@etn-sc/web3-utils';
 import { TransactionTypeParser, Web3Context } from '@etn-sc/web3-core';
 import { EthExecutionAPI, HardforksOrdered, Transaction, ETH_DATA_FORMAT } from '@etn-sc/web3-types';
 import { Web3ValidatorError, isNullish, validator } from '@etn-sc/web3-validator';
-import { InvalidPropertiesForTransactionTypeError } from '@etn-sc/web3-errors';
+import {
+	InvalidPropertiesForTransactionTypeError,
+	PriorityTransactionNotSupportedError,
+} from '@etn-sc/web3-errors';
+import { Capability, Common } from '@etn-sc/web3-eth-accounts';
 
 import { InternalTransaction } from '../types.js';
 
@@ -57,11 +61,19 @@ const transactionType0x2Schema = {
 		},
 	},
 };
+const transactionType0x40Schema = {
+	type: 'object',
+	properties: {
+		gasPrice: {
+			type: 'null',
+		},
+	},
+};
 
 const validateTxTypeAndHandleErrors = (
 	txSchema: object,
 	tx: Transaction,
-	txType: '0x0' | '0x1' | '0x2',
+	txType: '0x0' | '0x1' | '0x2' | '0x40',
 ) => {
 	try {
 		validator.validateJSONSchema(txSchema, tx);
@@ -75,6 +87,37 @@ const validateTxTypeAndHandleErrors = (
 	}
 };
 
+// Checks the Common the transaction is signed with, its chain defaults to the built-in chain of its chain id
+const validatePriorityTransactionSupport = (tx: Transaction) => {
+	const chainId = tx.common?.customChain?.chainId ?? tx.chainId;
+	const hardfork = tx.common?.hardfork ?? tx.hardfork;
+	const baseChain =
+		tx.common?.baseChain ??
+		tx.chain ??
+		(!isNullish(chainId) && Common.isSupportedChainId(toBigInt(chainId))
+			? toBigInt(chainId)
+			: undefined);
+	// Without a chain, the transaction is checked by its constructor once the chain is known
+	if (isNullish(baseChain)) return;
+
+	let common: Common | undefined;
+	try {
+		common = Common.custom(isNullish(chainId) ? {} : { chainId: toNumber(chainId) as number }, {
+			baseChain,
+			hardfork,
+		});
+	} catch {
+		// The chain or the hardfork is not known by Common
+		common = undefined;
+	}
+
+	if (isNullish(common) || !common.isActivatedEIP(Capability.ETNIP1PriorityTransactions))
+		throw new PriorityTransactionNotSupportedError({
+			chainId: isNullish(chainId) ? undefined : toHex(chainId),
+			hardfork,
+		});
+};
+
 export const defaultTransactionTypeParser: TransactionTypeParser = (
 	transaction
 ) => {
@@ -91,6 +134,10 @@ export const defaultTransactionTypeParser: TransactionTypeParser = (
 			case '0x2':
 				txSchema = transactionType0x2Schema;
 				break;
+			case '0x40':
+				validatePriorityTransactionSupport(tx);
+				txSchema = transactionType0x40Schema;
+				break;
 
 			default:
 				return format({ format: 'uint' }, tx.type, ETH_DATA_FORMAT);
@@ -0,0 +1,129 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { FeeEstimator } from '@etn-sc/web3-core';
+import { DEFAULT_RETURN_FORMAT, EthExecutionAPI, Numbers } from '@etn-sc/web3-types';
+import { isNullish } from '@etn-sc/web3-validator';
+import { Eip1559NotSupportedError } from '@etn-sc/web3-errors';
+// eslint-disable-next-line import/no-cycle
+import { getFeeHistory } from '../rpc_method_wrappers.js';
+
+export type FeeHistoryPreset = 'slow' | 'normal' | 'fast';
+
+export interface FeeHistoryEstimatorOptions {
+	/**
+	 * The preset providing the defaults of `rewardPercentile` and `baseFeeMultiplier`, `normal` if not given
+	 */
+	preset?: FeeHistoryPreset;
+	/**
+	 * The number of past blocks to sample the priority fees from
+	 */
+	blockCount?: number;
+	/**
+	 * The percentile of the priority fees paid in each sampled block, between 0 and 100
+	 */
+	rewardPercentile?: number;
+	/**
+	 * The multiplier applied to the base fee of the next block, as a margin for base fee increases
+	 */
+	baseFeeMultiplier?: number;
+	/**
+	 * The lowest `maxPriorityFeePerGas` to use, whatever the fee history
+	 */
+	minPriorityFeePerGas?: Numbers;
+}
+
+export const FEE_HISTORY_BLOCK_COUNT = 10;
+
+export const feeHistoryPresets: Record<
+	FeeHistoryPreset,
+	{ rewardPercentile: number; baseFeeMultiplier: number }
+> = {
+	slow: { rewardPercentile: 10, baseFeeMultiplier: 1.1 },
+	normal: { rewardPercentile: 50, baseFeeMultiplier: 1.25 },
+	fast: { rewardPercentile: 90, baseFeeMultiplier: 1.5 },
+};
+
+const median = (values: bigint[]): bigint => {
+	if (values.length === 0) return BigInt(0);
+
+	const sorted = [...values].sort((a, b) => {
+		if (a === b) return 0;
+		return a < b ? -1 : 1;
+	});
+
+	return sorted[Math.floor((sorted.length - 1) / 2)];
+};
+
+/**
+ * Creates a {@link FeeEstimator} based on the `eth_feeHistory` of the chain.
+ *
+ * `maxPriorityFeePerGas` is the median over the last `blockCount` blocks of the `rewardPercentile` percentile
+ * of the priority fees paid in each block. `maxFeePerGas` is the base fee of the next block
+ * multiplied by `baseFeeMultiplier`, plus `maxPriorityFeePerGas`.
+ *
+ * @param options - ({@link FeeHistoryEstimatorOptions}) The preset and its overrides
+ * @returns A {@link FeeEstimator} to set as `feeEstimator` or `priorityFeeEstimator` of the Web3 configuration
+ *
+ * ```ts
+ * web3.eth.feeEstimator = createFeeHistoryEstimator({ preset: 'slow' });
+ * // priority transactions (type 0x40) can follow their own policy
+ * web3.eth.priorityFeeEstimator = createFeeHistoryEstimator({ preset: 'fast', blockCount: 5 });
+ * ```
+ */
+export const createFeeHistoryEstimator = (
+	options: FeeHistoryEstimatorOptions = {},
+): FeeEstimator<EthExecutionAPI> => {
+	const preset = feeHistoryPresets[options.preset ?? 'normal'];
+	const blockCount = options.blockCount ?? FEE_HISTORY_BLOCK_COUNT;
+	const rewardPercentile = options.rewardPercentile ?? preset.rewardPercentile;
+	const baseFeeMultiplier = options.baseFeeMultiplier ?? preset.baseFeeMultiplier;
+	const minPriorityFeePerGas = BigInt(options.minPriorityFeePerGas ?? 0);
+
+	return async ({ web3Context }) => {
+		const feeHistory = await getFeeHistory(
+			web3Context,
+			blockCount,
+			web3Context.defaultBlock,
+			[rewardPercentile],
+			DEFAULT_RETURN_FORMAT,
+		);
+
+		// `baseFeePerGas` is an array holding one more entry than the sampled blocks,
+		// the base fee of the next block
+		const baseFees = feeHistory.baseFeePerGas;
+		if (isNullish(baseFees) || baseFees.length === 0) throw new Eip1559NotSupportedError();
+		const nextBaseFee = baseFees[baseFees.length - 1];
+
+		// `format` leaves the nested arrays of `reward` as hex strings
+		const rewards = (feeHistory.reward ?? []).map(blockRewards => BigInt(blockRewards[0] ?? 0));
+		const historicalPriorityFee = median(rewards);
+		const maxPriorityFeePerGas =
+			historicalPriorityFee > minPriorityFeePerGas
+				? historicalPriorityFee
+				: minPriorityFeePerGas;
+
+		// Multiply as an integer percentage to stay in bigint arithmetic
+		const maxBaseFee =
+			(nextBaseFee * BigInt(Math.round(baseFeeMultiplier * 100))) / BigInt(100);
+
+		return {
+			maxPriorityFeePerGas,
+			maxFeePerGas: maxBaseFee + maxPriorityFeePerGas,
+		};
+	};
+};
@@ -0,0 +1,58 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import {
+	AccountOverrideAPI,
+	BlockOverrides,
+	BlockOverridesAPI,
+	ETH_DATA_FORMAT,
+	StateOverride,
+	StateOverrideAPI,
+} from '@etn-sc/web3-types';
+import { format } from '@etn-sc/web3-utils';
+import { isNullish } from '@etn-sc/web3-validator';
+
+import { accountOverrideSchema, blockOverridesSchema } from '../schemas.js';
+
+/**
+ * Formats the balances, nonces and codes of a {@link StateOverride} as hex strings, the storages are kept as is
+ *
+ * @param stateOverride - The overrides of the accounts, by address
+ * @returns The state override sent to the node
+ */
+export function formatStateOverride(stateOverride: StateOverride): StateOverrideAPI {
+	const formatted: Record<string, AccountOverrideAPI> = {};
+
+	for (const [address, { state, stateDiff, ...account }] of Object.entries(stateOverride)) {
+		formatted[address] = {
+			...format(accountOverrideSchema, account, ETH_DATA_FORMAT),
+			...(isNullish(state) ? {} : { state }),
+			...(isNullish(stateDiff) ? {} : { stateDiff }),
+		} as AccountOverrideAPI;
+	}
+
+	return formatted;
+}
+
+/**
+ * Formats the fields of the {@link BlockOverrides} as hex strings
+ *
+ * @param blockOverrides - The fields of the block to override
+ * @returns The block overrides sent to the node
+ */
+export function formatBlockOverrides(blockOverrides: BlockOverrides): BlockOverridesAPI {
+	return format(blockOverridesSchema, blockOverrides, ETH_DATA_FORMAT) as BlockOverridesAPI;
+}
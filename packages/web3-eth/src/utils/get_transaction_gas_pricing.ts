@@ -15,7 +15,7 @@ You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 
-import { Web3Context } from '@etn-sc/web3-core';
+import { FeeEstimator, Web3Context } from '@etn-sc/web3-core';
 import {
 	EthExecutionAPI,
 	Numbers,
@@ -37,7 +37,37 @@ async function getEip1559GasPricing<ReturnFormat extends DataFormat>(
 	transaction: FormatType<Transaction, typeof ETH_DATA_FORMAT>,
 	web3Context: Web3Context<EthExecutionAPI>,
 	returnFormat: ReturnFormat,
+	feeEstimator?: FeeEstimator,
 ): Promise<FormatType<{ maxPriorityFeePerGas?: Numbers; maxFeePerGas?: Numbers }, ReturnFormat>> {
+	// The estimator supplies both fees, no need to fetch the latest block
+	if (
+		isNullish(transaction.gasPrice) &&
+		!isNullish(feeEstimator) &&
+		(isNullish(transaction.maxPriorityFeePerGas) || isNullish(transaction.maxFeePerGas))
+	) {
+		const estimatedFees = await feeEstimator({ transaction, web3Context });
+		const maxPriorityFeePerGas = BigInt(
+			transaction.maxPriorityFeePerGas ?? estimatedFees.maxPriorityFeePerGas,
+		);
+
+		return {
+			maxPriorityFeePerGas: format(
+				{ format: 'uint' },
+				maxPriorityFeePerGas as Numbers,
+				returnFormat,
+			),
+			// keep the base fee part of the estimate when only `maxPriorityFeePerGas` is given
+			maxFeePerGas: format(
+				{ format: 'uint' },
+				(transaction.maxFeePerGas ??
+					BigInt(estimatedFees.maxFeePerGas) -
+						BigInt(estimatedFees.maxPriorityFeePerGas) +
+						maxPriorityFeePerGas) as Numbers,
+				returnFormat,
+			),
+		};
+	}
+
 	const block = await getBlock(web3Context, web3Context.defaultBlock, false, returnFormat);
 
 	if (isNullish(block.baseFeePerGas)) throw new Eip1559NotSupportedError();
@@ -102,10 +132,20 @@ export async function getTransactionGasPricing<ReturnFormat extends DataFormat>(
 				maxFeePerGas: undefined,
 			};
 
-		if (transactionType === '0x2') {
+		if (transactionType === '0x2' || transactionType === '0x40') {
+			// Priority transactions may follow their own fee policy
+			const feeEstimator =
+				(transactionType === '0x40' ? web3Context.priorityFeeEstimator : undefined) ??
+				web3Context.feeEstimator;
+
 			return {
 				gasPrice: undefined,
-				...(await getEip1559GasPricing(transaction, web3Context, returnFormat)),
+				...(await getEip1559GasPricing(
+					transaction,
+					web3Context,
+					returnFormat,
+					feeEstimator,
+				)),
 			};
 		}
 	}
@@ -0,0 +1,218 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Web3Context } from '@etn-sc/web3-core';
+import { InvalidMethodParamsError } from '@etn-sc/web3-errors';
+import {
+	BlockTags,
+	DataFormat,
+	DEFAULT_RETURN_FORMAT,
+	Filter,
+	FormatType,
+	Log,
+	Numbers,
+	Web3EthExecutionAPI,
+} from '@etn-sc/web3-types';
+import { numberToHex } from '@etn-sc/web3-utils';
+import { isNullish } from '@etn-sc/web3-validator';
+import { getBlock, getBlockNumber, getLogs } from '../rpc_method_wrappers.js';
+
+export const DEFAULT_LOGS_PAGE_RANGE = 1000;
+
+/**
+ * The position of an interrupted scan, to resume it from the next page.
+ * The checkpoints of the {@link LogsPage} have hex string numbers, they can be saved with `JSON.stringify`.
+ */
+export interface LogsCheckpoint {
+	/**
+	 * The first block not scanned yet
+	 */
+	fromBlock: Numbers;
+	/**
+	 * The last block of the scan
+	 */
+	toBlock: Numbers;
+	/**
+	 * The number of blocks of the next `eth_getLogs` request
+	 */
+	range: Numbers;
+}
+
+export interface PaginateLogsOptions {
+	/**
+	 * The number of blocks of the first `eth_getLogs` request, {@link DEFAULT_LOGS_PAGE_RANGE} by default, at least 1
+	 */
+	initialRange?: Numbers;
+	/**
+	 * The highest number of blocks of an `eth_getLogs` request, not limited if not given, at least 1
+	 */
+	maxRange?: Numbers;
+	/**
+	 * The checkpoint of a previous scan to resume, it replaces the `fromBlock` and `toBlock` of the filter
+	 */
+	checkpoint?: LogsCheckpoint;
+	/**
+	 * Whether an error is due to the size of the range or of the response, {@link isLogsRangeError} by default.
+	 * The range is halved on such errors, the other ones are thrown.
+	 */
+	isRangeError?: (error: unknown) => boolean;
+}
+
+export interface LogsPage<ReturnFormat extends DataFormat = typeof DEFAULT_RETURN_FORMAT> {
+	logs: (string | FormatType<Log, ReturnFormat>)[];
+	/**
+	 * The first block of the page
+	 */
+	fromBlock: bigint;
+	/**
+	 * The last block of the page
+	 */
+	toBlock: bigint;
+	/**
+	 * The checkpoint to resume the scan after this page, it is `undefined` for the last page
+	 */
+	checkpoint?: LogsCheckpoint;
+}
+
+const logsRangeErrorPattern =
+	/(more than \d+ results|block range|range (is )?too (large|wide|big)|limit exceeded|too many (results|logs|blocks)|response size|timeout|timed out)/i;
+
+/**
+ * Will return `true` for the errors of the nodes rejecting an `eth_getLogs` request for the size of its range or of its response,
+ * e.g. `query returned more than 10000 results` or `block range is too wide`, and for the timeouts of the large queries
+ *
+ * @param error - The error of the `eth_getLogs` request
+ */
+export const isLogsRangeError = (error: unknown): boolean =>
+	error instanceof Error && logsRangeErrorPattern.test(error.message);
+
+const resolveBlockNumber = async (
+	web3Context: Web3Context<Web3EthExecutionAPI>,
+	block: Filter['fromBlock'],
+): Promise<bigint> => {
+	if (isNullish(block) || block === BlockTags.LATEST || block === BlockTags.PENDING) {
+		return getBlockNumber(web3Context, DEFAULT_RETURN_FORMAT);
+	}
+	if (block === BlockTags.EARLIEST) {
+		return BigInt(0);
+	}
+	if (block === BlockTags.SAFE || block === BlockTags.FINALIZED) {
+		const { number } = await getBlock(web3Context, block, false, DEFAULT_RETURN_FORMAT);
+		return BigInt(number);
+	}
+	return BigInt(block);
+};
+
+const minBigInt = (a: bigint, b: bigint) => (a < b ? a : b);
+
+// A range below 1 block would never move the scan forward
+const validateRange = (name: string, range: bigint) => {
+	if (range < BigInt(1)) {
+		throw new InvalidMethodParamsError(`The ${name} of paginateLogs must be at least 1`);
+	}
+};
+
+/**
+ * Gets the logs matching a filter page by page, with an `eth_getLogs` request for each range of blocks.
+ * The range is halved when the node rejects it for its size or the size of its response, and doubled after each page.
+ * The block tags of the filter are resolved once, when the scan starts.
+ *
+ * ```ts
+ * let checkpoint = loadCheckpoint();
+ * for await (const page of paginateLogs(web3.eth, filter, { checkpoint }, DEFAULT_RETURN_FORMAT)) {
+ *   handleLogs(page.logs);
+ *   saveCheckpoint(page.checkpoint);
+ * }
+ * ```
+ *
+ * @param web3Context ({@link Web3Context}) Web3 configuration object that contains things such as the provider, request manager, wallet, etc.
+ * @param filter - The filter of the logs
+ * @param options - ({@link PaginateLogsOptions}) The ranges of the requests, and the checkpoint to resume from
+ * @param returnFormat - The format of the logs
+ * @returns An async iterator of the {@link LogsPage}, from the lowest block to the highest one
+ */
+export async function* paginateLogs<ReturnFormat extends DataFormat>(
+	web3Context: Web3Context<Web3EthExecutionAPI>,
+	filter: Filter,
+	options: PaginateLogsOptions = {},
+	returnFormat: ReturnFormat = DEFAULT_RETURN_FORMAT as ReturnFormat,
+): AsyncGenerator<LogsPage<ReturnFormat>> {
+	// A single block is queried by its hash
+	if (!isNullish(filter.blockHash)) {
+		const logs = await getLogs(web3Context, filter, returnFormat);
+		const blockNumber = BigInt(
+			(await getBlock(web3Context, filter.blockHash, false, DEFAULT_RETURN_FORMAT)).number,
+		);
+		yield { logs, fromBlock: blockNumber, toBlock: blockNumber };
+		return;
+	}
+
+	const { checkpoint, isRangeError = isLogsRangeError } = options;
+	const maxRange = isNullish(options.maxRange) ? undefined : BigInt(options.maxRange);
+	if (!isNullish(maxRange)) {
+		validateRange('maxRange', maxRange);
+	}
+	let fromBlock = isNullish(checkpoint)
+		? await resolveBlockNumber(web3Context, filter.fromBlock)
+		: BigInt(checkpoint.fromBlock);
+	const toBlock = isNullish(checkpoint)
+		? await resolveBlockNumber(web3Context, filter.toBlock)
+		: BigInt(checkpoint.toBlock);
+	let range = BigInt(checkpoint?.range ?? options.initialRange ?? DEFAULT_LOGS_PAGE_RANGE);
+	validateRange(isNullish(checkpoint) ? 'initialRange' : 'checkpoint range', range);
+	if (!isNullish(maxRange)) {
+		range = minBigInt(range, maxRange);
+	}
+
+	while (fromBlock <= toBlock) {
+		const pageToBlock = minBigInt(fromBlock + range - BigInt(1), toBlock);
+
+		let logs;
+		try {
+			// eslint-disable-next-line no-await-in-loop
+			logs = await getLogs(
+				web3Context,
+				{ ...filter, fromBlock, toBlock: pageToBlock },
+				returnFormat,
+			);
+		} catch (error) {
+			// A single block can not be split
+			if (pageToBlock === fromBlock || !isRangeError(error)) {
+				throw error;
+			}
+			range = (pageToBlock - fromBlock + BigInt(1)) / BigInt(2);
+			// eslint-disable-next-line no-continue
+			continue;
+		}
+
+		range *= BigInt(2);
+		if (!isNullish(maxRange)) {
+			range = minBigInt(range, maxRange);
+		}
+
+		const page: LogsPage<ReturnFormat> = { logs, fromBlock, toBlock: pageToBlock };
+		fromBlock = pageToBlock + BigInt(1);
+		if (fromBlock <= toBlock) {
+			page.checkpoint = {
+				fromBlock: numberToHex(fromBlock),
+				toBlock: numberToHex(toBlock),
+				range: numberToHex(range),
+			};
+		}
+		yield page;
+	}
+}
@@ -17,6 +17,7 @@ along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 
 import {
 	EthExecutionAPI,
+	Hardfork,
 	HexString,
 	PopulatedUnsignedEip1559Transaction,
 	PopulatedUnsignedEip2930Transaction,
@@ -27,11 +28,12 @@ import {
 	ETH_DATA_FORMAT,
 } from '@etn-sc/web3-types';
 import { Web3Context } from '@etn-sc/web3-core';
-import { toNumber } from '@etn-sc/web3-utils';
+import { toBigInt, toNumber } from '@etn-sc/web3-utils';
 import { TransactionFactory, TxOptions, Common } from '@etn-sc/web3-eth-accounts';
 import { isNullish } from '@etn-sc/web3-validator';
 import { validateTransactionForSigning } from '../validation.js';
 import { formatTransaction } from './format_transaction.js';
+// eslint-disable-next-line import/no-cycle
 import { transactionBuilder } from './transaction_builder.js';
 
 const getEthereumjsTxDataFromTransaction = (
@@ -56,10 +58,37 @@ const getEthereumjsTxDataFromTransaction = (
 	).maxFeePerGas,
 });
 
-const getEthereumjsTransactionOptions = (
+// Priority transactions are only live on the chains activating ETNIP-1, so the chain and hardfork still
+// defaulting to the ones of the context are taken from the built-in chain of the chain id
+const withPriorityTransactionChain = (
 	transaction: FormatType<PopulatedUnsignedTransaction, typeof ETH_DATA_FORMAT>,
 	web3Context: Web3Context<EthExecutionAPI>,
 ) => {
+	if (
+		transaction.type !== '0x40' ||
+		!isNullish(transaction.common) ||
+		!isNullish(web3Context.defaultCommon) ||
+		isNullish(transaction.chainId) ||
+		!Common.isSupportedChainId(toBigInt(transaction.chainId)) ||
+		(transaction.chain ?? web3Context.defaultChain) !== web3Context.defaultChain ||
+		(transaction.hardfork ?? web3Context.defaultHardfork) !== web3Context.defaultHardfork
+	) {
+		return transaction;
+	}
+
+	const common = new Common({ chain: toBigInt(transaction.chainId) });
+	return {
+		...transaction,
+		chain: common.chainName() as ValidChains,
+		hardfork: common.hardfork() as Hardfork,
+	};
+};
+
+const getEthereumjsTransactionOptions = (
+	populatedTransaction: FormatType<PopulatedUnsignedTransaction, typeof ETH_DATA_FORMAT>,
+	web3Context: Web3Context<EthExecutionAPI>,
+) => {
+	const transaction = withPriorityTransactionChain(populatedTransaction, web3Context);
 	const hasTransactionSigningOptions =
 		(!isNullish(transaction.chain) && !isNullish(transaction.hardfork)) ||
 		!isNullish(transaction.common);
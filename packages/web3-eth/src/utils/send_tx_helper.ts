@@ -34,9 +34,12 @@ import {
 } from '@etn-sc/web3-types';
 import { Web3Context, Web3EventEmitter, Web3PromiEvent } from '@etn-sc/web3-core';
 import { isNullish } from '@etn-sc/web3-validator';
+import { format } from '@etn-sc/web3-utils';
+import { signPriorityTransaction } from '@etn-sc/web3-eth-accounts';
 import {
 	ContractExecutionError,
 	InvalidResponseError,
+	MissingPrioritySignerError,
 	TransactionRevertedWithoutReasonError,
 	TransactionRevertInstructionError,
 	TransactionRevertWithCustomError,
@@ -44,6 +47,7 @@ import {
 import { ethRpcMethods } from '@etn-sc/web3-rpc-methods';
 
 import {
+	InternalTransaction,
 	SendSignedTransactionEvents,
 	SendTransactionEvents,
 	SendTransactionOptions,
@@ -60,6 +64,10 @@ import { getTransactionError } from './get_transaction_error.js';
 // eslint-disable-next-line import/no-cycle
 import { getRevertReason } from './get_revert_reason.js';
 import { decodeEventABI } from './decoding.js';
+// eslint-disable-next-line import/no-cycle
+import { prepareTransactionForSigning } from './prepare_transaction_for_signing.js';
+// eslint-disable-next-line import/no-cycle
+import { getTransactionType } from './transaction_builder.js';
 
 export class SendTxHelper<
 	ReturnFormat extends DataFormat,
@@ -178,7 +186,10 @@ export class SendTxHelper<
 		tx: TxType;
 	}) {
 		if (wallet) {
-			const signedTransaction = await wallet.signTransaction(tx);
+			const signedTransaction =
+				getTransactionType(tx as InternalTransaction, this.web3Context) === '0x40'
+					? await this.signPriorityTransaction({ wallet, tx })
+					: await wallet.signTransaction(tx);
 
 			return trySendTransaction(
 				this.web3Context,
@@ -200,6 +211,32 @@ export class SendTxHelper<
 		);
 	}
 
+	public async signPriorityTransaction({
+		wallet,
+		tx,
+	}: {
+		wallet: Web3BaseWalletAccount;
+		tx: TxType;
+	}) {
+		const priorityPrivateKey =
+			this.options.priorityPrivateKey ??
+			this.web3Context.wallet?.getPrioritySigner?.(wallet.address)?.privateKey;
+		if (isNullish(priorityPrivateKey))
+			throw new MissingPrioritySignerError({ from: wallet.address });
+
+		const preparedTransaction = await prepareTransactionForSigning(
+			tx as Transaction,
+			this.web3Context,
+			wallet.privateKey,
+		);
+
+		return signPriorityTransaction(
+			preparedTransaction,
+			wallet.privateKey,
+			format({ format: 'bytes' }, priorityPrivateKey, ETH_DATA_FORMAT),
+		);
+	}
+
 	public emitSent(tx: TxType | HexString) {
 		if (this.promiEvent.listenerCount('sent') > 0) {
 			this.promiEvent.emit('sent', tx);
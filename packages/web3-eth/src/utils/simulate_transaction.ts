@@ -0,0 +1,515 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Web3Context } from '@etn-sc/web3-core';
+import {
+	ContractExecutionError,
+	Eip838ExecutionError,
+	ERR_RPC_INVALID_METHOD,
+	InvalidResponseError,
+	MethodNotFoundError,
+} from '@etn-sc/web3-errors';
+import {
+	decodeContractErrorData,
+	decodeParameters,
+	encodeEventSignature,
+	encodeFunctionSignature,
+	isAbiErrorFragment,
+	isAbiEventFragment,
+	isAbiFunctionFragment,
+	jsonInterfaceMethodToString,
+} from '@etn-sc/web3-eth-abi';
+import { ethRpcMethods } from '@etn-sc/web3-rpc-methods';
+import {
+	AbiErrorFragment,
+	AbiEventFragment,
+	AbiFunctionFragment,
+	Address,
+	BlockNumberOrTag,
+	BlockTag,
+	CallFrameAPI,
+	CallLogAPI,
+	CallOverrides,
+	ContractAbi,
+	DEFAULT_RETURN_FORMAT,
+	ETH_DATA_FORMAT,
+	HexString,
+	Numbers,
+	TraceCallOptionsAPI,
+	Transaction,
+	TransactionCall,
+	TransactionCallAPI,
+	Web3EthExecutionAPI,
+} from '@etn-sc/web3-types';
+import { format } from '@etn-sc/web3-utils';
+import { isBlockTag, isNullish } from '@etn-sc/web3-validator';
+
+// eslint-disable-next-line import/no-cycle
+import { call, estimateGas } from '../rpc_method_wrappers.js';
+import { RevertReason, RevertReasonWithCustomError } from '../types.js';
+import { decodeEventABI } from './decoding.js';
+import { formatBlockOverrides, formatStateOverride } from './format_overrides.js';
+import { formatTransaction } from './format_transaction.js';
+// eslint-disable-next-line import/no-cycle
+import { parseTransactionError } from './get_revert_reason.js';
+
+/**
+ * A contract whose ABI decodes the calls, events and reverts of a simulation, e.g. a `Contract` instance
+ */
+export interface SimulationContract {
+	readonly options: {
+		readonly address?: Address;
+		readonly jsonInterface: ContractAbi;
+	};
+}
+
+export interface SimulateTransactionOptions {
+	/**
+	 * The contracts whose ABIs decode the calls, events and reverts.
+	 * The ABI of the contract at the address of a call or log is tried first, then the ones of the other contracts.
+	 */
+	contracts?: SimulationContract[];
+	/**
+	 * The block to simulate the transaction on, the default block of the context by default
+	 */
+	block?: BlockNumberOrTag;
+	/**
+	 * The state and block overrides of the simulation
+	 */
+	overrides?: CallOverrides;
+	/**
+	 * Whether to trace the transaction with `debug_traceCall`, `true` by default.
+	 * The simulation falls back to `eth_call` and `eth_estimateGas` if it is `false` or if the node does not support the method.
+	 */
+	trace?: boolean;
+}
+
+export interface DecodedMethod {
+	name: string;
+	signature: string;
+	args: Record<string, unknown>;
+}
+
+export interface SimulatedCall {
+	/**
+	 * The type of the call, e.g. `CALL`, `DELEGATECALL`, `STATICCALL` or `CREATE`
+	 */
+	type: string;
+	from: Address;
+	to?: Address;
+	value: bigint;
+	/**
+	 * The gas used by the call, it is only known for the traced simulations
+	 */
+	gasUsed?: bigint;
+	input: HexString;
+	output?: HexString;
+	/**
+	 * The called method, if its selector is found in the ABIs of the contracts
+	 */
+	method?: DecodedMethod;
+	/**
+	 * The revert of the call, with the decoded custom error if found in the ABIs of the contracts
+	 */
+	revert?: RevertReason | RevertReasonWithCustomError;
+	/**
+	 * The calls made by this one, they are only known for the traced simulations
+	 */
+	calls: SimulatedCall[];
+}
+
+export interface SimulatedEvent {
+	address: Address;
+	topics: HexString[];
+	data: HexString;
+	/**
+	 * The name of the event, if its topic is found in the ABIs of the contracts
+	 */
+	event?: string;
+	signature?: HexString;
+	returnValues?: Record<string, unknown>;
+}
+
+export interface TransactionSimulation {
+	/**
+	 * Whether the transaction was traced with `debug_traceCall`.
+	 * The nested calls and the events are not known otherwise.
+	 */
+	traced: boolean;
+	success: boolean;
+	/**
+	 * The gas used by the transaction, it is estimated with `eth_estimateGas` for the simulations not traced.
+	 * It is not known for the failing transactions that are not traced.
+	 */
+	gasUsed?: bigint;
+	returnData?: HexString;
+	/**
+	 * The top call of the transaction
+	 */
+	call: SimulatedCall;
+	/**
+	 * The events emitted by the transaction, in the order of their emission
+	 */
+	events: SimulatedEvent[];
+	/**
+	 * The changes of the balances of the accounts by the transferred values, the gas fees are not included
+	 */
+	balanceChanges: Record<Address, bigint>;
+	revert?: RevertReason | RevertReasonWithCustomError;
+}
+
+// The calls transferring their value, the others act in the context of their caller
+const valueCallTypes = ['CALL', 'CALLCODE', 'CREATE', 'CREATE2', 'SELFDESTRUCT'];
+
+const traceUnsupportedPattern =
+	/(method .*(not found|does not exist|not available|not supported)|(unsupported|unknown) method|not (supported|enabled))/i;
+
+const isTraceUnsupportedError = (error: unknown): boolean => {
+	if (error instanceof MethodNotFoundError) {
+		return true;
+	}
+	if (
+		error instanceof InvalidResponseError &&
+		(error.innerError as { code?: number } | undefined)?.code === ERR_RPC_INVALID_METHOD
+	) {
+		return true;
+	}
+	return error instanceof Error && traceUnsupportedPattern.test(error.message);
+};
+
+class ContractAbis {
+	private readonly _byAddress = new Map<string, ContractAbi>();
+	private readonly _all: ContractAbi[] = [];
+
+	public constructor(contracts: SimulationContract[]) {
+		for (const { options } of contracts) {
+			this._all.push(options.jsonInterface);
+			if (!isNullish(options.address)) {
+				this._byAddress.set(options.address.toLowerCase(), options.jsonInterface);
+			}
+		}
+	}
+
+	// The ABI of the address is tried first
+	public fragments(address?: Address) {
+		const abi = isNullish(address) ? undefined : this._byAddress.get(address.toLowerCase());
+		return isNullish(abi) ? this._all.flat() : [...abi, ...this._all.flat()];
+	}
+
+	public findFunction(address: Address | undefined, selector: HexString) {
+		return this.fragments(address).find(
+			fragment =>
+				isAbiFunctionFragment(fragment) && encodeFunctionSignature(fragment) === selector,
+		) as AbiFunctionFragment | undefined;
+	}
+
+	public findEvent(address: Address, topic: HexString) {
+		return this.fragments(address).find(
+			fragment =>
+				isAbiEventFragment(fragment) &&
+				!fragment.anonymous &&
+				encodeEventSignature(fragment) === topic,
+		) as AbiEventFragment | undefined;
+	}
+
+	public findErrors(address?: Address) {
+		return this.fragments(address).filter(fragment =>
+			isAbiErrorFragment(fragment),
+		) as AbiErrorFragment[];
+	}
+}
+
+const decodeMethod = (
+	abis: ContractAbis,
+	to: Address | undefined,
+	input: HexString,
+): DecodedMethod | undefined => {
+	if (input.length < 10) {
+		return undefined;
+	}
+	const fragment = abis.findFunction(to, input.slice(0, 10).toLowerCase());
+	if (isNullish(fragment)) {
+		return undefined;
+	}
+	try {
+		return {
+			name: fragment.name,
+			signature: jsonInterfaceMethodToString(fragment),
+			args: decodeParameters([...(fragment.inputs ?? [])], input.slice(10)),
+		};
+	} catch {
+		// The input does not match the fragment of the selector
+		return undefined;
+	}
+};
+
+const decodeEvent = (abis: ContractAbis, log: CallLogAPI): SimulatedEvent => {
+	const { address, topics, data } = log;
+	const fragment =
+		topics.length > 0 ? abis.findEvent(address, topics[0].toLowerCase()) : undefined;
+	if (isNullish(fragment)) {
+		return { address, topics, data };
+	}
+	try {
+		const { event, signature, returnValues } = decodeEventABI(
+			{ ...fragment, signature: topics[0] },
+			{ address, topics, data },
+			[],
+		);
+		return { address, topics, data, event, signature, returnValues };
+	} catch {
+		// The log does not match the fragment of the topic
+		return { address, topics, data };
+	}
+};
+
+const decodeRevert = (
+	abis: ContractAbis,
+	frame: CallFrameAPI,
+): RevertReason | RevertReasonWithCustomError => {
+	const error = new Eip838ExecutionError({
+		code: 3,
+		message: frame.revertReason ?? frame.error ?? 'execution reverted',
+		data: frame.output,
+	});
+	decodeContractErrorData(abis.findErrors(frame.to), error);
+
+	const revert: RevertReason = {
+		reason: error.message,
+		signature: error.data?.slice(0, 10),
+		data: error.data?.substring(10),
+	};
+	if (isNullish(error.errorName)) {
+		return revert;
+	}
+	return {
+		...revert,
+		customErrorName: error.errorName,
+		customErrorDecodedSignature: error.errorSignature,
+		customErrorArguments: error.errorArgs,
+	} as RevertReasonWithCustomError;
+};
+
+const simulateCall = (
+	abis: ContractAbis,
+	frame: CallFrameAPI,
+	events: SimulatedEvent[],
+	balanceChanges: Map<Address, bigint>,
+	reverted: boolean,
+): SimulatedCall => {
+	const value = BigInt(frame.value ?? 0);
+	// The events and transfers of a reverted call are dropped with the ones of its nested calls
+	const failed = reverted || !isNullish(frame.error);
+	const isCreation = frame.type.startsWith('CREATE');
+
+	if (!failed && value > BigInt(0) && valueCallTypes.includes(frame.type) && frame.to) {
+		const from = frame.from.toLowerCase();
+		const to = frame.to.toLowerCase();
+		balanceChanges.set(from, (balanceChanges.get(from) ?? BigInt(0)) - value);
+		balanceChanges.set(to, (balanceChanges.get(to) ?? BigInt(0)) + value);
+	}
+
+	// The logs are emitted between the nested calls, after the number of calls of their position
+	const logs = failed ? [] : frame.logs ?? [];
+	const emitLogs = (position: number) => {
+		for (const log of logs) {
+			if (Number(log.position ?? 0) === position) {
+				events.push(decodeEvent(abis, log));
+			}
+		}
+	};
+
+	const calls = (frame.calls ?? []).map((nested, index) => {
+		emitLogs(index);
+		return simulateCall(abis, nested, events, balanceChanges, failed);
+	});
+	emitLogs(calls.length);
+
+	return {
+		type: frame.type,
+		from: frame.from,
+		to: frame.to,
+		value,
+		gasUsed: BigInt(frame.gasUsed),
+		input: frame.input,
+		output: frame.output,
+		method: isCreation ? undefined : decodeMethod(abis, frame.to, frame.input),
+		revert: isNullish(frame.error) ? undefined : decodeRevert(abis, frame),
+		calls,
+	};
+};
+
+const formatTraceOptions = (overrides: CallOverrides = {}): TraceCallOptionsAPI => {
+	const { stateOverride, blockOverrides } = overrides;
+	return {
+		tracer: 'callTracer',
+		tracerConfig: { withLog: true },
+		...(isNullish(stateOverride) ? {} : { stateOverrides: formatStateOverride(stateOverride) }),
+		...(isNullish(blockOverrides)
+			? {}
+			: { blockOverrides: formatBlockOverrides(blockOverrides) }),
+	};
+};
+
+const traceTransaction = async (
+	web3Context: Web3Context<Web3EthExecutionAPI>,
+	abis: ContractAbis,
+	transaction: Transaction,
+	block: BlockNumberOrTag,
+	overrides?: CallOverrides,
+): Promise<TransactionSimulation> => {
+	const blockNumberFormatted = isBlockTag(block as string)
+		? (block as BlockTag)
+		: format({ format: 'uint' }, block as Numbers, ETH_DATA_FORMAT);
+
+	const frame = await ethRpcMethods.traceCall(
+		web3Context.requestManager,
+		formatTransaction(transaction, ETH_DATA_FORMAT) as TransactionCallAPI,
+		blockNumberFormatted,
+		formatTraceOptions(overrides),
+	);
+
+	const events: SimulatedEvent[] = [];
+	const balanceChanges = new Map<Address, bigint>();
+	const root = simulateCall(abis, frame, events, balanceChanges, false);
+
+	return {
+		traced: true,
+		success: isNullish(root.revert),
+		gasUsed: root.gasUsed,
+		returnData: isNullish(root.revert) ? root.output : undefined,
+		call: root,
+		events,
+		// The transfers between the same accounts may cancel each other
+		balanceChanges: Object.fromEntries(
+			[...balanceChanges].filter(([, change]) => change !== BigInt(0)),
+		),
+		revert: root.revert,
+	};
+};
+
+const callTransaction = async (
+	web3Context: Web3Context<Web3EthExecutionAPI>,
+	abis: ContractAbis,
+	transaction: Transaction,
+	block: BlockNumberOrTag,
+	overrides?: CallOverrides,
+): Promise<TransactionSimulation> => {
+	const formattedTransaction = formatTransaction(transaction, ETH_DATA_FORMAT);
+	const value = BigInt(formattedTransaction.value ?? 0);
+	const from = formattedTransaction.from ?? '';
+	const to = formattedTransaction.to ?? undefined;
+	const input = formattedTransaction.input ?? formattedTransaction.data ?? '0x';
+	const root: SimulatedCall = {
+		type: isNullish(to) ? 'CREATE' : 'CALL',
+		from,
+		to,
+		value,
+		input,
+		method: isNullish(to) ? undefined : decodeMethod(abis, to, input),
+		calls: [],
+	};
+
+	let returnData: HexString;
+	try {
+		returnData = await call(
+			web3Context,
+			transaction as TransactionCall,
+			block,
+			DEFAULT_RETURN_FORMAT,
+			overrides,
+		);
+	} catch (error) {
+		if (!(error instanceof ContractExecutionError)) {
+			throw error;
+		}
+		const revert = parseTransactionError(error, abis.fragments(to)) as
+			| RevertReason
+			| RevertReasonWithCustomError;
+		return {
+			traced: false,
+			success: false,
+			call: { ...root, revert },
+			events: [],
+			balanceChanges: {},
+			revert,
+		};
+	}
+
+	const gasUsed = await estimateGas(
+		web3Context,
+		transaction,
+		block,
+		DEFAULT_RETURN_FORMAT,
+		overrides,
+	);
+	const balanceChanges: Record<Address, bigint> = {};
+	if (value > BigInt(0) && !isNullish(to)) {
+		balanceChanges[from.toLowerCase()] = -value;
+		balanceChanges[to.toLowerCase()] = value;
+	}
+
+	return {
+		traced: false,
+		success: true,
+		gasUsed,
+		returnData,
+		call: { ...root, gasUsed, output: returnData },
+		events: [],
+		balanceChanges,
+	};
+};
+
+/**
+ * Simulates a transaction without sending it, to preview its nested calls, its events, the changes of the balances and its revert.
+ * The transaction is traced with the `callTracer` of `debug_traceCall`, the calls and events are decoded with the ABIs of the given contracts.
+ * If the node does not support `debug_traceCall`, the transaction is only executed with `eth_call` and `eth_estimateGas`,
+ * so that only its top call, its revert and its direct transfer are known.
+ *
+ * ```ts
+ * const simulation = await simulateTransaction(web3.eth, tx, { contracts: [token, router] });
+ * if (!simulation.success) {
+ *   console.log(simulation.revert?.customErrorName ?? simulation.revert?.reason);
+ * }
+ * simulation.events.forEach(({ event, returnValues }) => console.log(event, returnValues));
+ * ```
+ *
+ * @param web3Context ({@link Web3Context}) Web3 configuration object that contains things such as the provider, request manager, wallet, etc.
+ * @param transaction - The transaction to simulate
+ * @param options - ({@link SimulateTransactionOptions}) The contracts decoding the calls and events, the block and the overrides of the simulation
+ * @returns The {@link TransactionSimulation}
+ */
+export async function simulateTransaction(
+	web3Context: Web3Context<Web3EthExecutionAPI>,
+	transaction: Transaction,
+	options: SimulateTransactionOptions = {},
+): Promise<TransactionSimulation> {
+	const abis = new ContractAbis(options.contracts ?? []);
+	const block = options.block ?? web3Context.defaultBlock;
+
+	if (options.trace ?? true) {
+		try {
+			return await traceTransaction(web3Context, abis, transaction, block, options.overrides);
+		} catch (error) {
+			if (!isTraceUnsupportedError(error)) {
+				throw error;
+			}
+		}
+	}
+
+	return callTransaction(web3Context, abis, transaction, block, options.overrides);
+}
@@ -217,7 +217,9 @@ export async function defaultTransactionBuilder<ReturnType = Transaction>(option
 	populatedTransaction.type = getTransactionType(populatedTransaction, options.web3Context);
 	if (
 		isNullish(populatedTransaction.accessList) &&
-		(populatedTransaction.type === '0x1' || populatedTransaction.type === '0x2')
+		(populatedTransaction.type === '0x1' ||
+			populatedTransaction.type === '0x2' ||
+			populatedTransaction.type === '0x40')
 	) {
 		populatedTransaction.accessList = [];
 	}
@@ -225,7 +225,10 @@ export const validateFeeMarketGas = (transaction: InternalTransaction) => {
 	// These errors come from 1.x, so they must be checked before
 	// InvalidMaxPriorityFeePerGasOrMaxFeePerGas to throw the same error
 	// for the same code executing in 1.x
-	if (!isNullish(transaction.gasPrice) && transaction.type === '0x2')
+	if (
+		!isNullish(transaction.gasPrice) &&
+		(transaction.type === '0x2' || transaction.type === '0x40')
+	)
 		throw new Eip1559GasPriceError(transaction.gasPrice);
 	if (transaction.type === '0x0' || transaction.type === '0x1')
 		throw new UnsupportedFeeMarketError({
@@ -247,7 +250,7 @@ export const validateFeeMarketGas = (transaction: InternalTransaction) => {
 
 /**
  * This method checks if all required gas properties are present for either
- * legacy gas (type 0x0 and 0x1) OR fee market transactions (0x2)
+ * legacy gas (type 0x0 and 0x1) OR fee market transactions (0x2 and 0x40)
  */
 export const validateGas = (transaction: InternalTransaction) => {
 	const gasPresent = !isNullish(transaction.gas) || !isNullish(transaction.gasLimit);
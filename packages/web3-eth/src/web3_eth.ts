@@ -27,6 +27,7 @@ import {
 	HexString8Bytes,
 	Numbers,
 	BlockNumberOrTag,
+	CallOverrides,
 	LogsOutput,
 	Transaction,
 	TransactionCall,
@@ -46,6 +47,8 @@ import { ethRpcMethods } from '@etn-sc/web3-rpc-methods';
 
 import * as rpcMethodsWrappers from './rpc_method_wrappers.js';
 import { SendTransactionOptions } from './types.js';
+import { paginateLogs, PaginateLogsOptions } from './utils/paginate_logs.js';
+import { simulateTransaction, SimulateTransactionOptions } from './utils/simulate_transaction.js';
 import {
 	LogsSubscription,
 	NewPendingTransactionsSubscription,
@@ -863,6 +866,11 @@ export class Web3Eth extends Web3Context<Web3EthExecutionAPI, RegisteredSubscrip
 	 * // Example using options.ignoreGasPricing = true
 	 * web3.eth.sendTransaction(transaction, undefined, { ignoreGasPricing: true }).then(console.log);
 	 * > 0xdf7756865c2056ce34c4eabe4eff42ad251a9f920a1c620c00b4ea0988731d3f
+	 *
+	 * // Example sending an ETNIP-1 priority transaction from an account in the local wallet
+	 * // (the chain and hardfork are taken from the chain id of an Electroneum node, unless set otherwise)
+	 * web3.eth.sendTransaction({ ...transaction, type: '0x40' }, undefined, { priorityPrivateKey: '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318' }).then(console.log);
+	 * > 0xdf7756865c2056ce34c4eabe4eff42ad251a9f920a1c620c00b4ea0988731d3f
 	 * ```
 	 *
 	 *
@@ -1149,14 +1157,29 @@ export class Web3Eth extends Web3Context<Web3EthExecutionAPI, RegisteredSubscrip
 	 * @param transaction - A transaction object where all properties are optional except `to`, however it's recommended to include the `from` property or it may default to `0x0000000000000000000000000000000000000000` depending on your node or provider.
 	 * @param blockNumber ({@link BlockNumberOrTag} defaults to {@link Web3Eth.defaultBlock}) - Specifies what block to use as the current state of the blockchain while processing the transaction.
 	 * @param returnFormat ({@link DataFormat} defaults to {@link DEFAULT_RETURN_FORMAT}) - Specifies how the return data from the call should be formatted.
+	 * @param overrides ({@link CallOverrides}) - The state of the accounts and the fields of the block to override while processing the transaction, if supported by the node.
 	 * @returns The returned data of the call, e.g. a smart contract function's return value.
+	 *
+	 * ```ts
+	 * web3.eth.call(
+	 *     { from: '0xe899f0130FD099c0b896B2cE4E5E15A25b23139a', to: '0x11f4d0A3c12e86B4b5F39B213F7E19D048276DAe', data: '0x...' },
+	 *     'latest',
+	 *     DEFAULT_RETURN_FORMAT,
+	 *     {
+	 *         stateOverride: { '0xe899f0130FD099c0b896B2cE4E5E15A25b23139a': { balance: '0xde0b6b3a7640000' } },
+	 *         blockOverrides: { time: 1700000000 },
+	 *     },
+	 * ).then(console.log);
+	 * > '0x...'
+	 * ```
 	 */
 	public async call<ReturnFormat extends DataFormat = typeof DEFAULT_RETURN_FORMAT>(
 		transaction: TransactionCall,
 		blockNumber: BlockNumberOrTag = this.defaultBlock,
 		returnFormat: ReturnFormat = DEFAULT_RETURN_FORMAT as ReturnFormat,
+		overrides?: CallOverrides,
 	) {
-		return rpcMethodsWrappers.call(this, transaction, blockNumber, returnFormat);
+		return rpcMethodsWrappers.call(this, transaction, blockNumber, returnFormat, overrides);
 	}
 
 	/**
@@ -1167,6 +1190,7 @@ export class Web3Eth extends Web3Context<Web3EthExecutionAPI, RegisteredSubscrip
 	 * @param transaction The {@link Transaction} object to estimate the gas for.
 	 * @param blockNumber ({@link BlockNumberOrTag} defaults to {@link Web3Eth.defaultBlock}) - Specifies what block to use as the current state of the blockchain while processing the gas estimation.
 	 * @param returnFormat ({@link DataFormat} defaults to {@link DEFAULT_RETURN_FORMAT}) - Specifies how the return data from the call should be formatted.
+	 * @param overrides ({@link CallOverrides}) - The state of the accounts and the fields of the block to override while processing the gas estimation, if supported by the node.
 	 * @returns The used gas for the simulated transaction execution.
 	 *
 	 * ```ts
@@ -1189,8 +1213,52 @@ export class Web3Eth extends Web3Context<Web3EthExecutionAPI, RegisteredSubscrip
 		transaction: Transaction,
 		blockNumber: BlockNumberOrTag = this.defaultBlock,
 		returnFormat: ReturnFormat = DEFAULT_RETURN_FORMAT as ReturnFormat,
+		overrides?: CallOverrides,
+	) {
+		return rpcMethodsWrappers.estimateGas(
+			this,
+			transaction,
+			blockNumber,
+			returnFormat,
+			overrides,
+		);
+	}
+
+	/**
+	 * Simulates the transaction without sending it, to preview its nested calls, the events it emits, the changes of the balances and its revert.
+	 * The transaction is traced with the `callTracer` of `debug_traceCall`, and falls back to {@link Web3Eth.call} and {@link Web3Eth.estimateGas}
+	 * if the node does not support it, in which case only the top call, the revert and the direct transfer of the transaction are known.
+	 *
+	 * @param transaction The {@link Transaction} object to simulate.
+	 * @param options ({@link SimulateTransactionOptions}) - The contracts whose ABIs decode the calls, events and custom errors, the block and the overrides of the simulation.
+	 * @returns The {@link TransactionSimulation}, with the decoded calls and events, the balance changes and the revert reason.
+	 *
+	 * ```ts
+	 * const token = new web3.eth.Contract(ERC20Abi, tokenAddress);
+	 * const simulation = await web3.eth.simulateTransaction(
+	 *     { from: account, to: tokenAddress, input: token.methods.transfer(recipient, 100).encodeABI() },
+	 *     { contracts: [token] },
+	 * );
+	 * console.log(simulation.success, simulation.events.map(({ event }) => event));
+	 * > true ['Transfer']
+	 *
+	 * // with a custom error `InsufficientBalance(uint256 available, uint256 required)`
+	 * console.log(simulation.revert);
+	 * > {
+	 *     reason: 'execution reverted',
+	 *     signature: '0xcf479181',
+	 *     data: '00000000...',
+	 *     customErrorName: 'InsufficientBalance',
+	 *     customErrorDecodedSignature: 'InsufficientBalance(uint256,uint256)',
+	 *     customErrorArguments: { available: 0n, required: 100n, ... }
+	 *   }
+	 * ```
+	 */
+	public async simulateTransaction(
+		transaction: Transaction,
+		options: SimulateTransactionOptions = {},
 	) {
-		return rpcMethodsWrappers.estimateGas(this, transaction, blockNumber, returnFormat);
+		return simulateTransaction(this, transaction, options);
 	}
 
 	/**
@@ -1244,6 +1312,35 @@ export class Web3Eth extends Web3Context<Web3EthExecutionAPI, RegisteredSubscrip
 		return rpcMethodsWrappers.getLogs(this, filter, returnFormat);
 	}
 
+	/**
+	 * Gets past logs matching the provided `filter` page by page, for the ranges of blocks too large for a single {@link Web3Eth.getPastLogs}.
+	 * The range of each `eth_getLogs` request is halved when the node rejects it, and doubled after each page.
+	 *
+	 * @param filter A {@link Filter} object containing the properties for the desired logs.
+	 * @param options ({@link PaginateLogsOptions}) The ranges of the requests, and the checkpoint of a previous scan to resume.
+	 * @param returnFormat ({@link DataFormat} defaults to {@link DEFAULT_RETURN_FORMAT}) - Specifies how the return data from the call should be formatted.
+	 * @returns An async iterator of the {@link LogsPage}, with the logs of a range of blocks and the checkpoint to resume after it.
+	 *
+	 * ```ts
+	 * for await (const page of web3.eth.iteratePastLogs(
+	 *     { address: "0x11f4d0A3c12e86B4b5F39B213F7E19D048276DAe", fromBlock: 0, toBlock: 'latest' },
+	 *     { initialRange: 5000, checkpoint: savedCheckpoint },
+	 * )) {
+	 *     console.log(page.fromBlock, page.toBlock, page.logs.length);
+	 *     savedCheckpoint = page.checkpoint;
+	 * }
+	 * > 0n 4999n 12
+	 * > 5000n 14999n 3
+	 * ```
+	 */
+	public iteratePastLogs<ReturnFormat extends DataFormat = typeof DEFAULT_RETURN_FORMAT>(
+		filter: Filter,
+		options: PaginateLogsOptions = {},
+		returnFormat: ReturnFormat = DEFAULT_RETURN_FORMAT as ReturnFormat,
+	) {
+		return paginateLogs(this, filter, options, returnFormat);
+	}
+
 	/**
 	 * Gets work for miners to mine on. Returns the hash of the current block, the seedHash, and the boundary condition to be met ('target').
 	 *
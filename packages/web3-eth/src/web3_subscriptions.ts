@@ -38,10 +38,13 @@ import { blockHeaderSchema, logSchema, syncSchema } from './schemas.js';
  * - `address`: (optional) Contract address or a list of addresses from which logs should originate.
  * - `topics`: (optional) Array of 32 Bytes DATA topics. Topics are order-dependent. Each topic can also be an array of DATA with `or` options.
  *
+ * The logs removed from the chain by a reorganization are emitted with the `changed` event instead of `data`, they have the property `removed: true`.
+ *
  */
 export class LogsSubscription extends Web3Subscription<
 	{
 		data: LogsOutput;
+		changed: LogsOutput & { removed: true };
 	},
 	{
 		readonly fromBlock?: BlockNumberOrTag;
@@ -56,6 +59,18 @@ export class LogsSubscription extends Web3Subscription<
 	protected formatSubscriptionResult(data: LogsOutput) {
 		return format(logSchema, data, super.returnFormat);
 	}
+
+	public _processSubscriptionResult(data: LogsOutput) {
+		if (data.removed) {
+			this.emit(
+				'changed',
+				this.formatSubscriptionResult(data) as LogsOutput & { removed: true },
+			);
+			return;
+		}
+
+		super._processSubscriptionResult(data);
+	}
 }
 
 /**
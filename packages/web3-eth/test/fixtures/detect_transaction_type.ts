@@ -209,6 +209,107 @@ export const transactionType0x2: FormatType<Transaction, typeof ETH_DATA_FORMAT>
 	},
 ];
 
+export const transactionType0x40: FormatType<Transaction, typeof ETH_DATA_FORMAT>[] = [
+	{
+		from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+		to: '0x3535353535353535353535353535353535353535',
+		value: '0x174876e800',
+		gas: '0x5208',
+		type: '0x40',
+		data: '0x0',
+		nonce: '0x4',
+		chainId: '0xcb2e',
+		gasLimit: '0x5208',
+	},
+	{
+		from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+		to: '0x3535353535353535353535353535353535353535',
+		value: '0x174876e800',
+		gas: '0x5208',
+		type: '0x40',
+		maxFeePerGas: '0x1229298c00',
+		maxPriorityFeePerGas: '0x49504f80',
+		data: '0x0',
+		nonce: '0x4',
+		chainId: '0xcb2e',
+		gasLimit: '0x5208',
+		accessList: [],
+	},
+	{
+		from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+		to: '0x3535353535353535353535353535353535353535',
+		value: '0x174876e800',
+		type: '0x40',
+		nonce: '0x4',
+		chainId: '0xcb2e',
+		gasLimit: '0x5208',
+		chain: 'electroneum',
+		hardfork: 'priority',
+	},
+	{
+		from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+		to: '0x3535353535353535353535353535353535353535',
+		value: '0x174876e800',
+		type: '0x40',
+		nonce: '0x4',
+		gasLimit: '0x5208',
+		common: {
+			customChain: { name: 'custom-network', chainId: '0x4d2', networkId: '0x4d2' },
+			baseChain: 'electroneum',
+			hardfork: 'priority',
+		},
+	},
+];
+
+export const transactionType0x40NotSupported: FormatType<Transaction, typeof ETH_DATA_FORMAT>[] = [
+	{
+		from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+		to: '0x3535353535353535353535353535353535353535',
+		value: '0x174876e800',
+		type: '0x40',
+		nonce: '0x4',
+		chainId: '0xcb2e',
+		gasLimit: '0x5208',
+		chain: 'mainnet',
+		hardfork: 'london',
+	},
+	{
+		from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+		to: '0x3535353535353535353535353535353535353535',
+		value: '0x174876e800',
+		type: '0x40',
+		nonce: '0x4',
+		chainId: '0xcb2e',
+		gasLimit: '0x5208',
+		chain: 'electroneum',
+		hardfork: 'london',
+	},
+	{
+		from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+		to: '0x3535353535353535353535353535353535353535',
+		value: '0x174876e800',
+		type: '0x40',
+		nonce: '0x4',
+		chainId: '0x1',
+		gasLimit: '0x5208',
+		chain: 'mainnet',
+		hardfork: 'london',
+	},
+	{
+		from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+		to: '0x3535353535353535353535353535353535353535',
+		value: '0x174876e800',
+		type: '0x40',
+		nonce: '0x4',
+		gasLimit: '0x5208',
+		common: {
+			customChain: { name: 'custom-network', chainId: '0x1', networkId: '0x1' },
+			baseChain: 'mainnet',
+			hardfork: 'priority',
+		},
+	},
+];
+
 export const transactionTypeUndefined: FormatType<Transaction, typeof ETH_DATA_FORMAT>[] = [
 	{
 		from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
@@ -388,4 +489,16 @@ export const transactionTypeValidationError: FormatType<Transaction, typeof ETH_
 		gasPrice: '0x123',
 		type: '0x2',
 	},
+	{
+		from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+		to: '0x3535353535353535353535353535353535353535',
+		value: '0x174876e800',
+		gas: '0x5208',
+		data: '0x0',
+		nonce: '0x4',
+		chainId: '0xcb2e',
+		gasLimit: '0x5208',
+		gasPrice: '0x123',
+		type: '0x40',
+	},
 ];
@@ -0,0 +1,141 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Web3Context } from '@etn-sc/web3-core';
+import { BlockHeaderOutput } from '@etn-sc/web3-types';
+import { BlockTracker, BlockTrackerHeader, ChainReorg } from '../../src/block_tracker';
+import * as rpcMethodWrappers from '../../src/rpc_method_wrappers';
+
+jest.mock('../../src/rpc_method_wrappers');
+
+const header = (number: number, fork = '', parentFork = fork) =>
+	({
+		number: BigInt(number),
+		hash: `0x${fork}${number}`,
+		parentHash: `0x${parentFork}${number - 1}`,
+	} as unknown as BlockHeaderOutput);
+
+describe('BlockTracker', () => {
+	let tracker: BlockTracker;
+	let blocks: BlockTrackerHeader[];
+	let reorgs: ChainReorg[];
+
+	beforeEach(async () => {
+		tracker = new BlockTracker(new Web3Context('http://127.0.0.1:8545'), { windowSize: 4 });
+		blocks = [];
+		reorgs = [];
+		tracker.on('block', block => {
+			blocks.push(block);
+		});
+		tracker.on('reorg', reorg => {
+			reorgs.push(reorg);
+		});
+
+		await tracker.addBlock(header(1));
+		await tracker.addBlock(header(2));
+		await tracker.addBlock(header(3));
+		blocks = [];
+	});
+
+	it('should track the blocks extending the chain', async () => {
+		await tracker.addBlock(header(4));
+		await tracker.addBlock(header(4));
+
+		expect(blocks).toEqual([header(4)]);
+		expect(tracker.head).toEqual(header(4));
+		expect(reorgs).toHaveLength(0);
+	});
+
+	it('should fetch the missed blocks', async () => {
+		jest.spyOn(rpcMethodWrappers, 'getBlock').mockResolvedValueOnce(header(4) as never);
+
+		await tracker.addBlock(header(5));
+
+		expect(rpcMethodWrappers.getBlock).toHaveBeenCalledWith(
+			expect.anything(),
+			'0x4',
+			false,
+			expect.anything(),
+		);
+		expect(blocks).toEqual([header(4), header(5)]);
+		expect(reorgs).toHaveLength(0);
+	});
+
+	it('should emit the dropped and added blocks of a reorganization', async () => {
+		jest.spyOn(rpcMethodWrappers, 'getBlock').mockResolvedValueOnce(
+			header(3, 'b', '') as never,
+		);
+
+		await tracker.addBlock(header(4, 'b'));
+
+		expect(reorgs).toEqual([
+			{ dropped: [header(3)], added: [header(3, 'b', ''), header(4, 'b')] },
+		]);
+		expect(blocks).toEqual([header(3, 'b', ''), header(4, 'b')]);
+		expect(tracker.head).toEqual(header(4, 'b'));
+	});
+
+	it('should drop the whole window on a reorganization deeper than the window', async () => {
+		jest.spyOn(rpcMethodWrappers, 'getBlock')
+			.mockResolvedValueOnce(header(2, 'b') as never)
+			.mockResolvedValueOnce(header(1, 'b', '') as never);
+
+		await tracker.addBlock(header(3, 'b'));
+
+		expect(reorgs).toEqual([
+			{
+				dropped: [header(1), header(2), header(3)],
+				added: [header(1, 'b', ''), header(2, 'b'), header(3, 'b')],
+			},
+		]);
+	});
+
+	it('should reset the window on a gap larger than the window', async () => {
+		jest.spyOn(rpcMethodWrappers, 'getBlock')
+			.mockResolvedValueOnce(header(9) as never)
+			.mockResolvedValueOnce(header(8) as never)
+			.mockResolvedValueOnce(header(7) as never);
+
+		await tracker.addBlock(header(10));
+		await tracker.addBlock(header(11));
+
+		expect(reorgs).toHaveLength(0);
+		expect(blocks).toEqual([header(7), header(8), header(9), header(10), header(11)]);
+		expect(tracker.head).toEqual(header(11));
+	});
+
+	it('should skip a block whose parent is not known by the node anymore', async () => {
+		jest.spyOn(rpcMethodWrappers, 'getBlock').mockResolvedValueOnce(undefined as never);
+
+		await tracker.addBlock(header(5, 'b'));
+
+		expect(reorgs).toHaveLength(0);
+		expect(blocks).toHaveLength(0);
+		expect(tracker.head).toEqual(header(3));
+	});
+
+	it('should subscribe to the new heads', async () => {
+		const context = new Web3Context('http://127.0.0.1:8545');
+		const addSubscription = jest
+			.spyOn(context.subscriptionManager, 'addSubscription')
+			.mockResolvedValue('0x1');
+		tracker = new BlockTracker(context);
+
+		await tracker.start();
+		expect(addSubscription).toHaveBeenCalledTimes(1);
+	});
+});
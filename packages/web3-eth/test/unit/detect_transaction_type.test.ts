@@ -14,7 +14,10 @@ GNU Lesser General Public License for more details.
 You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
-import { InvalidPropertiesForTransactionTypeError } from '@etn-sc/web3-errors';
+import {
+	InvalidPropertiesForTransactionTypeError,
+	PriorityTransactionNotSupportedError,
+} from '@etn-sc/web3-errors';
 import { Web3Context } from '@etn-sc/web3-core';
 import { EthExecutionAPI } from '@etn-sc/web3-types';
 import HttpProvider from '@etn-sc/web3-providers-http';
@@ -24,6 +27,8 @@ import {
 	transactionType0x0,
 	transactionType0x1,
 	transactionType0x2,
+	transactionType0x40,
+	transactionType0x40NotSupported,
 	transactionTypeUndefined,
 	transactionTypeValidationError,
 } from '../fixtures/detect_transaction_type';
@@ -63,6 +68,26 @@ describe('detectTransactionType', () => {
 		});
 	});
 
+	describe('should detect transaction type 0x40', () => {
+		const web3Context = new Web3Context<EthExecutionAPI>({
+			provider: new HttpProvider('http://127.0.0.1:80'),
+		});
+		it.each(transactionType0x40)('%s', async transaction => {
+			expect(detectTransactionType(transaction, web3Context)).toBe('0x40');
+		});
+	});
+
+	describe('should refuse transaction type 0x40 where priority transactions are not live', () => {
+		const web3Context = new Web3Context<EthExecutionAPI>({
+			provider: new HttpProvider('http://127.0.0.1:80'),
+		});
+		it.each(transactionType0x40NotSupported)('%s', async transaction => {
+			expect(() => detectTransactionType(transaction, web3Context)).toThrow(
+				PriorityTransactionNotSupportedError,
+			);
+		});
+	});
+
 	describe('should not be able to detect transaction type, returning undefined', () => {
 		const web3Context = new Web3Context<EthExecutionAPI>({
 			provider: new HttpProvider('http://127.0.0.1:80'),
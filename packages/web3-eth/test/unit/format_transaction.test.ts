@@ -14,8 +14,15 @@ GNU Lesser General Public License for more details.
 You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
-import { DEFAULT_RETURN_FORMAT, FMT_BYTES, FMT_NUMBER, Transaction } from '@etn-sc/web3-types';
+import {
+	DEFAULT_RETURN_FORMAT,
+	FMT_BYTES,
+	FMT_NUMBER,
+	Transaction,
+	TransactionInfo,
+} from '@etn-sc/web3-types';
 import { TransactionDataAndInputError } from '@etn-sc/web3-errors';
+import { hexToBytes } from '@etn-sc/web3-utils';
 
 import { formatTransaction } from '../../src/utils/format_transaction';
 import {
@@ -95,6 +102,36 @@ describe('formatTransaction', () => {
 		}
 	});
 
+	it('should format the priority signature of a type 0x40 transaction', () => {
+		const transaction: TransactionInfo = {
+			from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+			hash: '0x2a0bbd4bc8fbd0a2a3e5ea5d79fa9e4f82e5d33f7a5e1b1c8c2b5f4e1a6d7c8b',
+			type: '0x40',
+			priorityV: '0x1',
+			priorityR: '0x4f4c17305743700648bc4f6cd3038ec6f6af0df73e31757007b7f59df7bee88d',
+			priorityS: '0x7e1941b264348e80c78c4027afc65a87b0a5e43e86742b8ca0823584c6788fd0',
+		};
+
+		expect(
+			formatTransaction(transaction, { number: FMT_NUMBER.NUMBER, bytes: FMT_BYTES.HEX }),
+		).toMatchObject({
+			type: 64,
+			priorityV: 1,
+			priorityR: transaction.priorityR,
+			priorityS: transaction.priorityS,
+		});
+		expect(
+			formatTransaction(transaction, {
+				number: FMT_NUMBER.BIGINT,
+				bytes: FMT_BYTES.UINT8ARRAY,
+			}),
+		).toMatchObject({
+			priorityV: BigInt(1),
+			priorityR: hexToBytes(transaction.priorityR as string),
+			priorityS: hexToBytes(transaction.priorityS as string),
+		});
+	});
+
 	it('Should throw a TransactionDataAndInputError error', () => {
 		const transaction: Transaction = {
 			data: '0x00',
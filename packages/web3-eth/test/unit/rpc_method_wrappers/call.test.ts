@@ -81,4 +81,25 @@ describe('call', () => {
 			expect(result).toStrictEqual(expectedFormattedResult);
 		},
 	);
+
+	it('should call rpcMethods.call with the formatted overrides', async () => {
+		const [[, [inputTransaction, inputBlockNumber]]] = testData;
+		const address = '0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc';
+		const slot = '0x0000000000000000000000000000000000000000000000000000000000000001';
+
+		await call(web3Context, inputTransaction, inputBlockNumber, DEFAULT_RETURN_FORMAT, {
+			stateOverride: {
+				[address]: { balance: BigInt(1000), nonce: 2, stateDiff: { [slot]: slot } },
+			},
+			blockOverrides: { number: 1207, time: BigInt(1700000000) },
+		});
+
+		expect(ethRpcMethods.call).toHaveBeenLastCalledWith(
+			web3Context.requestManager,
+			formatTransaction(inputTransaction, ETH_DATA_FORMAT),
+			format({ format: 'uint' }, inputBlockNumber, ETH_DATA_FORMAT),
+			{ [address]: { balance: '0x3e8', nonce: '0x2', stateDiff: { [slot]: slot } } },
+			{ number: '0x4b7', time: '0x6553f100' },
+		);
+	});
 });
@@ -19,6 +19,7 @@ import {
 	DEFAULT_RETURN_FORMAT,
 	EthExecutionAPI,
 	JsonRpcResponse,
+	Transaction,
 	TransactionReceipt,
 	Web3BaseWalletAccount,
 } from '@etn-sc/web3-types';
@@ -26,8 +27,11 @@ import { Web3Context, Web3EventMap, Web3PromiEvent } from '@etn-sc/web3-core';
 import {
 	ContractExecutionError,
 	InvalidResponseError,
+	MissingPrioritySignerError,
+	PriorityTransactionNotSupportedError,
 	TransactionRevertInstructionError,
 } from '@etn-sc/web3-errors';
+import { recoverTransaction } from '@etn-sc/web3-eth-accounts';
 import { SendTxHelper } from '../../src/utils/send_tx_helper';
 import { getTransactionError } from '../../src/utils/get_transaction_error';
 import { getTransactionGasPricing } from '../../src/utils/get_transaction_gas_pricing';
@@ -245,4 +249,132 @@ describe('sendTxHelper class', () => {
 		expect(utils.trySendTransaction).toHaveBeenCalled();
 		expect(wallet.signTransaction).toHaveBeenCalledWith(receipt);
 	});
+	describe('priority transactions', () => {
+		const wallet = {
+			address: '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23',
+			privateKey: '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318',
+			signTransaction: jest.fn(),
+		};
+		const priorityTx: Transaction = {
+			from: wallet.address,
+			to: '0x3535353535353535353535353535353535353535',
+			value: '0x1',
+			gas: '0x5208',
+			maxFeePerGas: '0x1229298c00',
+			maxPriorityFeePerGas: '0x49504f80',
+			type: '0x40',
+			nonce: '0x0',
+			chainId: '0xcb2e',
+			networkId: '0xcb2e',
+			chain: 'electroneum',
+			hardfork: 'priority',
+		};
+		it('signAndSend should throw if no priority private key is configured', async () => {
+			await expect(
+				sendTxHelper.signAndSend({
+					tx: priorityTx,
+					wallet: wallet as unknown as Web3BaseWalletAccount,
+				}),
+			).rejects.toThrow(MissingPrioritySignerError);
+			expect(wallet.signTransaction).not.toHaveBeenCalled();
+		});
+		it('signAndSend should sign with the sender and the priority private key', async () => {
+			jest.spyOn(utils, 'trySendTransaction').mockResolvedValue('success');
+			const _sendTxHelper = new SendTxHelper({
+				web3Context,
+				promiEvent: promiEvent as PromiEvent,
+				options: {
+					priorityPrivateKey:
+						'0x348ce564d427a3311b6536bbcff9390d69395b06ed6c486954e971d960fe8709',
+				},
+				returnFormat: DEFAULT_RETURN_FORMAT,
+			});
+			const signSpy = jest.spyOn(_sendTxHelper, 'signPriorityTransaction');
+
+			const result = await _sendTxHelper.signAndSend({
+				tx: priorityTx,
+				wallet: wallet as unknown as Web3BaseWalletAccount,
+			});
+			expect(result).toBe('success');
+			expect(wallet.signTransaction).not.toHaveBeenCalled();
+
+			const signedTransaction = await signSpy.mock.results[0].value;
+			expect(signedTransaction.rawTransaction).toMatch(/^0x40/);
+			expect(signedTransaction.priorityV).toBeDefined();
+			expect(recoverTransaction(signedTransaction.rawTransaction)).toBe(wallet.address);
+		});
+		it('signAndSend should take the chain and hardfork of the chain id with the default config', async () => {
+			jest.spyOn(utils, 'trySendTransaction').mockResolvedValue('success');
+			const _sendTxHelper = new SendTxHelper({
+				web3Context: new Web3Context<EthExecutionAPI>(),
+				promiEvent: promiEvent as PromiEvent,
+				options: {
+					priorityPrivateKey:
+						'0x348ce564d427a3311b6536bbcff9390d69395b06ed6c486954e971d960fe8709',
+				},
+				returnFormat: DEFAULT_RETURN_FORMAT,
+			});
+			const signSpy = jest.spyOn(_sendTxHelper, 'signPriorityTransaction');
+
+			await _sendTxHelper.signAndSend({
+				tx: { ...priorityTx, chain: undefined, hardfork: undefined },
+				wallet: wallet as unknown as Web3BaseWalletAccount,
+			});
+
+			const signedTransaction = await signSpy.mock.results[0].value;
+			expect(recoverTransaction(signedTransaction.rawTransaction)).toBe(wallet.address);
+		});
+		it('signAndSend should refuse a chain id not activating ETNIP-1', async () => {
+			const _sendTxHelper = new SendTxHelper({
+				web3Context: new Web3Context<EthExecutionAPI>(),
+				promiEvent: promiEvent as PromiEvent,
+				options: {
+					priorityPrivateKey:
+						'0x348ce564d427a3311b6536bbcff9390d69395b06ed6c486954e971d960fe8709',
+				},
+				returnFormat: DEFAULT_RETURN_FORMAT,
+			});
+
+			await expect(
+				_sendTxHelper.signAndSend({
+					tx: {
+						...priorityTx,
+						chainId: '0x1',
+						networkId: '0x1',
+						chain: undefined,
+						hardfork: undefined,
+					},
+					wallet: wallet as unknown as Web3BaseWalletAccount,
+				}),
+			).rejects.toThrow(PriorityTransactionNotSupportedError);
+		});
+		it('signAndSend should use the priority signer registered in the wallet', async () => {
+			jest.spyOn(utils, 'trySendTransaction').mockResolvedValue('success');
+			const getPrioritySigner = jest.fn().mockReturnValue({
+				privateKey: '0x348ce564d427a3311b6536bbcff9390d69395b06ed6c486954e971d960fe8709',
+			});
+			const _web3Context = new Web3Context<EthExecutionAPI>();
+			jest.spyOn(_web3Context, 'wallet', 'get').mockReturnValue({
+				getPrioritySigner,
+			} as never);
+			const _sendTxHelper = new SendTxHelper({
+				web3Context: _web3Context,
+				promiEvent: promiEvent as PromiEvent,
+				options: {},
+				returnFormat: DEFAULT_RETURN_FORMAT,
+			});
+			const signSpy = jest.spyOn(_sendTxHelper, 'signPriorityTransaction');
+
+			const result = await _sendTxHelper.signAndSend({
+				tx: priorityTx,
+				wallet: wallet as unknown as Web3BaseWalletAccount,
+			});
+			expect(result).toBe('success');
+			expect(getPrioritySigner).toHaveBeenCalledWith(wallet.address);
+
+			const signedTransaction = await signSpy.mock.results[0].value;
+			expect(signedTransaction.priorityV).toBeDefined();
+			expect(recoverTransaction(signedTransaction.rawTransaction)).toBe(wallet.address);
+		});
+	});
 });
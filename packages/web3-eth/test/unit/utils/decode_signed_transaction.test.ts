@@ -0,0 +1,82 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Chain, Common, Hardfork, PriorityETNIP1Transaction } from '@etn-sc/web3-eth-accounts';
+import { DEFAULT_RETURN_FORMAT, ETH_DATA_FORMAT, FMT_BYTES, FMT_NUMBER } from '@etn-sc/web3-types';
+import { bytesToHex, hexToBytes } from '@etn-sc/web3-utils';
+
+import { decodeSignedTransaction } from '../../../src/utils/decode_signed_transaction';
+
+describe('decodeSignedTransaction', () => {
+	const privateKey = hexToBytes(
+		'0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318',
+	);
+	const priorityPrivateKey = hexToBytes(
+		'0x348ce564d427a3311b6536bbcff9390d69395b06ed6c486954e971d960fe8709',
+	);
+	const signedTransaction = PriorityETNIP1Transaction.fromTxData(
+		{
+			chainId: 52014,
+			nonce: 0,
+			maxPriorityFeePerGas: 1000000000,
+			maxFeePerGas: 3000000000,
+			gasLimit: 21000,
+			to: '0x3535353535353535353535353535353535353535',
+			value: 1,
+		},
+		{ common: new Common({ chain: Chain.Electroneum, hardfork: Hardfork.Priority }) },
+	).sign(privateKey, priorityPrivateKey);
+	const encodedSignedTransaction = bytesToHex(signedTransaction.serialize());
+
+	it('should expose the priority signature of a type 0x40 transaction', () => {
+		const { tx } = decodeSignedTransaction(encodedSignedTransaction, ETH_DATA_FORMAT);
+
+		expect(tx).toMatchObject({
+			type: '0x40',
+			priorityV: `0x${signedTransaction.pV?.toString(16)}`,
+			priorityR: `0x${signedTransaction.pR?.toString(16).padStart(64, '0')}`,
+			priorityS: `0x${signedTransaction.pS?.toString(16).padStart(64, '0')}`,
+		});
+		expect(tx).not.toHaveProperty('pV');
+		expect(tx).not.toHaveProperty('pR');
+		expect(tx).not.toHaveProperty('pS');
+	});
+
+	it('should format the priority signature with the requested return format', () => {
+		const { tx } = decodeSignedTransaction(encodedSignedTransaction, {
+			number: FMT_NUMBER.BIGINT,
+			bytes: FMT_BYTES.UINT8ARRAY,
+		});
+
+		expect(tx).toMatchObject({
+			priorityV: signedTransaction.pV,
+			priorityR: expect.any(Uint8Array),
+			priorityS: expect.any(Uint8Array),
+		});
+	});
+
+	it('should not add priority fields to other transaction types', () => {
+		const { tx } = decodeSignedTransaction(
+			'0xf86c808504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83',
+			DEFAULT_RETURN_FORMAT,
+		);
+
+		expect(tx).not.toHaveProperty('priorityV');
+		expect(tx).not.toHaveProperty('priorityR');
+		expect(tx).not.toHaveProperty('priorityS');
+	});
+});
@@ -0,0 +1,213 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Web3Context } from '@etn-sc/web3-core';
+import { DEFAULT_RETURN_FORMAT, EthExecutionAPI } from '@etn-sc/web3-types';
+import { ethRpcMethods } from '@etn-sc/web3-rpc-methods';
+import { Eip1559NotSupportedError } from '@etn-sc/web3-errors';
+
+import { createFeeHistoryEstimator } from '../../../src/utils/fee_estimator';
+import { getTransactionGasPricing } from '../../../src/utils/get_transaction_gas_pricing';
+import { InternalTransaction } from '../../../src/types';
+
+jest.mock('@etn-sc/web3-rpc-methods');
+
+const mockFeeHistory = {
+	oldestBlock: '0x1',
+	// the last entry is the base fee of the next block
+	baseFeePerGas: ['0x3b9aca00', '0x3b9aca00', '0x3b9aca00', '0x77359400'],
+	gasUsedRatio: [0.5, 0.5, 0.5],
+	reward: [['0x3b9aca00'], ['0x0'], ['0x5f5e100']],
+};
+
+describe('createFeeHistoryEstimator', () => {
+	let web3Context: Web3Context<EthExecutionAPI>;
+
+	beforeEach(() => {
+		web3Context = new Web3Context<EthExecutionAPI>('http://127.0.0.1:8545');
+		jest.spyOn(ethRpcMethods, 'getFeeHistory').mockResolvedValue(mockFeeHistory as never);
+	});
+
+	it('should estimate fees from the fee history with the normal preset', async () => {
+		const estimate = await createFeeHistoryEstimator()({ transaction: {}, web3Context });
+
+		expect(ethRpcMethods.getFeeHistory).toHaveBeenCalledWith(
+			web3Context.requestManager,
+			'0xa',
+			web3Context.defaultBlock,
+			[50],
+		);
+		// median of 1 gwei, 0 and 0.1 gwei
+		expect(estimate.maxPriorityFeePerGas).toBe(BigInt(100000000));
+		// 2 gwei * 1.25 + 0.1 gwei
+		expect(estimate.maxFeePerGas).toBe(BigInt(2600000000));
+	});
+
+	it('should use the percentile and base fee multiplier of the preset', async () => {
+		const estimate = await createFeeHistoryEstimator({ preset: 'fast', blockCount: 3 })({
+			transaction: {},
+			web3Context,
+		});
+
+		expect(ethRpcMethods.getFeeHistory).toHaveBeenCalledWith(
+			web3Context.requestManager,
+			'0x3',
+			web3Context.defaultBlock,
+			[90],
+		);
+		// 2 gwei * 1.5 + 0.1 gwei
+		expect(estimate.maxFeePerGas).toBe(BigInt(3100000000));
+	});
+
+	it('should let options override the preset', async () => {
+		const estimate = await createFeeHistoryEstimator({
+			preset: 'slow',
+			rewardPercentile: 25,
+			baseFeeMultiplier: 1,
+			minPriorityFeePerGas: 500000000,
+		})({ transaction: {}, web3Context });
+
+		expect(ethRpcMethods.getFeeHistory).toHaveBeenCalledWith(
+			web3Context.requestManager,
+			'0xa',
+			web3Context.defaultBlock,
+			[25],
+		);
+		expect(estimate.maxPriorityFeePerGas).toBe(BigInt(500000000));
+		expect(estimate.maxFeePerGas).toBe(BigInt(2500000000));
+	});
+
+	it('should throw if the chain has no base fee', async () => {
+		jest.spyOn(ethRpcMethods, 'getFeeHistory').mockResolvedValue({
+			...mockFeeHistory,
+			baseFeePerGas: [],
+		} as never);
+
+		await expect(createFeeHistoryEstimator()({ transaction: {}, web3Context })).rejects.toThrow(
+			Eip1559NotSupportedError,
+		);
+	});
+});
+
+describe('getTransactionGasPricing with a fee estimator', () => {
+	const transaction: InternalTransaction = {
+		from: '0xb8CE9ab6943e0eCED004cDe8e3bBed6568B2Fa01',
+		to: '0x3535353535353535353535353535353535353535',
+		value: '0x174876e800',
+		gas: '0x5208',
+	};
+	const feeEstimator = jest.fn().mockResolvedValue({
+		maxPriorityFeePerGas: BigInt(1000),
+		maxFeePerGas: BigInt(5000),
+	});
+	const priorityFeeEstimator = jest.fn().mockResolvedValue({
+		maxPriorityFeePerGas: BigInt(3000),
+		maxFeePerGas: BigInt(9000),
+	});
+	let web3Context: Web3Context<EthExecutionAPI>;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		web3Context = new Web3Context<EthExecutionAPI>({
+			provider: 'http://127.0.0.1:8545',
+			config: {
+				defaultChain: 'electroneum',
+				defaultHardfork: 'priority',
+				feeEstimator,
+				priorityFeeEstimator,
+			},
+		});
+		jest.spyOn(ethRpcMethods, 'getBlockByNumber').mockResolvedValue({
+			baseFeePerGas: '0x7',
+		} as never);
+	});
+
+	it('should fill the fees of EIP-1559 transactions from the fee estimator', async () => {
+		const gasPricing = await getTransactionGasPricing(
+			{ ...transaction, type: '0x2' },
+			web3Context,
+			DEFAULT_RETURN_FORMAT,
+		);
+
+		expect(feeEstimator).toHaveBeenCalledTimes(1);
+		expect(priorityFeeEstimator).not.toHaveBeenCalled();
+		expect(ethRpcMethods.getBlockByNumber).not.toHaveBeenCalled();
+		expect(gasPricing).toEqual({
+			gasPrice: undefined,
+			maxPriorityFeePerGas: BigInt(1000),
+			maxFeePerGas: BigInt(5000),
+		});
+	});
+
+	it('should use the priority fee estimator for priority transactions', async () => {
+		const gasPricing = await getTransactionGasPricing(
+			{ ...transaction, type: '0x40' },
+			web3Context,
+			DEFAULT_RETURN_FORMAT,
+		);
+
+		expect(priorityFeeEstimator).toHaveBeenCalledTimes(1);
+		expect(feeEstimator).not.toHaveBeenCalled();
+		expect(gasPricing).toEqual({
+			gasPrice: undefined,
+			maxPriorityFeePerGas: BigInt(3000),
+			maxFeePerGas: BigInt(9000),
+		});
+	});
+
+	it('should fall back to the fee estimator for priority transactions', async () => {
+		web3Context.priorityFeeEstimator = undefined;
+
+		await getTransactionGasPricing(
+			{ ...transaction, type: '0x40' },
+			web3Context,
+			DEFAULT_RETURN_FORMAT,
+		);
+
+		expect(feeEstimator).toHaveBeenCalledTimes(1);
+	});
+
+	it('should keep the given maxPriorityFeePerGas on top of the estimated base fee', async () => {
+		const gasPricing = await getTransactionGasPricing(
+			{ ...transaction, type: '0x2', maxPriorityFeePerGas: '0x64' },
+			web3Context,
+			DEFAULT_RETURN_FORMAT,
+		);
+
+		expect(gasPricing).toEqual({
+			gasPrice: undefined,
+			maxPriorityFeePerGas: BigInt(100),
+			maxFeePerGas: BigInt(4100),
+		});
+	});
+
+	it('should not call the fee estimator when both fees are given', async () => {
+		const gasPricing = await getTransactionGasPricing(
+			{ ...transaction, type: '0x2', maxPriorityFeePerGas: '0x64', maxFeePerGas: '0xc8' },
+			web3Context,
+			DEFAULT_RETURN_FORMAT,
+		);
+
+		expect(feeEstimator).not.toHaveBeenCalled();
+		expect(ethRpcMethods.getBlockByNumber).toHaveBeenCalledTimes(1);
+		expect(gasPricing).toEqual({
+			gasPrice: undefined,
+			maxPriorityFeePerGas: BigInt(100),
+			maxFeePerGas: BigInt(200),
+		});
+	});
+});
@@ -0,0 +1,153 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { Web3Context } from '@etn-sc/web3-core';
+import { InvalidMethodParamsError, ResponseError } from '@etn-sc/web3-errors';
+import { DEFAULT_RETURN_FORMAT, Filter } from '@etn-sc/web3-types';
+import {
+	LogsCheckpoint,
+	LogsPage,
+	paginateLogs,
+	PaginateLogsOptions,
+} from '../../../src/utils/paginate_logs';
+import * as rpcMethodWrappers from '../../../src/rpc_method_wrappers';
+
+jest.mock('../../../src/rpc_method_wrappers');
+
+const tooManyResults = new ResponseError({
+	jsonrpc: '2.0',
+	id: 1,
+	error: { code: -32005, message: 'query returned more than 10000 results' },
+});
+
+describe('paginateLogs', () => {
+	const web3Context = new Web3Context('http://127.0.0.1:8545');
+	let getLogs: jest.Mock;
+	let requestedRanges: [bigint, bigint][];
+
+	const collect = async (filter: Filter, options?: PaginateLogsOptions) => {
+		const pages: LogsPage[] = [];
+		for await (const page of paginateLogs(
+			web3Context,
+			filter,
+			options,
+			DEFAULT_RETURN_FORMAT,
+		)) {
+			pages.push(page);
+		}
+		return pages;
+	};
+
+	beforeEach(() => {
+		requestedRanges = [];
+		getLogs = jest
+			.spyOn(rpcMethodWrappers, 'getLogs')
+			.mockImplementation(async (_context, { fromBlock, toBlock }) => {
+				requestedRanges.push([fromBlock as bigint, toBlock as bigint]);
+				return Promise.resolve([`0x${(fromBlock as bigint).toString(16)}`]);
+			}) as unknown as jest.Mock;
+		jest.spyOn(rpcMethodWrappers, 'getBlockNumber').mockResolvedValue(BigInt(100));
+	});
+
+	afterEach(() => {
+		jest.resetAllMocks();
+	});
+
+	it('should get the logs of the range page by page, doubling the range', async () => {
+		const pages = await collect({ fromBlock: 0, toBlock: 'latest' }, { initialRange: 10 });
+
+		expect(requestedRanges).toEqual([
+			[BigInt(0), BigInt(9)],
+			[BigInt(10), BigInt(29)],
+			[BigInt(30), BigInt(69)],
+			[BigInt(70), BigInt(100)],
+		]);
+		expect(pages.map(({ logs }) => logs)).toEqual([['0x0'], ['0xa'], ['0x1e'], ['0x46']]);
+		expect(pages[0].checkpoint).toEqual({ fromBlock: '0xa', toBlock: '0x64', range: '0x14' });
+		expect(pages[3].checkpoint).toBeUndefined();
+	});
+
+	it('should not exceed the max range', async () => {
+		await collect({ fromBlock: 50, toBlock: 100 }, { initialRange: 10, maxRange: 15 });
+
+		expect(requestedRanges).toEqual([
+			[BigInt(50), BigInt(59)],
+			[BigInt(60), BigInt(74)],
+			[BigInt(75), BigInt(89)],
+			[BigInt(90), BigInt(100)],
+		]);
+	});
+
+	it('should halve the range rejected by the node', async () => {
+		getLogs.mockRejectedValueOnce(tooManyResults).mockRejectedValueOnce(tooManyResults);
+
+		const pages = await collect({ fromBlock: 0, toBlock: 30 }, { initialRange: 20 });
+
+		expect(getLogs.mock.calls.map(([, filter]: [unknown, Filter]) => filter.toBlock)).toEqual([
+			BigInt(19),
+			BigInt(9),
+			BigInt(4),
+			BigInt(14),
+			BigInt(30),
+		]);
+		expect(requestedRanges).toEqual([
+			[BigInt(0), BigInt(4)],
+			[BigInt(5), BigInt(14)],
+			[BigInt(15), BigInt(30)],
+		]);
+		expect(pages).toHaveLength(3);
+	});
+
+	it('should throw the other errors, and the range errors of a single block', async () => {
+		getLogs.mockRejectedValueOnce(new Error('connection refused'));
+		await expect(collect({ fromBlock: 0, toBlock: 30 })).rejects.toThrow('connection refused');
+
+		getLogs.mockRejectedValue(tooManyResults);
+		await expect(collect({ fromBlock: 0, toBlock: 30 }, { initialRange: 2 })).rejects.toThrow(
+			tooManyResults,
+		);
+	});
+
+	it('should reject the ranges lower than 1', async () => {
+		await expect(collect({ fromBlock: 0, toBlock: 30 }, { initialRange: 0 })).rejects.toThrow(
+			InvalidMethodParamsError,
+		);
+		await expect(
+			collect({ fromBlock: 0, toBlock: 30 }, { initialRange: 10, maxRange: 0 }),
+		).rejects.toThrow(InvalidMethodParamsError);
+		expect(getLogs).not.toHaveBeenCalled();
+	});
+
+	it('should resume from a checkpoint', async () => {
+		const [first, ...pages] = await collect(
+			{ fromBlock: 0, toBlock: 'latest' },
+			{ initialRange: 10 },
+		);
+		requestedRanges = [];
+
+		const resumed = await collect(
+			{ fromBlock: 0, toBlock: 'latest' },
+			{
+				// as stored in JSON
+				checkpoint: JSON.parse(JSON.stringify(first.checkpoint)) as LogsCheckpoint,
+			},
+		);
+
+		expect(requestedRanges[0]).toEqual([BigInt(10), BigInt(29)]);
+		expect(resumed).toEqual(pages);
+	});
+});
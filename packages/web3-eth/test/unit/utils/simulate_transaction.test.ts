@@ -0,0 +1,275 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import {
+	encodeErrorSignature,
+	encodeEventSignature,
+	encodeFunctionCall,
+	encodeParameters,
+} from '@etn-sc/web3-eth-abi';
+import {
+	AbiErrorFragment,
+	AbiEventFragment,
+	AbiFunctionFragment,
+	CallFrameAPI,
+	ContractAbi,
+	Web3BaseProvider,
+} from '@etn-sc/web3-types';
+import { Web3Eth } from '../../../src';
+
+const sender = '0xeb014f8c8b418db6b45774c326a0e64c78914dc0';
+const routerAddress = '0x407d73d8a49eeb85d32cf465507dd71d507100c1';
+const tokenAddress = '0x6e599da0bff7a6598ac1224e4985430bf16458a4';
+const recipient = '0xde0b295669a9fd93d5f28d9ec85e40f4cb697bae';
+
+const swap: AbiFunctionFragment = {
+	type: 'function',
+	name: 'swap',
+	inputs: [{ name: 'recipient', type: 'address' }],
+	outputs: [],
+	stateMutability: 'payable',
+};
+const transfer: AbiFunctionFragment = {
+	type: 'function',
+	name: 'transfer',
+	inputs: [
+		{ name: 'to', type: 'address' },
+		{ name: 'amount', type: 'uint256' },
+	],
+	outputs: [{ name: '', type: 'bool' }],
+	stateMutability: 'nonpayable',
+};
+const transferEvent: AbiEventFragment = {
+	type: 'event',
+	name: 'Transfer',
+	anonymous: false,
+	inputs: [
+		{ name: 'from', type: 'address', indexed: true },
+		{ name: 'to', type: 'address', indexed: true },
+		{ name: 'value', type: 'uint256', indexed: false },
+	],
+};
+const insufficientBalance: AbiErrorFragment = {
+	type: 'error',
+	name: 'InsufficientBalance',
+	inputs: [
+		{ name: 'available', type: 'uint256' },
+		{ name: 'required', type: 'uint256' },
+	],
+};
+
+const router = {
+	options: { address: routerAddress, jsonInterface: [swap] as ContractAbi },
+};
+const token = {
+	options: {
+		address: tokenAddress,
+		jsonInterface: [transfer, transferEvent, insufficientBalance] as ContractAbi,
+	},
+};
+
+const swapInput = encodeFunctionCall(swap, [recipient]);
+const transferInput = encodeFunctionCall(transfer, [recipient, 100]);
+const revertData = `${encodeErrorSignature(insufficientBalance).slice(0, 10)}${encodeParameters(
+	['uint256', 'uint256'],
+	[0, 100],
+).slice(2)}`;
+const transferLog = {
+	address: tokenAddress,
+	topics: [
+		encodeEventSignature(transferEvent),
+		`0x000000000000000000000000${routerAddress.slice(2)}`,
+		`0x000000000000000000000000${recipient.slice(2)}`,
+	],
+	data: encodeParameters(['uint256'], [100]),
+	position: '0x0',
+};
+
+const swapTrace: CallFrameAPI = {
+	type: 'CALL',
+	from: sender,
+	to: routerAddress,
+	value: '0x3e8',
+	gas: '0x186a0',
+	gasUsed: '0xc350',
+	input: swapInput,
+	output: '0x',
+	calls: [
+		{
+			type: 'CALL',
+			from: routerAddress,
+			to: tokenAddress,
+			gas: '0x15f90',
+			gasUsed: '0x7530',
+			input: transferInput,
+			output: encodeParameters(['bool'], [true]),
+			logs: [transferLog],
+		},
+		{
+			type: 'CALL',
+			from: routerAddress,
+			to: recipient,
+			value: '0x1f4',
+			gas: '0x8fc',
+			gasUsed: '0x0',
+			input: '0x',
+		},
+	],
+};
+
+type RpcResponse =
+	| { result: unknown }
+	| { error: { code: number; message: string; data?: string } };
+
+// A local stand-in for the RPC of a node, answering the requests sent through the provider
+const standInRpc = (responses: Record<string, RpcResponse>) => {
+	const web3Eth = new Web3Eth('http://127.0.0.1:8545');
+	const methods: string[] = [];
+	jest.spyOn(web3Eth.provider as Web3BaseProvider, 'request').mockImplementation(
+		async ({ id, method }: { id?: unknown; method: string }) => {
+			methods.push(method);
+			const response = responses[method] ?? {
+				error: {
+					code: -32601,
+					message: `the method ${method} does not exist/is not available`,
+				},
+			};
+			return Promise.resolve({ jsonrpc: '2.0', id, ...response } as never);
+		},
+	);
+	return { web3Eth, methods };
+};
+
+describe('simulateTransaction', () => {
+	const transaction = { from: sender, to: routerAddress, value: 1000, input: swapInput };
+
+	it('should decode the traced calls, events and balance changes', async () => {
+		const { web3Eth, methods } = standInRpc({ debug_traceCall: { result: swapTrace } });
+
+		const simulation = await web3Eth.simulateTransaction(transaction, {
+			contracts: [router, token],
+		});
+
+		expect(methods).toEqual(['debug_traceCall']);
+		expect(simulation.traced).toBe(true);
+		expect(simulation.success).toBe(true);
+		expect(simulation.gasUsed).toBe(BigInt(50000));
+		expect(simulation.call.method?.name).toBe('swap');
+		expect(simulation.call.calls.map(({ method }) => method?.signature)).toEqual([
+			'transfer(address,uint256)',
+			undefined,
+		]);
+		expect(simulation.call.calls[0].method?.args.amount).toBe(BigInt(100));
+		expect(simulation.events).toHaveLength(1);
+		expect(simulation.events[0].event).toBe('Transfer');
+		expect(simulation.events[0].returnValues?.value).toBe(BigInt(100));
+		expect(simulation.balanceChanges).toEqual({
+			[sender]: BigInt(-1000),
+			[routerAddress]: BigInt(500),
+			[recipient]: BigInt(500),
+		});
+	});
+
+	it('should decode the custom error of a reverted trace and drop its events and transfers', async () => {
+		const { web3Eth } = standInRpc({
+			debug_traceCall: {
+				result: {
+					...swapTrace,
+					output: revertData,
+					error: 'execution reverted',
+					calls: [
+						{
+							...swapTrace.calls?.[0],
+							output: revertData,
+							error: 'execution reverted',
+						},
+					],
+				},
+			},
+		});
+
+		const simulation = await web3Eth.simulateTransaction(transaction, {
+			contracts: [router, token],
+		});
+
+		expect(simulation.success).toBe(false);
+		expect(simulation.returnData).toBeUndefined();
+		expect(simulation.revert).toMatchObject({
+			reason: 'execution reverted',
+			signature: encodeErrorSignature(insufficientBalance).slice(0, 10),
+			customErrorName: 'InsufficientBalance',
+			customErrorDecodedSignature: 'InsufficientBalance(uint256,uint256)',
+			customErrorArguments: { available: BigInt(0), required: BigInt(100) },
+		});
+		expect(simulation.call.calls[0].revert?.reason).toBe('execution reverted');
+		expect(simulation.events).toEqual([]);
+		expect(simulation.balanceChanges).toEqual({});
+	});
+
+	it('should fall back to eth_call and eth_estimateGas if the node does not trace the calls', async () => {
+		const { web3Eth, methods } = standInRpc({
+			eth_call: { result: '0x' },
+			eth_estimateGas: { result: '0xc350' },
+		});
+
+		const simulation = await web3Eth.simulateTransaction(transaction, {
+			contracts: [router, token],
+		});
+
+		expect(methods).toEqual(['debug_traceCall', 'eth_call', 'eth_estimateGas']);
+		expect(simulation).toMatchObject({
+			traced: false,
+			success: true,
+			gasUsed: BigInt(50000),
+			returnData: '0x',
+			events: [],
+			balanceChanges: { [sender]: BigInt(-1000), [routerAddress]: BigInt(1000) },
+		});
+		expect((simulation.call.method?.args.recipient as string).toLowerCase()).toBe(recipient);
+	});
+
+	it('should decode the custom error of a reverted eth_call', async () => {
+		const { web3Eth, methods } = standInRpc({
+			eth_call: { error: { code: 3, message: 'execution reverted', data: revertData } },
+		});
+
+		const simulation = await web3Eth.simulateTransaction(transaction, {
+			contracts: [router, token],
+			trace: false,
+		});
+
+		expect(methods).toEqual(['eth_call']);
+		expect(simulation.success).toBe(false);
+		expect(simulation.gasUsed).toBeUndefined();
+		expect(simulation.revert).toMatchObject({
+			customErrorName: 'InsufficientBalance',
+			customErrorArguments: { available: BigInt(0), required: BigInt(100) },
+		});
+		expect(simulation.call.revert).toEqual(simulation.revert);
+	});
+
+	it('should throw the other errors of debug_traceCall', async () => {
+		const { web3Eth } = standInRpc({
+			debug_traceCall: {
+				error: { code: -32000, message: 'insufficient funds for gas * price + value' },
+			},
+		});
+
+		await expect(web3Eth.simulateTransaction(transaction)).rejects.toThrow(
+			'insufficient funds',
+		);
+	});
+});
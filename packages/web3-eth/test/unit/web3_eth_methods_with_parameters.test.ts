@@ -244,6 +244,7 @@ describe('web3_eth_methods_with_parameters', () => {
 							expect(rpcMethodWrappers.estimateGas).toHaveBeenCalledWith(
 								web3Eth,
 								...rpcMethodParameters,
+								undefined,
 							);
 						},
 					);
@@ -105,4 +105,28 @@ describe('Web3Eth subscribe and clear subscriptions', () => {
 
 		expect(subManager.unsubscribe).toHaveBeenCalledWith(Web3Eth['shouldClearSubscription']);
 	});
+
+	it('should emit the removed logs with the `changed` event', () => {
+		const requestManager = { send: jest.fn(), on: jest.fn(), provider: { on: jest.fn() } };
+		const subManager = new Web3SubscriptionManager(requestManager as any, undefined as any);
+		const sub = new LogsSubscription({}, { subscriptionManager: subManager });
+		const data = jest.fn();
+		const changed = jest.fn();
+		sub.on('data', data);
+		sub.on('changed', changed);
+
+		const log = {
+			address: '0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc',
+			blockNumber: '0x10',
+			logIndex: '0x0',
+			topics: [],
+			data: '0x',
+		};
+		sub._processSubscriptionResult({ ...log, removed: false } as any);
+		sub._processSubscriptionResult({ ...log, removed: true } as any);
+
+		expect(data).toHaveBeenCalledTimes(1);
+		expect(changed).toHaveBeenCalledTimes(1);
+		expect(changed).toHaveBeenCalledWith(expect.objectContaining({ removed: true }));
+	});
 });
@@ -18,6 +18,7 @@ along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 import fetch from 'cross-fetch';
 import {
 	EthExecutionAPI,
+	JsonRpcPayload,
 	JsonRpcResponseWithResult,
 	Web3APIMethod,
 	Web3APIPayload,
@@ -26,10 +27,53 @@ import {
 	Web3BaseProvider,
 	Web3ProviderStatus,
 } from '@etn-sc/web3-types';
-import { InvalidClientError, MethodNotImplementedError, ResponseError } from '@etn-sc/web3-errors';
-import { HttpProviderOptions } from './types.js';
+import {
+	ConnectionTimeoutError,
+	InvalidClientError,
+	MethodNotImplementedError,
+	ProviderError,
+	ResponseError,
+} from '@etn-sc/web3-errors';
+import { isNullish, uint8ArrayConcat } from '@etn-sc/web3-utils';
+import { HttpCompressionOptions, HttpProviderOptions, HttpRetryContext } from './types.js';
+
+export { HttpCompressionOptions, HttpProviderOptions, HttpRetryContext } from './types.js';
+
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+type CompressionStreamConstructor = new (format: string) => TransformStream<Uint8Array, Uint8Array>;
+
+// The `CompressionStream` of the browsers and Node.js >= 18, it supports `gzip` and `deflate`
+const { CompressionStream } = globalThis as unknown as {
+	CompressionStream?: CompressionStreamConstructor;
+};
+
+const readStream = async (
+	reader: ReadableStreamDefaultReader<Uint8Array>,
+	chunks: Uint8Array[] = [],
+): Promise<Uint8Array> => {
+	const { done, value } = await reader.read();
+
+	return done ? uint8ArrayConcat(...chunks) : readStream(reader, [...chunks, value]);
+};
+
+const compressWithStream = async (body: string, encoding: string): Promise<Uint8Array> => {
+	const stream = new Blob([body])
+		.stream()
+		.pipeThrough(new (CompressionStream as CompressionStreamConstructor)(encoding));
+
+	return readStream(stream.getReader());
+};
 
-export { HttpProviderOptions } from './types.js';
+// A failed attempt may still have reached the node, sending the transaction twice
+const NON_IDEMPOTENT_METHODS = ['eth_sendRawTransaction', 'eth_sendTransaction'];
+
+const defaultShouldRetry = ({ payload, error, status }: HttpRetryContext): boolean =>
+	!(Array.isArray(payload) ? payload : [payload]).some(({ method }) =>
+		NON_IDEMPOTENT_METHODS.includes(method),
+	) &&
+	(!isNullish(error) || status === 429 || (!isNullish(status) && status >= 500));
 
 export default class HttpProvider<
 	API extends Web3APISpec = EthExecutionAPI,
@@ -40,6 +84,17 @@ export default class HttpProvider<
 	public constructor(clientUrl: string, httpProviderOptions?: HttpProviderOptions) {
 		super();
 		if (!HttpProvider.validateClientUrl(clientUrl)) throw new InvalidClientError(clientUrl);
+		const compression = httpProviderOptions?.compression;
+		// The optional chaining keeps the check safe in the tests mocking `isNullish`
+		if (
+			!isNullish(compression) &&
+			isNullish(compression?.compress) &&
+			(compression.encoding === 'br' || typeof CompressionStream === 'undefined')
+		) {
+			throw new ProviderError(
+				`A compress function is required for the "${compression.encoding}" compression on this platform`,
+			);
+		}
 		this.clientUrl = clientUrl;
 		this.httpProviderOptions = httpProviderOptions;
 	}
@@ -65,24 +120,139 @@ export default class HttpProvider<
 		payload: Web3APIPayload<API, Method>,
 		requestOptions?: RequestInit,
 	): Promise<JsonRpcResponseWithResult<ResultType>> {
+		return this._request<Method, ResultType>(payload, requestOptions, 1);
+	}
+
+	private async _request<Method extends Web3APIMethod<API>, ResultType>(
+		payload: Web3APIPayload<API, Method>,
+		requestOptions: RequestInit | undefined,
+		attempt: number,
+	): Promise<JsonRpcResponseWithResult<ResultType>> {
+		let response: Response;
+		try {
+			response = await this._fetch(payload, requestOptions);
+		} catch (error) {
+			// A request aborted by the caller is never retried
+			const signal =
+				requestOptions?.signal ?? this.httpProviderOptions?.providerOptions?.signal;
+			if (
+				signal?.aborted ||
+				!this._shouldRetry({ attempt, payload: payload as JsonRpcPayload, error })
+			)
+				throw error;
+
+			await this._waitBeforeRetry(attempt);
+			return this._request<Method, ResultType>(payload, requestOptions, attempt + 1);
+		}
+
+		if (!response.ok) {
+			if (
+				this._shouldRetry({
+					attempt,
+					payload: payload as JsonRpcPayload,
+					status: response.status,
+				})
+			) {
+				// Consume the body to release the connection
+				await response.text();
+				await this._waitBeforeRetry(attempt);
+				return this._request<Method, ResultType>(payload, requestOptions, attempt + 1);
+			}
+
+			// eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+			throw new ResponseError(await response.json(), undefined, undefined, response.status);
+		}
+
+		return (await response.json()) as JsonRpcResponseWithResult<ResultType>;
+	}
+
+	private async _fetch<Method extends Web3APIMethod<API>>(
+		payload: Web3APIPayload<API, Method>,
+		requestOptions?: RequestInit,
+	): Promise<Response> {
 		const providerOptionsCombined = {
 			...this.httpProviderOptions?.providerOptions,
 			...requestOptions,
 		};
-		const response = await fetch(this.clientUrl, {
+		const { agent, getHeaders, compression } = this.httpProviderOptions ?? {};
+		const body = JSON.stringify(payload);
+		const compressed = await HttpProvider._compress(body, compression);
+		const fetchOptions = {
 			...providerOptionsCombined,
+			...(isNullish(agent) ? {} : { agent }),
 			method: 'POST',
 			headers: {
 				...providerOptionsCombined.headers,
+				...(await getHeaders?.(payload as JsonRpcPayload)),
 				'Content-Type': 'application/json',
+				...(isNullish(compressed) ? {} : { 'Content-Encoding': compression?.encoding }),
 			},
-			body: JSON.stringify(payload),
-		});
+			body: compressed ?? body,
+		} as RequestInit;
+		const fetchFn = this.httpProviderOptions?.fetch ?? fetch;
 
-		// eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-		if (!response.ok) throw new ResponseError(await response.json());
+		const timeout = this.httpProviderOptions?.timeout;
+		if (isNullish(timeout)) return fetchFn(this.clientUrl, fetchOptions);
 
-		return (await response.json()) as JsonRpcResponseWithResult<ResultType>;
+		// Abort the request on timeout, while still honoring a signal given by the caller
+		const abortController = new AbortController();
+		const { signal } = providerOptionsCombined;
+		const abortOnSignal = () => abortController.abort();
+		// An already aborted signal does not emit the abort event anymore
+		if (signal?.aborted) abortOnSignal();
+		signal?.addEventListener('abort', abortOnSignal);
+		let timedOut = false;
+		const timer = setTimeout(() => {
+			timedOut = true;
+			abortController.abort();
+		}, timeout);
+
+		try {
+			return await fetchFn(this.clientUrl, {
+				...fetchOptions,
+				signal: abortController.signal,
+			});
+		} catch (error) {
+			if (timedOut) throw new ConnectionTimeoutError(timeout);
+			throw error;
+		} finally {
+			clearTimeout(timer);
+			signal?.removeEventListener('abort', abortOnSignal);
+		}
+	}
+
+	private static async _compress(
+		body: string,
+		compression: HttpCompressionOptions | undefined,
+	): Promise<Uint8Array | undefined> {
+		if (
+			isNullish(compression) ||
+			body.length < (compression.threshold ?? DEFAULT_COMPRESSION_THRESHOLD)
+		) {
+			return undefined;
+		}
+
+		return compression.compress
+			? compression.compress(body)
+			: compressWithStream(body, compression.encoding);
+	}
+
+	private _shouldRetry(context: HttpRetryContext): boolean {
+		if (context.attempt > (this.httpProviderOptions?.retries ?? 0)) return false;
+
+		return (this.httpProviderOptions?.shouldRetry ?? defaultShouldRetry)(context);
+	}
+
+	private async _waitBeforeRetry(attempt: number): Promise<void> {
+		const retryDelay = this.httpProviderOptions?.retryDelay ?? DEFAULT_RETRY_DELAY;
+		const delay =
+			typeof retryDelay === 'function'
+				? retryDelay(attempt)
+				: retryDelay * 2 ** (attempt - 1);
+
+		return new Promise(resolve => {
+			setTimeout(resolve, delay);
+		});
 	}
 
 	/* eslint-disable class-methods-use-this */
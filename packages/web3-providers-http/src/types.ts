@@ -15,6 +15,76 @@ You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 
+import { JsonRpcPayload } from '@etn-sc/web3-types';
+
+/**
+ * The context of a failed attempt, given to {@link HttpProviderOptions.shouldRetry}.
+ * Either `error` is set, when the request could not be completed (e.g. network error or timeout),
+ * or `status` is set, when the node answered with a non 2xx HTTP status.
+ */
+export type HttpRetryContext = {
+	attempt: number;
+	payload: JsonRpcPayload;
+	error?: unknown;
+	status?: number;
+};
+
+/**
+ * The compression of the request bodies, see {@link HttpProviderOptions.compression}.
+ */
+export interface HttpCompressionOptions {
+	/**
+	 * The `Content-Encoding` of the compressed requests
+	 */
+	encoding: 'gzip' | 'deflate' | 'br';
+	/**
+	 * The size of the request body above which it is compressed, 1024 by default
+	 */
+	threshold?: number;
+	/**
+	 * Compresses the request body. By default the `CompressionStream` of the platform is used,
+	 * which does not support `br`: give e.g. `body => zlib.brotliCompressSync(body)` on Node.js.
+	 */
+	compress?: (body: string) => Uint8Array | Promise<Uint8Array>;
+}
+
 export interface HttpProviderOptions {
-	providerOptions: RequestInit;
+	providerOptions?: RequestInit;
+	/**
+	 * The `fetch` implementation sending the requests, `cross-fetch` by default
+	 */
+	fetch?: (url: string, init: RequestInit) => Promise<Response>;
+	/**
+	 * The HTTP agent of the requests on Node.js, to keep the connections alive and pool the sockets.
+	 * It is given as the `agent` option of `fetch`, e.g. `new https.Agent({ keepAlive: true, maxSockets: 50 })`.
+	 */
+	agent?: unknown;
+	/**
+	 * Computes headers added to every request, e.g. to send a short-lived authentication token
+	 */
+	getHeaders?: (
+		payload: JsonRpcPayload,
+	) => Record<string, string> | Promise<Record<string, string>>;
+	/**
+	 * Compresses the bodies of the large requests, e.g. the batches
+	 */
+	compression?: HttpCompressionOptions;
+	/**
+	 * The time in milliseconds after which a single attempt is aborted with a `ConnectionTimeoutError`
+	 */
+	timeout?: number;
+	/**
+	 * The number of times a failed request is retried, 0 by default
+	 */
+	retries?: number;
+	/**
+	 * The delay in milliseconds before the first retry, doubled for every subsequent retry (1000 by default).
+	 * A function can be given instead to compute the delay before each retry.
+	 */
+	retryDelay?: number | ((attempt: number) => number);
+	/**
+	 * Decides if a failed attempt is retried. By default network errors, timeouts
+	 * and the HTTP statuses 429 and 5xx are retried, except for the requests sending a transaction.
+	 */
+	shouldRetry?: (context: HttpRetryContext) => boolean;
 }
@@ -23,7 +23,9 @@ jest.setMock('cross-fetch', fetchMock);
 /* eslint-disable-next-line import/first */
 import { Web3APIPayload, EthExecutionAPI } from '@etn-sc/web3-types';
 /* eslint-disable-next-line import/first */
-import { ResponseError } from '@etn-sc/web3-errors';
+import { ConnectionTimeoutError, ProviderError, ResponseError } from '@etn-sc/web3-errors';
+/* eslint-disable-next-line import/first */
+import { gunzipSync } from 'zlib';
 /* eslint-disable-next-line import/first */
 import HttpProvider from '../../src/index';
 /* eslint-disable-next-line import/first */
@@ -64,4 +66,257 @@ describe('HttpProvider - implemented methods', () => {
 			await expect(httpProvider.request(jsonRpcPayload)).rejects.toThrow(ResponseError);
 		});
 	});
+
+	describe('httpProvider.request with timeout and retries', () => {
+		beforeEach(() => {
+			fetchMock.resetMocks();
+		});
+
+		it('should throw ConnectionTimeoutError when the timeout is reached', async () => {
+			fetchMock.mockResponseOnce(
+				async () =>
+					new Promise(resolve => {
+						setTimeout(() => resolve(JSON.stringify(mockGetBalanceResponse)), 500);
+					}),
+			);
+			const provider = new HttpProvider('http://localhost:8545', { timeout: 10 });
+
+			await expect(provider.request(jsonRpcPayload)).rejects.toThrow(
+				new ConnectionTimeoutError(10),
+			);
+		});
+
+		it('should retry on HTTP 429 and 5xx statuses', async () => {
+			fetchMock
+				.mockResponseOnce('Too many requests', { status: 429 })
+				.mockResponseOnce('Bad gateway', { status: 502 })
+				.mockResponseOnce(JSON.stringify(mockGetBalanceResponse));
+			const provider = new HttpProvider('http://localhost:8545', {
+				retries: 2,
+				retryDelay: 1,
+			});
+
+			expect(await provider.request(jsonRpcPayload)).toStrictEqual(mockGetBalanceResponse);
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+		});
+
+		it('should retry on network errors', async () => {
+			fetchMock
+				.mockRejectOnce(new TypeError('Failed to fetch'))
+				.mockResponseOnce(JSON.stringify(mockGetBalanceResponse));
+			const provider = new HttpProvider('http://localhost:8545', {
+				retries: 1,
+				retryDelay: 1,
+			});
+
+			expect(await provider.request(jsonRpcPayload)).toStrictEqual(mockGetBalanceResponse);
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+		});
+
+		it('should not retry other HTTP statuses', async () => {
+			fetchMock.mockResponseOnce(JSON.stringify(mockGetBalanceResponse), { status: 400 });
+			const provider = new HttpProvider('http://localhost:8545', {
+				retries: 2,
+				retryDelay: 1,
+			});
+
+			await expect(provider.request(jsonRpcPayload)).rejects.toThrow(ResponseError);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it('should give up after the given number of retries', async () => {
+			fetchMock.mockReject(new TypeError('Failed to fetch'));
+			const provider = new HttpProvider('http://localhost:8545', {
+				retries: 2,
+				retryDelay: 1,
+			});
+
+			await expect(provider.request(jsonRpcPayload)).rejects.toThrow('Failed to fetch');
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+		});
+
+		it('should wait with an exponential backoff between retries', async () => {
+			fetchMock.mockReject(new TypeError('Failed to fetch'));
+			const retryDelay = jest.fn().mockReturnValue(1);
+			const provider = new HttpProvider('http://localhost:8545', {
+				retries: 3,
+				retryDelay,
+			});
+
+			await expect(provider.request(jsonRpcPayload)).rejects.toThrow('Failed to fetch');
+			expect(retryDelay.mock.calls).toEqual([[1], [2], [3]]);
+
+			const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+			await expect(
+				new HttpProvider('http://localhost:8545', { retries: 2, retryDelay: 5 }).request(
+					jsonRpcPayload,
+				),
+			).rejects.toThrow('Failed to fetch');
+			expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 5);
+			expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 10);
+			setTimeoutSpy.mockRestore();
+		});
+
+		it('should use the given retry predicate', async () => {
+			fetchMock
+				.mockResponseOnce(JSON.stringify(mockGetBalanceResponse), { status: 400 })
+				.mockResponseOnce(JSON.stringify(mockGetBalanceResponse));
+			const shouldRetry = jest.fn().mockReturnValue(true);
+			const provider = new HttpProvider('http://localhost:8545', {
+				retries: 1,
+				retryDelay: 1,
+				shouldRetry,
+			});
+
+			expect(await provider.request(jsonRpcPayload)).toStrictEqual(mockGetBalanceResponse);
+			expect(shouldRetry).toHaveBeenCalledWith({
+				attempt: 1,
+				payload: jsonRpcPayload,
+				status: 400,
+			});
+		});
+
+		it('should not retry the requests sending a transaction by default', async () => {
+			fetchMock.mockReject(new TypeError('Failed to fetch'));
+			const provider = new HttpProvider('http://localhost:8545', {
+				retries: 2,
+				retryDelay: 1,
+			});
+			const sendRawTransaction = {
+				jsonrpc: '2.0',
+				id: 43,
+				method: 'eth_sendRawTransaction',
+				params: ['0x02f8'],
+			} as Web3APIPayload<EthExecutionAPI, 'eth_sendRawTransaction'>;
+
+			await expect(provider.request(sendRawTransaction)).rejects.toThrow('Failed to fetch');
+			await expect(
+				provider.request([
+					jsonRpcPayload,
+					sendRawTransaction,
+				] as unknown as typeof jsonRpcPayload),
+			).rejects.toThrow('Failed to fetch');
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+		});
+
+		it('should consume the body of a failed response before retrying', async () => {
+			const failedResponse = new Response('Bad gateway', { status: 502 });
+			const customFetch = jest
+				.fn()
+				.mockResolvedValueOnce(failedResponse)
+				.mockResolvedValueOnce(new Response(JSON.stringify(mockGetBalanceResponse)));
+			const provider = new HttpProvider('http://localhost:8545', {
+				fetch: customFetch,
+				retries: 1,
+				retryDelay: 1,
+			});
+
+			expect(await provider.request(jsonRpcPayload)).toStrictEqual(mockGetBalanceResponse);
+			expect(failedResponse.bodyUsed).toBe(true);
+		});
+
+		it('should abort the request of an already aborted signal', async () => {
+			const customFetch = jest
+				.fn()
+				.mockImplementation(async (_url, init: RequestInit) =>
+					init.signal?.aborted
+						? Promise.reject(new Error('The operation was aborted'))
+						: Promise.resolve(new Response(JSON.stringify(mockGetBalanceResponse))),
+				);
+			const abortController = new AbortController();
+			abortController.abort();
+			const provider = new HttpProvider('http://localhost:8545', {
+				fetch: customFetch,
+				timeout: 1000,
+				retries: 1,
+				retryDelay: 1,
+			});
+
+			await expect(
+				provider.request(jsonRpcPayload, { signal: abortController.signal }),
+			).rejects.toThrow('The operation was aborted');
+			expect(customFetch).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('httpProvider.request with custom fetch, agent, headers and compression', () => {
+		const jsonResponse = async () =>
+			Promise.resolve(new Response(JSON.stringify(mockGetBalanceResponse)));
+
+		it('should send the requests with the given fetch and agent', async () => {
+			const customFetch = jest.fn().mockImplementation(jsonResponse);
+			const agent = { keepAlive: true };
+			const provider = new HttpProvider('http://localhost:8545', {
+				fetch: customFetch,
+				agent,
+			});
+
+			fetchMock.mockClear();
+			expect(await provider.request(jsonRpcPayload)).toStrictEqual(mockGetBalanceResponse);
+			expect(fetchMock).not.toHaveBeenCalled();
+			expect(customFetch).toHaveBeenCalledWith(
+				'http://localhost:8545',
+				expect.objectContaining({ agent, body: JSON.stringify(jsonRpcPayload) }),
+			);
+		});
+
+		it('should add the headers computed for each request', async () => {
+			const customFetch = jest.fn().mockImplementation(jsonResponse);
+			let token = 0;
+			const provider = new HttpProvider('http://localhost:8545', {
+				fetch: customFetch,
+				providerOptions: { headers: { 'X-Client': 'web3' } },
+				getHeaders: async () => {
+					token += 1;
+					return Promise.resolve({ Authorization: `Bearer ${token}` });
+				},
+			});
+
+			await provider.request(jsonRpcPayload);
+			await provider.request(jsonRpcPayload);
+
+			expect(customFetch.mock.calls[1][1].headers).toEqual({
+				'X-Client': 'web3',
+				Authorization: 'Bearer 2',
+				'Content-Type': 'application/json',
+			});
+		});
+
+		it('should compress the requests above the threshold', async () => {
+			const customFetch = jest.fn().mockImplementation(jsonResponse);
+			const compressed = new Uint8Array([1, 2, 3]);
+			const provider = new HttpProvider('http://localhost:8545', {
+				fetch: customFetch,
+				compression: { encoding: 'br', threshold: 200, compress: () => compressed },
+			});
+
+			await provider.request(jsonRpcPayload);
+			expect(customFetch.mock.calls[0][1].body).toBe(JSON.stringify(jsonRpcPayload));
+
+			const batch = [jsonRpcPayload, jsonRpcPayload] as unknown as typeof jsonRpcPayload;
+			await provider.request(batch);
+			expect(customFetch.mock.calls[1][1].body).toBe(compressed);
+			expect(customFetch.mock.calls[1][1].headers['Content-Encoding']).toBe('br');
+		});
+
+		it('should compress with gzip by default', async () => {
+			const customFetch = jest.fn().mockImplementation(jsonResponse);
+			const provider = new HttpProvider('http://localhost:8545', {
+				fetch: customFetch,
+				compression: { encoding: 'gzip', threshold: 0 },
+			});
+
+			await provider.request(jsonRpcPayload);
+
+			const { body } = customFetch.mock.calls[0][1];
+			expect(gunzipSync(body).toString()).toBe(JSON.stringify(jsonRpcPayload));
+		});
+
+		it('should require a compress function for brotli', () => {
+			expect(
+				() =>
+					new HttpProvider('http://localhost:8545', { compression: { encoding: 'br' } }),
+			).toThrow(ProviderError);
+		});
+	});
 });
@@ -18,10 +18,13 @@ import { Web3RequestManager } from '@etn-sc/web3-core';
 import {
 	Address,
 	BlockNumberOrTag,
+	BlockOverridesAPI,
 	Filter,
 	HexString32Bytes,
 	HexString8Bytes,
 	HexStringBytes,
+	StateOverrideAPI,
+	TraceCallOptionsAPI,
 	TransactionCallAPI,
 	TransactionWithSenderAPI,
 	Uint,
@@ -241,18 +244,36 @@ export async function sendRawTransaction(
 	});
 }
 
+// The overrides are only sent if given, as some nodes reject the extra parameters
+const overridesParams = (
+	stateOverride?: StateOverrideAPI,
+	blockOverrides?: BlockOverridesAPI,
+): [] | [StateOverrideAPI] | [StateOverrideAPI, BlockOverridesAPI] => {
+	if (stateOverride) {
+		validator.validate(['stateOverride'], [stateOverride]);
+	}
+	if (blockOverrides) {
+		validator.validate(['blockOverrides'], [blockOverrides]);
+		return [stateOverride ?? {}, blockOverrides];
+	}
+
+	return stateOverride ? [stateOverride] : [];
+};
+
 // TODO - validate transaction
 export async function call(
 	requestManager: Web3RequestManager,
 	transaction: TransactionCallAPI,
 	blockNumber: BlockNumberOrTag,
+	stateOverride?: StateOverrideAPI,
+	blockOverrides?: BlockOverridesAPI,
 ) {
 	// validateTransactionCall(transaction);
 	validator.validate(['blockNumberOrTag'], [blockNumber]);
 
 	return requestManager.send({
 		method: 'eth_call',
-		params: [transaction, blockNumber],
+		params: [transaction, blockNumber, ...overridesParams(stateOverride, blockOverrides)],
 	});
 }
 
@@ -261,12 +282,14 @@ export async function estimateGas(
 	requestManager: Web3RequestManager,
 	transaction: Partial<TransactionWithSenderAPI>,
 	blockNumber: BlockNumberOrTag,
+	stateOverride?: StateOverrideAPI,
+	blockOverrides?: BlockOverridesAPI,
 ) {
 	validator.validate(['blockNumberOrTag'], [blockNumber]);
 
 	return requestManager.send({
 		method: 'eth_estimateGas',
-		params: [transaction, blockNumber],
+		params: [transaction, blockNumber, ...overridesParams(stateOverride, blockOverrides)],
 	});
 }
 
@@ -557,6 +580,20 @@ export async function getProof(
 	});
 }
 
+export async function traceCall(
+	requestManager: Web3RequestManager<Web3EthExecutionAPI>,
+	transaction: TransactionCallAPI,
+	blockNumber: BlockNumberOrTag,
+	traceOptions: TraceCallOptionsAPI,
+) {
+	validator.validate(['blockNumberOrTag'], [blockNumber]);
+
+	return requestManager.send({
+		method: 'debug_traceCall',
+		params: [transaction, blockNumber, traceOptions],
+	});
+}
+
 export async function getNodeInfo(requestManager: Web3RequestManager<Web3EthExecutionAPI>) {
 	return requestManager.send({
 		method: 'web3_clientVersion',
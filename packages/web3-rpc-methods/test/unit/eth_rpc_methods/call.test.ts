@@ -68,4 +68,18 @@ describe('call', () => {
 			expect(validatorSpy).toHaveBeenCalledWith(['blockNumberOrTag'], [expectedBlockNumber]);
 		},
 	);
+
+	it('should send an empty state override before the block overrides', async () => {
+		const validatorSpy = jest.spyOn(validator, 'validate');
+		const [[, [transaction, blockNumber]]] = testData;
+		const blockOverrides = { number: '0x4b7' };
+
+		await ethRpcMethods.call(requestManager, transaction, blockNumber, undefined, blockOverrides);
+
+		expect(requestManagerSendSpy).toHaveBeenCalledWith({
+			method: 'eth_call',
+			params: [transaction, blockNumber, {}, blockOverrides],
+		});
+		expect(validatorSpy).toHaveBeenCalledWith(['blockOverrides'], [blockOverrides]);
+	});
 });
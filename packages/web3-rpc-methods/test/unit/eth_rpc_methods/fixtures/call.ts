@@ -15,7 +15,13 @@ You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 
-import { TransactionCallAPI, BlockTags, BlockNumberOrTag } from '@etn-sc/web3-types';
+import {
+	TransactionCallAPI,
+	BlockTags,
+	BlockNumberOrTag,
+	BlockOverridesAPI,
+	StateOverrideAPI,
+} from '@etn-sc/web3-types';
 
 export const mockRpcResponse = '0x5208';
 
@@ -31,14 +37,25 @@ const transaction: TransactionCallAPI = {
 	data: '0x',
 };
 
+const stateOverride: StateOverrideAPI = {
+	'0xEB014f8c8B418Db6b45774c326A0E64C78914dC0': { balance: '0xde0b6b3a7640000' },
+};
+
+const blockOverrides: BlockOverridesAPI = { number: '0x4b7', time: '0x6553f100' };
+
 /**
  * Array consists of:
  * - Test title
  * - Input parameters:
  * 	   - transaction
  *     - blockNumber
+ *     - stateOverride
+ *     - blockOverrides
  */
-type TestData = [string, [TransactionCallAPI, BlockNumberOrTag]];
+type TestData = [
+	string,
+	[TransactionCallAPI, BlockNumberOrTag, StateOverrideAPI?, BlockOverridesAPI?],
+];
 export const testData: TestData[] = [
 	[
 		`${JSON.stringify(transaction)}\nblockNumber = BlockTags.LATEST`,
@@ -58,4 +75,14 @@ export const testData: TestData[] = [
 		[transaction, BlockTags.FINALIZED],
 	],
 	[`${JSON.stringify(transaction)}\nblockNumber = "0x4b7"`, [transaction, '0x4b7']],
+	[
+		`${JSON.stringify(transaction)}\nblockNumber = BlockTags.LATEST\nstateOverride`,
+		[transaction, BlockTags.LATEST, stateOverride],
+	],
+	[
+		`${JSON.stringify(
+			transaction,
+		)}\nblockNumber = BlockTags.LATEST\nstateOverride and blockOverrides`,
+		[transaction, BlockTags.LATEST, stateOverride, blockOverrides],
+	],
 ];
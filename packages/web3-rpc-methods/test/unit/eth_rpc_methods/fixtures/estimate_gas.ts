@@ -14,7 +14,13 @@ GNU Lesser General Public License for more details.
 You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
-import { TransactionWithSenderAPI, BlockTags, BlockNumberOrTag } from '@etn-sc/web3-types';
+import {
+	TransactionWithSenderAPI,
+	BlockTags,
+	BlockNumberOrTag,
+	BlockOverridesAPI,
+	StateOverrideAPI,
+} from '@etn-sc/web3-types';
 
 export const mockRpcResponse = '0x5208';
 
@@ -32,14 +38,25 @@ const transaction: Partial<TransactionWithSenderAPI> = {
 	chainId: '0x1',
 };
 
+const stateOverride: StateOverrideAPI = {
+	'0xEB014f8c8B418Db6b45774c326A0E64C78914dC0': { balance: '0xde0b6b3a7640000' },
+};
+
+const blockOverrides: BlockOverridesAPI = { number: '0x4b7', time: '0x6553f100' };
+
 /**
  * Array consists of:
  * - Test title
  * - Input parameters:
  * 	   - transaction
  *     - blockNumber
+ *     - stateOverride
+ *     - blockOverrides
  */
-type TestData = [string, [Partial<TransactionWithSenderAPI>, BlockNumberOrTag]];
+type TestData = [
+	string,
+	[Partial<TransactionWithSenderAPI>, BlockNumberOrTag, StateOverrideAPI?, BlockOverridesAPI?],
+];
 export const testData: TestData[] = [
 	[
 		`${JSON.stringify(transaction)}\nblockNumber = BlockTags.LATEST`,
@@ -59,4 +76,14 @@ export const testData: TestData[] = [
 		[transaction, BlockTags.FINALIZED],
 	],
 	[`${JSON.stringify(transaction)}\nblockNumber = "0x4b7"`, [transaction, '0x4b7']],
+	[
+		`${JSON.stringify(transaction)}\nblockNumber = BlockTags.LATEST\nstateOverride`,
+		[transaction, BlockTags.LATEST, stateOverride],
+	],
+	[
+		`${JSON.stringify(
+			transaction,
+		)}\nblockNumber = BlockTags.LATEST\nstateOverride and blockOverrides`,
+		[transaction, BlockTags.LATEST, stateOverride, blockOverrides],
+	],
 ];
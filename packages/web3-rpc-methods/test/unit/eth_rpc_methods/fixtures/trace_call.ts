@@ -0,0 +1,49 @@
+/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import {
+	BlockNumberOrTag,
+	BlockTags,
+	TraceCallOptionsAPI,
+	TransactionCallAPI,
+} from '@etn-sc/web3-types';
+
+const transaction: TransactionCallAPI = {
+	from: '0xEB014f8c8B418Db6b45774c326A0E64C78914dC0',
+	to: '0x407d73d8a49eeb85d32cf465507dd71d507100c1',
+	value: '0x1',
+	data: '0xd0e30db0',
+};
+
+/**
+ * Array consists of:
+ * - Test title
+ * - Input parameters:
+ *     - transaction
+ *     - blockNumber
+ *     - traceOptions
+ */
+type TestData = [string, [TransactionCallAPI, BlockNumberOrTag, TraceCallOptionsAPI]];
+export const testData: TestData[] = [
+	[
+		'blockNumber = BlockTags.LATEST, tracer = "callTracer"',
+		[transaction, BlockTags.LATEST, { tracer: 'callTracer' }],
+	],
+	[
+		'blockNumber = "0x4b7", tracer = "callTracer" with the logs',
+		[transaction, '0x4b7', { tracer: 'callTracer', tracerConfig: { withLog: true } }],
+	],
+];
@@ -78,6 +78,13 @@ export interface Transaction1559SignedAPI extends Transaction1559UnsignedAPI {
 	readonly v?: never;
 }
 
+// Electroneum ETNIP-1 priority transaction (type 0x40), co-signed by a priority signer
+export interface TransactionPriorityETNIP1SignedAPI extends Transaction1559SignedAPI {
+	readonly priorityV: Uint;
+	readonly priorityR: Uint;
+	readonly priorityS: Uint;
+}
+
 export interface Transaction2930UnsignedAPI extends BaseTransactionAPI {
 	readonly gasPrice: Uint;
 	readonly accessList: AccessList;
@@ -113,6 +120,7 @@ export type TransactionUnsignedAPI =
 
 // https://github.com/ethereum/execution-apis/blob/main/src/schemas/transaction.yaml#L211
 export type TransactionSignedAPI =
+	| TransactionPriorityETNIP1SignedAPI
 	| Transaction1559SignedAPI
 	| Transaction2930SignedAPI
 	| TransactionLegacySignedAPI;
@@ -166,6 +174,61 @@ export type FeeHistoryResultAPI = FeeHistoryBase<Uint>;
 // https://github.com/ethereum/execution-apis/blob/main/src/schemas/filter.yaml#L2
 export type FilterResultsAPI = HexString32Bytes[] | LogAPI[];
 
+export interface AccountOverrideAPI {
+	readonly balance?: Uint;
+	readonly nonce?: Uint;
+	readonly code?: HexStringBytes;
+	readonly state?: Record<HexString32Bytes, HexString32Bytes>;
+	readonly stateDiff?: Record<HexString32Bytes, HexString32Bytes>;
+}
+
+export type StateOverrideAPI = Record<Address, AccountOverrideAPI>;
+
+export interface BlockOverridesAPI {
+	readonly number?: Uint;
+	readonly difficulty?: Uint;
+	readonly time?: Uint;
+	readonly gasLimit?: Uint;
+	readonly coinbase?: Address;
+	readonly random?: HexString32Bytes;
+	readonly baseFee?: Uint;
+}
+
+// https://geth.ethereum.org/docs/developers/evm-tracing/built-in-tracers#call-tracer
+export interface TraceCallOptionsAPI {
+	readonly tracer?: string;
+	readonly tracerConfig?: {
+		readonly onlyTopCall?: boolean;
+		readonly withLog?: boolean;
+	};
+	readonly timeout?: string;
+	readonly stateOverrides?: StateOverrideAPI;
+	readonly blockOverrides?: BlockOverridesAPI;
+}
+
+export interface CallLogAPI {
+	readonly address: Address;
+	readonly topics: HexString32Bytes[];
+	readonly data: HexStringBytes;
+	// The number of calls of the frame made before the log
+	readonly position?: Uint;
+}
+
+export interface CallFrameAPI {
+	readonly type: string;
+	readonly from: Address;
+	readonly to?: Address;
+	readonly value?: Uint;
+	readonly gas: Uint;
+	readonly gasUsed: Uint;
+	readonly input: HexStringBytes;
+	readonly output?: HexStringBytes;
+	readonly error?: string;
+	readonly revertReason?: string;
+	readonly calls?: CallFrameAPI[];
+	readonly logs?: CallLogAPI[];
+}
+
 export interface CompileResultAPI {
 	readonly code: HexStringBytes;
 	readonly info: {
@@ -220,10 +283,17 @@ export type EthExecutionAPI = {
 	eth_blockNumber: () => Uint;
 
 	// https://github.com/ethereum/execution-apis/blob/main/src/eth/execute.yaml
-	eth_call: (transaction: TransactionCallAPI, blockNumber: BlockNumberOrTag) => HexStringBytes;
+	eth_call: (
+		transaction: TransactionCallAPI,
+		blockNumber: BlockNumberOrTag,
+		stateOverride?: StateOverrideAPI,
+		blockOverrides?: BlockOverridesAPI,
+	) => HexStringBytes;
 	eth_estimateGas: (
 		transaction: Partial<TransactionWithSenderAPI>,
 		blockNumber: BlockNumberOrTag,
+		stateOverride?: StateOverrideAPI,
+		blockOverrides?: BlockOverridesAPI,
 	) => Uint;
 
 	// https://github.com/ethereum/execution-apis/blob/main/src/eth/fee_market.yaml
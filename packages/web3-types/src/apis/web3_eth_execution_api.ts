@@ -14,7 +14,12 @@ GNU Lesser General Public License for more details.
 You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
-import { EthExecutionAPI } from './eth_execution_api.js';
+import {
+	CallFrameAPI,
+	EthExecutionAPI,
+	TraceCallOptionsAPI,
+	TransactionCallAPI,
+} from './eth_execution_api.js';
 import {
 	AccountObject,
 	Address,
@@ -57,4 +62,11 @@ export type Web3EthExecutionAPI = EthExecutionAPI & {
 		typedData: Eip712TypedData,
 		useLegacy: false | undefined,
 	) => HexString256Bytes;
+
+	// https://geth.ethereum.org/docs/interacting-with-geth/rpc/ns-debug#debugtracecall
+	debug_traceCall: (
+		transaction: TransactionCallAPI,
+		blockNumber: BlockNumberOrTag,
+		traceOptions: TraceCallOptionsAPI,
+	) => CallFrameAPI;
 };
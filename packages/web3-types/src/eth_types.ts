@@ -257,6 +257,40 @@ export interface Filter {
 	readonly filter?: FilterOption;
 }
 
+// https://geth.ethereum.org/docs/interacting-with-geth/rpc/ns-eth#eth-call
+export interface AccountOverride {
+	readonly balance?: Numbers;
+	readonly nonce?: Numbers;
+	readonly code?: Bytes;
+	// The whole storage of the account, replaced by the given slots
+	readonly state?: Record<HexString32Bytes, HexString32Bytes>;
+	// The slots of the storage to override, the other ones are kept
+	readonly stateDiff?: Record<HexString32Bytes, HexString32Bytes>;
+}
+
+export type StateOverride = Record<Address, AccountOverride>;
+
+export interface BlockOverrides {
+	readonly number?: Numbers;
+	readonly difficulty?: Numbers;
+	readonly time?: Numbers;
+	readonly gasLimit?: Numbers;
+	readonly coinbase?: Address;
+	readonly random?: HexString32Bytes;
+	readonly baseFee?: Numbers;
+}
+
+export interface CallOverrides {
+	/**
+	 * The balance, nonce, code and storage of the accounts to override for the call
+	 */
+	readonly stateOverride?: StateOverride;
+	/**
+	 * The fields of the block to override for the call
+	 */
+	readonly blockOverrides?: BlockOverrides;
+}
+
 export interface AccessListEntry {
 	readonly address?: Address;
 	readonly storageKeys?: HexString32Bytes[];
@@ -268,7 +302,15 @@ export type AccessListResult = {
 	readonly gasUsed?: Numbers;
 };
 
-export type ValidChains = 'goerli' | 'kovan' | 'mainnet' | 'rinkeby' | 'ropsten' | 'sepolia';
+export type ValidChains =
+	| 'goerli'
+	| 'kovan'
+	| 'mainnet'
+	| 'rinkeby'
+	| 'ropsten'
+	| 'sepolia'
+	| 'electroneum'
+	| 'electroneumtestnet';
 
 // This list of hardforks is expected to be in order
 // keep this in mind when making changes to it
@@ -286,6 +328,8 @@ export enum HardforksOrdered {
 	muirGlacier = 'muirGlacier',
 	berlin = 'berlin',
 	london = 'london',
+	// The Electroneum chains activate priority after london, without the later Ethereum forks
+	priority = 'priority',
 	altair = 'altair',
 	arrowGlacier = 'arrowGlacier',
 	grayGlacier = 'grayGlacier',
@@ -421,6 +465,9 @@ export interface TransactionInfo extends Transaction {
 	readonly from: Address;
 	readonly hash: Bytes;
 	readonly transactionIndex?: Numbers;
+	readonly priorityV?: Numbers;
+	readonly priorityR?: Bytes;
+	readonly priorityS?: Bytes;
 }
 
 export interface PopulatedUnsignedBaseTransaction {
@@ -497,7 +544,7 @@ export type Block = BlockBase<
 
 export interface FeeHistoryBase<NumberType> {
 	readonly oldestBlock: NumberType;
-	readonly baseFeePerGas: NumberType;
+	readonly baseFeePerGas: NumberType[];
 	readonly reward: NumberType[][];
 	readonly gasUsedRatio: NumberType[];
 }
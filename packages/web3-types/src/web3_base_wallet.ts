@@ -117,4 +117,8 @@ export abstract class Web3BaseWallet<T extends Web3BaseWalletAccount> extends Ar
 	): Promise<this>;
 	public abstract save(password: string, keyName?: string): Promise<boolean | never>;
 	public abstract load(password: string, keyName?: string): Promise<this | never>;
+	// Optional, the wallets not supporting the priority transactions do not implement them
+	public setPrioritySigner?(address: string, prioritySigner: T | string): this;
+	public getPrioritySigner?(address: string): T | undefined;
+	public removePrioritySigner?(address: string): boolean;
 }
@@ -69,6 +69,13 @@ export const ethUnitMap = {
 	mether: BigInt('1000000000000000000000000'),
 	gether: BigInt('1000000000000000000000000000'),
 	tether: BigInt('1000000000000000000000000000000'),
+	// Electroneum denominations, ETN has 18 decimals like ether
+	nanoetn: BigInt(1000000000),
+	microetn: BigInt(1000000000000),
+	millietn: BigInt(1000000000000000),
+	etn: BigInt('1000000000000000000'),
+	kiloetn: BigInt('1000000000000000000000'),
+	megaetn: BigInt('1000000000000000000000000'),
 };
 
 export type EtherUnits = keyof typeof ethUnitMap;
@@ -454,52 +461,47 @@ export const toBigInt = (value: unknown): bigint => {
 };
 
 /**
- * Takes a number of wei and converts it to any other ether unit.
- * @param number - The value in wei
- * @param unit - The unit to convert to
- * @returns - Returns the converted value in the given unit
+ * Takes an integer amount of the smallest unit of a token and converts it to a decimal string,
+ * using the given number of decimals.
+ * @param number - The integer amount, e.g. a token balance
+ * @param decimals - The number of decimals of the token
+ * @returns - Returns the amount as a decimal string
  *
  * @example
  * ```ts
- * console.log(web3.utils.fromWei("1", "ether"));
- * > 0.000000000000000001
+ * console.log(web3.utils.formatUnits("1234567", 6));
+ * > 1.234567
  *
- * console.log(web3.utils.fromWei("1", "shannon"));
- * > 0.000000001
+ * console.log(web3.utils.formatUnits("1", 2));
+ * > 0.01
  * ```
  */
-export const fromWei = (number: Numbers, unit: EtherUnits): string => {
-	const denomination = ethUnitMap[unit];
-
-	if (!denomination) {
-		throw new InvalidUnitError(unit);
+export const formatUnits = (number: Numbers, decimals: number): string => {
+	if (!Number.isInteger(decimals) || decimals < 0) {
+		throw new InvalidNumberError(decimals);
 	}
 
-	// value in wei would always be integer
+	// value in the smallest unit would always be integer
 	// 13456789, 1234
 	const value = String(toNumber(number));
 
-	// count number of zeros in denomination
-	// 1000000 -> 6
-	const numberOfZerosInDenomination = denomination.toString().length - 1;
-
-	if (numberOfZerosInDenomination <= 0) {
+	if (decimals === 0) {
 		return value.toString();
 	}
 
 	// pad the value with required zeros
 	// 13456789 -> 13456789, 1234 -> 001234
-	const zeroPaddedValue = value.padStart(numberOfZerosInDenomination, '0');
+	const zeroPaddedValue = value.padStart(decimals, '0');
 
 	// get the integer part of value by counting number of zeros from start
 	// 13456789 -> '13'
 	// 001234 -> ''
-	const integer = zeroPaddedValue.slice(0, -numberOfZerosInDenomination);
+	const integer = zeroPaddedValue.slice(0, -decimals);
 
 	// get the fraction part of value by counting number of zeros backward
 	// 13456789 -> '456789'
 	// 001234 -> '001234'
-	const fraction = zeroPaddedValue.slice(-numberOfZerosInDenomination).replace(/\.?0+$/, '');
+	const fraction = zeroPaddedValue.slice(-decimals).replace(/\.?0+$/, '');
 
 	if (integer === '') {
 		return `0.${fraction}`;
@@ -513,26 +515,23 @@ export const fromWei = (number: Numbers, unit: EtherUnits): string => {
 };
 
 /**
- * Takes a number of a unit and converts it to wei.
- *
- * @param number - The number to convert.
- * @param unit - {@link EtherUnits} The unit of the number passed.
- * @returns The number converted to wei.
+ * Takes a decimal amount of a token and converts it to an integer amount of its smallest unit,
+ * using the given number of decimals. Digits beyond the given number of decimals are truncated.
+ * @param number - The decimal amount
+ * @param decimals - The number of decimals of the token
+ * @returns - Returns the integer amount as a string
  *
  * @example
  * ```ts
- * console.log(web3.utils.toWei("0.001", "ether"));
- * > 1000000000000000 //(wei)
+ * console.log(web3.utils.parseUnits("1.234567", 6));
+ * > 1234567
  * ```
  */
-// todo in 1.x unit defaults to 'ether'
-export const toWei = (number: Numbers, unit: EtherUnits): string => {
+export const parseUnits = (number: Numbers, decimals: number): string => {
 	validator.validate(['number'], [number]);
 
-	const denomination = ethUnitMap[unit];
-
-	if (!denomination) {
-		throw new InvalidUnitError(unit);
+	if (!Number.isInteger(decimals) || decimals < 0) {
+		throw new InvalidNumberError(decimals);
 	}
 
 	// if value is decimal e.g. 24.56 extract `integer` and `fraction` part
@@ -547,23 +546,68 @@ export const toWei = (number: Numbers, unit: EtherUnits): string => {
 	// 24.56 -> 2456
 	const value = BigInt(`${integer}${fraction}`);
 
-	// multiply value with denomination
-	// 2456 * 1000000 -> 2456000000
-	const updatedValue = value * denomination;
+	// scale the joined value from the `fraction` digits to the required decimals
+	// 2456 with 6 decimals -> 2456 * 10000 -> 24560000
+	// 2456 with 1 decimal -> 2456 / 10 -> 245
+	if (fraction.length <= decimals) {
+		return (value * BigInt(`1${'0'.repeat(decimals - fraction.length)}`)).toString();
+	}
+
+	return (value / BigInt(`1${'0'.repeat(fraction.length - decimals)}`)).toString();
+};
+
+/**
+ * Takes a number of wei and converts it to any other ether unit.
+ * @param number - The value in wei
+ * @param unit - The unit to convert to
+ * @returns - Returns the converted value in the given unit
+ *
+ * @example
+ * ```ts
+ * console.log(web3.utils.fromWei("1", "ether"));
+ * > 0.000000000000000001
+ *
+ * console.log(web3.utils.fromWei("1", "shannon"));
+ * > 0.000000001
+ * ```
+ */
+export const fromWei = (number: Numbers, unit: EtherUnits): string => {
+	const denomination = ethUnitMap[unit];
+
+	if (!denomination) {
+		throw new InvalidUnitError(unit);
+	}
 
 	// count number of zeros in denomination
-	const numberOfZerosInDenomination = denomination.toString().length - 1;
+	// 1000000 -> 6
+	return formatUnits(number, denomination.toString().length - 1);
+};
 
-	// check which either `fraction` or `denomination` have lower number of zeros
-	const decimals = Math.min(fraction.length, numberOfZerosInDenomination);
+/**
+ * Takes a number of a unit and converts it to wei.
+ *
+ * @param number - The number to convert.
+ * @param unit - {@link EtherUnits} The unit of the number passed.
+ * @returns The number converted to wei.
+ *
+ * @example
+ * ```ts
+ * console.log(web3.utils.toWei("0.001", "ether"));
+ * > 1000000000000000 //(wei)
+ * ```
+ */
+// todo in 1.x unit defaults to 'ether'
+export const toWei = (number: Numbers, unit: EtherUnits): string => {
+	validator.validate(['number'], [number]);
 
-	if (decimals === 0) {
-		return updatedValue.toString();
+	const denomination = ethUnitMap[unit];
+
+	if (!denomination) {
+		throw new InvalidUnitError(unit);
 	}
 
-	// Add zeros to make length equal to required decimal points
-	// If string is larger than decimal points required then remove last zeros
-	return updatedValue.toString().padStart(decimals, '0').slice(0, -decimals);
+	// count number of zeros in denomination
+	return parseUnits(number, denomination.toString().length - 1);
 };
 
 /**
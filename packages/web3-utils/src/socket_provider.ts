@@ -449,10 +449,16 @@ export abstract class SocketProvider<
 	}
 
 	protected _onConnect() {
+		const reconnectAttempts = this._reconnectAttempts;
 		this._connectionStatus = 'connected';
 		this._reconnectAttempts = 0;
 		super._onConnect();
 		this._sendPendingRequests();
+
+		// The subscriptions of the previous connection are lost, let the listeners restore them
+		if (reconnectAttempts > 0) {
+			this._eventEmitter.emit('reconnect', { attempts: reconnectAttempts });
+		}
 	}
 
 	private _sendPendingRequests() {
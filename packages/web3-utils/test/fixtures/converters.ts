@@ -275,6 +275,15 @@ const conversionBaseData: [[Numbers, EtherUnits], string][] = [
 	[['178373938391829348', 'ether'], '0.178373938391829348'],
 	[['879123456788877661', 'gwei'], '879123456.788877661'],
 	[['879123456788877661', 'tether'], '0.000000000000879123456788877661'],
+	[['1', 'nanoetn'], '0.000000001'],
+	[['1', 'microetn'], '0.000000000001'],
+	[['1', 'millietn'], '0.000000000000001'],
+	[['1', 'etn'], '0.000000000000000001'],
+	[['1', 'kiloetn'], '0.000000000000000000001'],
+	[['1', 'megaetn'], '0.000000000000000000000001'],
+	[['1000000000000000000', 'etn'], '1'],
+	[['178373938391829348', 'etn'], '0.178373938391829348'],
+	[['1000000000000000000000000', 'megaetn'], '1'],
 ];
 
 export const fromWeiValidData: [[Numbers, EtherUnits], string][] = [
@@ -308,6 +317,46 @@ export const toWeiInvalidData: [[any, any], string][] = [
 	[['data', 'kwei'], 'value "data" at "/0" must pass "number" validation'],
 	[['1234', 'uwei'], 'Invalid value given "uwei". Error: invalid unit.'],
 ];
+export const formatUnitsValidData: [[Numbers, number], string][] = [
+	[[0, 0], '0'],
+	[['123', 0], '123'],
+	[[BigInt(123), 2], '1.23'],
+	[['1', 2], '0.01'],
+	[['100', 2], '1'],
+	[['1234567', 6], '1.234567'],
+	[['1000000000000000000', 18], '1'],
+	[['900000000000000000000000000000000001', 36], '0.900000000000000000000000000000000001'],
+	[['0xff', 1], '25.5'],
+];
+
+export const parseUnitsValidData: [[Numbers, number], string][] = [
+	[[0, 0], '0'],
+	[['123', 0], '123'],
+	[['1.23', 2], '123'],
+	[['0.01', 2], '1'],
+	[['1', 2], '100'],
+	[['1.234567', 6], '1234567'],
+	[['1', 18], '1000000000000000000'],
+	[['0.900000000000000000000000000000000001', 36], '900000000000000000000000000000000001'],
+	// digits beyond the given decimals are truncated
+	[['1.239', 2], '123'],
+	[['0.001', 2], '0'],
+];
+
+export const formatUnitsInvalidData: [[any, any], string][] = [
+	[['123.34', 2], 'Invalid value given "123.34". Error: can not parse as number data.'],
+	[['data', 2], 'Invalid value given "data". Error: can not parse as number data.'],
+	[['1234', -1], 'Invalid value given "-1". Error: can not parse as number data.'],
+	[['1234', 1.5], 'Invalid value given "1.5". Error: can not parse as number data.'],
+];
+
+export const parseUnitsInvalidData: [[any, any], string][] = [
+	[['data', 2], 'value "data" at "/0" must pass "number" validation'],
+	[[{}, 2], 'value "{}" at "/0" must pass "number" validation'],
+	[['1234', -1], 'Invalid value given "-1". Error: can not parse as number data.'],
+	[['1234', 1.5], 'Invalid value given "1.5". Error: can not parse as number data.'],
+];
+
 export const toCheckSumValidData: [string, string][] = [
 	['0x0089d53f703f7e0843953d48133f74ce247184c2', '0x0089d53F703f7E0843953D48133f74cE247184c2'],
 	['0x5fbc2b6c19ee3dd5f9af96ff337ddc89e30ceaef', '0x5FBc2b6C19EE3DD5f9Af96ff337DDC89e30ceAef'],
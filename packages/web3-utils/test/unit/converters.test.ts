@@ -22,6 +22,8 @@ import {
 	fromDecimal,
 	fromUtf8,
 	fromWei,
+	formatUnits,
+	parseUnits,
 	hexToAscii,
 	hexToBytes,
 	hexToNumber,
@@ -47,6 +49,10 @@ import {
 	bytesToHexInvalidData,
 	bytesToHexValidData,
 	fromWeiInvalidData,
+	formatUnitsInvalidData,
+	formatUnitsValidData,
+	parseUnitsInvalidData,
+	parseUnitsValidData,
 	fromWeiValidData,
 	hexToAsciiValidData,
 	hexToBytesInvalidData,
@@ -363,6 +369,33 @@ describe('converters', () => {
 			});
 		});
 	});
+	describe('formatUnits', () => {
+		describe('valid cases', () => {
+			it.each(formatUnitsValidData)('%s', (input, output) => {
+				expect(formatUnits(input[0], input[1])).toEqual(output);
+			});
+		});
+
+		describe('invalid cases', () => {
+			it.each(formatUnitsInvalidData)('%s', (input, output) => {
+				expect(() => formatUnits(input[0], input[1])).toThrow(output);
+			});
+		});
+	});
+
+	describe('parseUnits', () => {
+		describe('valid cases', () => {
+			it.each(parseUnitsValidData)('%s', (input, output) => {
+				expect(parseUnits(input[0], input[1])).toEqual(output);
+			});
+		});
+
+		describe('invalid cases', () => {
+			it.each(parseUnitsInvalidData)('%s', (input, output) => {
+				expect(() => parseUnits(input[0], input[1])).toThrow(output);
+			});
+		});
+	});
 	describe('toChecksumAddress', () => {
 		describe('valid cases', () => {
 			it.each(toCheckSumValidData)('%s', (input, output) => {
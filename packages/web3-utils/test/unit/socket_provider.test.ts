@@ -96,6 +96,28 @@ describe('SocketProvider', () => {
 			});
 		});
 
+		describe('testing _onConnect() method', () => {
+			it('should emit "reconnect" when connected after a reconnection attempt', () => {
+				const provider = new TestProvider(socketPath, socketOption);
+				const reconnectListener = jest.fn();
+				provider.on('reconnect', reconnectListener);
+				// @ts-expect-error run protected method
+				jest.spyOn(provider, '_getChainId').mockResolvedValue('0x1');
+				// @ts-expect-error run protected method
+				jest.spyOn(provider, '_getAccounts').mockResolvedValue([]);
+
+				// @ts-expect-error run protected method
+				provider._onConnect();
+				expect(reconnectListener).not.toHaveBeenCalled();
+
+				// @ts-expect-error set protected property
+				provider._reconnectAttempts = 1;
+				// @ts-expect-error run protected method
+				provider._onConnect();
+				expect(reconnectListener).toHaveBeenCalledWith({ attempts: 1 });
+			});
+		});
+
 		describe('testing connect() method', () => {
 			it('should call method reconnect in case of error at _openSocketConnection', async () => {
 				const provider = new TestProvider(socketPath, socketOption);
@@ -14,7 +14,7 @@ GNU Lesser General Public License for more details.
 You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
-import { Filter } from '@etn-sc/web3-types';
+import { BlockOverrides, Filter, StateOverride } from '@etn-sc/web3-types';
 import { ValidInputTypes } from './types.js';
 import { isAddress } from './validation/address.js';
 import { isBlockNumber, isBlockNumberOrTag, isBlockTag } from './validation/block.js';
@@ -24,6 +24,7 @@ import { isBytes } from './validation/bytes.js';
 import { isFilterObject } from './validation/filter.js';
 import { isHexStrict, isString } from './validation/string.js';
 import { isNumber, isInt, isUInt } from './validation/numbers.js';
+import { isBlockOverrides, isStateOverride } from './validation/overrides.js';
 
 const formats: { [key: string]: (data: unknown) => boolean } = {
 	address: (data: unknown) => isAddress(data as ValidInputTypes),
@@ -31,6 +32,7 @@ const formats: { [key: string]: (data: unknown) => boolean } = {
 	blockNumber: (data: unknown) => isBlockNumber(data as string | number | bigint),
 	blockTag: (data: unknown) => isBlockTag(data as string),
 	blockNumberOrTag: (data: unknown) => isBlockNumberOrTag(data as string | number | bigint),
+	blockOverrides: (data: unknown) => isBlockOverrides(data as BlockOverrides),
 	bool: (data: unknown) => isBoolean(data as ValidInputTypes),
 	bytes: (data: unknown) => isBytes(data as ValidInputTypes | Uint8Array | number[]),
 	filter: (data: unknown) => isFilterObject(data as Filter),
@@ -38,6 +40,7 @@ const formats: { [key: string]: (data: unknown) => boolean } = {
 	uint: (data: unknown) => isUInt(data as ValidInputTypes),
 	int: (data: unknown) => isInt(data as ValidInputTypes),
 	number: (data: unknown) => isNumber(data as ValidInputTypes),
+	stateOverride: (data: unknown) => isStateOverride(data as StateOverride),
 	string: (data: unknown) => isString(data as ValidInputTypes),
 };
 // generate formats for all numbers types
@@ -40,7 +40,9 @@ export type EthExtendedTypes =
 	| 'blockNumber'
 	| 'blockNumberOrTag'
 	| 'filter'
-	| 'bloom';
+	| 'bloom'
+	| 'stateOverride'
+	| 'blockOverrides';
 
 export type FullValidationSchema = ReadonlyArray<AbiParameter>;
 export type ShortValidationSchema = ReadonlyArray<
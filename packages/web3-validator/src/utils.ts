@@ -28,7 +28,16 @@ import { isAbiParameterSchema } from './validation/abi.js';
 import { isHexStrict } from './validation/string.js';
 import { Web3ValidatorError } from './errors.js';
 
-const extraTypes = ['hex', 'number', 'blockNumber', 'blockNumberOrTag', 'filter', 'bloom'];
+const extraTypes = [
+	'hex',
+	'number',
+	'blockNumber',
+	'blockNumberOrTag',
+	'filter',
+	'bloom',
+	'stateOverride',
+	'blockOverrides',
+];
 
 export const parseBaseType = <T = typeof VALID_ETH_BASE_TYPES[number]>(
 	type: string,
@@ -23,6 +23,7 @@ export * from './bytes.js';
 export * from './eth.js';
 export * from './filter.js';
 export * from './numbers.js';
+export * from './overrides.js';
 export * from './string.js';
 export * from './topic.js';
 export * from './object.js';
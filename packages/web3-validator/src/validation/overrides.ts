@@ -0,0 +1,118 @@
+﻿/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import { AccountOverride, BlockOverrides, StateOverride } from '@etn-sc/web3-types';
+import { isAddress } from './address.js';
+import { isBytes } from './bytes.js';
+import { isUInt } from './numbers.js';
+import { isNullish } from './object.js';
+
+const isStorage = (value: unknown) =>
+	!isNullish(value) &&
+	typeof value === 'object' &&
+	Object.entries(value as Record<string, unknown>).every(
+		([slot, slotValue]) =>
+			isBytes(slot, { size: 32 }) && isBytes(slotValue as string, { size: 32 }),
+	);
+
+/**
+ * Checks the overrides of an account in a {@link StateOverride}.
+ * All the properties are optional, but `state` and `stateDiff` can not be both given.
+ */
+export const isAccountOverride = (value: AccountOverride) => {
+	const expectedProperties: (keyof AccountOverride)[] = [
+		'balance',
+		'nonce',
+		'code',
+		'state',
+		'stateDiff',
+	];
+	if (isNullish(value) || typeof value !== 'object') return false;
+
+	if (
+		!Object.keys(value).every(property =>
+			expectedProperties.includes(property as keyof AccountOverride),
+		)
+	)
+		return false;
+
+	if (
+		(!isNullish(value.balance) && !isUInt(value.balance)) ||
+		(!isNullish(value.nonce) && !isUInt(value.nonce)) ||
+		(!isNullish(value.code) && !isBytes(value.code))
+	)
+		return false;
+
+	if (!isNullish(value.state) && !isNullish(value.stateDiff)) return false;
+
+	if (
+		(!isNullish(value.state) && !isStorage(value.state)) ||
+		(!isNullish(value.stateDiff) && !isStorage(value.stateDiff))
+	)
+		return false;
+
+	return true;
+};
+
+/**
+ * Checks that a {@link StateOverride} maps addresses to valid account overrides
+ */
+export const isStateOverride = (value: StateOverride) => {
+	if (isNullish(value) || typeof value !== 'object' || Array.isArray(value)) return false;
+
+	return Object.entries(value).every(
+		([address, accountOverride]) => isAddress(address) && isAccountOverride(accountOverride),
+	);
+};
+
+/**
+ * First we check if all properties in the provided value are expected,
+ * then as all of them are optional, we check the type of the defined ones.
+ */
+export const isBlockOverrides = (value: BlockOverrides) => {
+	const expectedProperties: (keyof BlockOverrides)[] = [
+		'number',
+		'difficulty',
+		'time',
+		'gasLimit',
+		'coinbase',
+		'random',
+		'baseFee',
+	];
+	if (isNullish(value) || typeof value !== 'object') return false;
+
+	if (
+		!Object.keys(value).every(property =>
+			expectedProperties.includes(property as keyof BlockOverrides),
+		)
+	)
+		return false;
+
+	if (
+		(['number', 'difficulty', 'time', 'gasLimit', 'baseFee'] as const).some(
+			property => !isNullish(value[property]) && !isUInt(value[property] as string),
+		)
+	)
+		return false;
+
+	if (
+		(!isNullish(value.coinbase) && !isAddress(value.coinbase)) ||
+		(!isNullish(value.random) && !isBytes(value.random, { size: 32 }))
+	)
+		return false;
+
+	return true;
+};
@@ -15,7 +15,7 @@ You should have received a copy of the GNU Lesser General Public License
 along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 
-import { Filter } from '@etn-sc/web3-types';
+import { BlockOverrides, Filter, StateOverride } from '@etn-sc/web3-types';
 import { hexToBytes } from 'ethereum-cryptography/utils';
 import { ValidInputTypes } from '../../src/types';
 
@@ -641,6 +641,59 @@ export const invalidFilterObjectData: any[] = [
 	},
 ];
 
+const slot = '0x0000000000000000000000000000000000000000000000000000000000000001';
+
+export const validStateOverrideData: StateOverride[] = [
+	{},
+	{ '0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc': {} },
+	{
+		'0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc': {
+			balance: '0xde0b6b3a7640000',
+			nonce: 1,
+			code: '0x6080',
+			state: { [slot]: slot },
+		},
+		'0xdfd5293d8e347dfe59e90efd55b2956a1343963d': { stateDiff: { [slot]: slot } },
+	},
+];
+
+export const invalidStateOverrideData: any[] = [
+	undefined,
+	'0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc',
+	{ '0x98': {} },
+	{ '0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc': { balance: -1 } },
+	{ '0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc': { code: 'code' } },
+	{ '0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc': { storage: {} } },
+	{ '0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc': { state: { '0x01': slot } } },
+	{
+		'0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc': {
+			state: { [slot]: slot },
+			stateDiff: { [slot]: slot },
+		},
+	},
+];
+
+export const validBlockOverridesData: BlockOverrides[] = [
+	{},
+	{ number: '0xc0ff3', time: 1700000000 },
+	{
+		gasLimit: BigInt(30000000),
+		baseFee: '0x0',
+		difficulty: '0x0',
+		coinbase: '0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc',
+		random: slot,
+	},
+];
+
+export const invalidBlockOverridesData: any[] = [
+	undefined,
+	{ number: 'latest' },
+	{ time: -1 },
+	{ coinbase: '0x98' },
+	{ random: '0x01' },
+	{ timestamp: '0x1' },
+];
+
 export const validBytesData: any[] = [
 	'0x10',
 	'0xafea',
@@ -761,6 +814,11 @@ export const validNotBaseTypeData: { dataType: string; data: any }[] = [
 			toBlock: 'latest',
 		},
 	},
+	{
+		dataType: 'stateOverride',
+		data: { '0x98afe7a8d28bbc88dcf41f8e06d97c74958a47dc': { balance: '0x1' } },
+	},
+	{ dataType: 'blockOverrides', data: { number: '0x1' } },
 	{
 		dataType: 'bloom',
 		data: '0x00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000',
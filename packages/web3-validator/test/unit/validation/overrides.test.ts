@@ -0,0 +1,56 @@
+﻿/*
+This file is part of web3.js.
+
+web3.js is free software: you can redistribute it and/or modify
+it under the terms of the GNU Lesser General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+web3.js is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU Lesser General Public License for more details.
+
+You should have received a copy of the GNU Lesser General Public License
+along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
+*/
+
+import { isBlockOverrides, isStateOverride } from '../../../src/validation/overrides';
+import {
+	invalidBlockOverridesData,
+	invalidStateOverrideData,
+	validBlockOverridesData,
+	validStateOverrideData,
+} from '../../fixtures/validation';
+
+describe('validation', () => {
+	describe('overrides', () => {
+		describe('isStateOverride', () => {
+			describe('valid cases', () => {
+				it.each(validStateOverrideData)('%s', input => {
+					expect(isStateOverride(input)).toBeTruthy();
+				});
+			});
+
+			describe('invalid cases', () => {
+				it.each(invalidStateOverrideData)('%s', input => {
+					expect(isStateOverride(input)).toBeFalsy();
+				});
+			});
+		});
+
+		describe('isBlockOverrides', () => {
+			describe('valid cases', () => {
+				it.each(validBlockOverridesData)('%s', input => {
+					expect(isBlockOverrides(input)).toBeTruthy();
+				});
+			});
+
+			describe('invalid cases', () => {
+				it.each(invalidBlockOverridesData)('%s', input => {
+					expect(isBlockOverrides(input)).toBeFalsy();
+				});
+			});
+		});
+	});
+});
@@ -17,6 +17,8 @@ along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 
 import { EthExecutionAPI, Bytes, Transaction, KeyStore, ETH_DATA_FORMAT } from '@etn-sc/web3-types';
 import { format } from '@etn-sc/web3-utils';
+import { isNullish } from '@etn-sc/web3-validator';
+import { MissingPrioritySignerError } from '@etn-sc/web3-errors';
 import { Web3Context } from '@etn-sc/web3-core';
 import { prepareTransactionForSigning } from '@etn-sc/web3-eth';
 import {
@@ -25,11 +27,14 @@ import {
 	encrypt,
 	hashMessage,
 	privateKeyToAccount,
+	privateKeyToAddress,
 	recover,
+	recoverPriorityTransaction,
 	recoverTransaction,
 	signTransaction,
 	signPriorityTransaction,
 	sign,
+	SignPriorityETNIP1TransactionResult,
 	Wallet,
 } from '@etn-sc/web3-eth-accounts';
 
@@ -41,6 +46,9 @@ import {
  * should be converted to context aware.
  */
 export const initAccountsForContext = (context: Web3Context<EthExecutionAPI>) => {
+	// Assigned once the account provider is defined, the priority signers are looked up at signing time
+	let wallet: Wallet;
+
 	const signTransactionWithContext = async (transaction: Transaction, privateKey: Bytes) => {
 		const tx = await prepareTransactionForSigning(transaction, context);
 
@@ -52,14 +60,21 @@ export const initAccountsForContext = (context: Web3Context<EthExecutionAPI>) =>
 	const signPriorityTransactionWithContext = async (
 		transaction: Transaction,
 		privateKey: Bytes,
-		priorityPrivateKey: Bytes,
-	) => {
+		priorityPrivateKey?: Bytes,
+	): Promise<SignPriorityETNIP1TransactionResult> => {
 		const tx = await prepareTransactionForSigning(transaction, context);
 
 		const privateKeyBytes = format({ format: 'bytes' }, privateKey, ETH_DATA_FORMAT);
+		const prioritySignerPrivateKey =
+			priorityPrivateKey ??
+			wallet.getPrioritySigner(privateKeyToAddress(privateKeyBytes))?.privateKey;
+
+		if (isNullish(prioritySignerPrivateKey))
+			throw new MissingPrioritySignerError({ from: privateKeyToAddress(privateKeyBytes) });
+
 		const priorityPrivateKeyBytes = format(
 			{ format: 'bytes' },
-			priorityPrivateKey,
+			prioritySignerPrivateKey,
 			ETH_DATA_FORMAT,
 		);
 
@@ -73,6 +88,12 @@ export const initAccountsForContext = (context: Web3Context<EthExecutionAPI>) =>
 			...account,
 			signTransaction: async (transaction: Transaction) =>
 				signTransactionWithContext(transaction, account.privateKey),
+			signPriorityTransaction: async (transaction: Transaction, priorityPrivateKey?: Bytes) =>
+				signPriorityTransactionWithContext(
+					transaction,
+					account.privateKey,
+					priorityPrivateKey,
+				),
 		};
 	};
 
@@ -87,6 +108,12 @@ export const initAccountsForContext = (context: Web3Context<EthExecutionAPI>) =>
 			...account,
 			signTransaction: async (transaction: Transaction) =>
 				signTransactionWithContext(transaction, account.privateKey),
+			signPriorityTransaction: async (transaction: Transaction, priorityPrivateKey?: Bytes) =>
+				signPriorityTransactionWithContext(
+					transaction,
+					account.privateKey,
+					priorityPrivateKey,
+				),
 		};
 	};
 
@@ -97,10 +124,16 @@ export const initAccountsForContext = (context: Web3Context<EthExecutionAPI>) =>
 			...account,
 			signTransaction: async (transaction: Transaction) =>
 				signTransactionWithContext(transaction, account.privateKey),
+			signPriorityTransaction: async (transaction: Transaction, priorityPrivateKey?: Bytes) =>
+				signPriorityTransactionWithContext(
+					transaction,
+					account.privateKey,
+					priorityPrivateKey,
+				),
 		};
 	};
 
-	const wallet = new Wallet({
+	wallet = new Wallet({
 		create: createWithContext,
 		privateKeyToAccount: privateKeyToAccountWithContext,
 		decrypt: decryptWithContext,
@@ -113,6 +146,7 @@ export const initAccountsForContext = (context: Web3Context<EthExecutionAPI>) =>
 		privateKeyToAccount: privateKeyToAccountWithContext,
 		decrypt: decryptWithContext,
 		recoverTransaction,
+		recoverPriorityTransaction,
 		hashMessage,
 		sign,
 		recover,
@@ -331,7 +331,12 @@ export default Web3;
  * Named exports for all objects which are the default-exported-object in their packages
  */
 export { Web3 };
-export { Web3Context, Web3PluginBase, Web3EthPluginBase } from '@etn-sc/web3-core';
+export {
+	Web3Context,
+	Web3PluginBase,
+	Web3EthPluginBase,
+	FallbackProvider,
+} from '@etn-sc/web3-core';
 export { Web3Eth } from '@etn-sc/web3-eth';
 export { Contract } from '@etn-sc/web3-eth-contract';
 export { Iban } from '@etn-sc/web3-eth-iban';
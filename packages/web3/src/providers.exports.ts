@@ -16,6 +16,7 @@ along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 */
 
 export { Eip1193Provider, SocketProvider } from '@etn-sc/web3-utils';
+export { FallbackProvider } from '@etn-sc/web3-core';
 
 export * as http from '@etn-sc/web3-providers-http';
 export * as ws from '@etn-sc/web3-providers-ws';
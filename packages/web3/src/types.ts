@@ -30,6 +30,7 @@ import {
 	encrypt,
 	hashMessage,
 	recover,
+	recoverPriorityTransaction,
 	recoverTransaction,
 	sign,
 	signTransaction,
@@ -83,9 +84,10 @@ export interface Web3EthInterface extends Eth {
 		signPriorityTransaction: (
 			transaction: Transaction,
 			privateKey: Bytes,
-			priorityPrivateKey: Bytes,
+			priorityPrivateKey?: Bytes,
 		) => ReturnType<typeof signPriorityTransaction>;
 		recoverTransaction: typeof recoverTransaction;
+		recoverPriorityTransaction: typeof recoverPriorityTransaction;
 		hashMessage: typeof hashMessage;
 		sign: typeof sign;
 		recover: typeof recover;
@@ -17,7 +17,12 @@ along with web3.js.  If not, see <http://www.gnu.org/licenses/>.
 
 import * as eth from '@etn-sc/web3-eth';
 import * as ethAccounts from '@etn-sc/web3-eth-accounts';
-import { SignTransactionResult, Web3Account } from '@etn-sc/web3-eth-accounts';
+import {
+	SignPriorityETNIP1TransactionResult,
+	SignTransactionResult,
+	Web3Account,
+} from '@etn-sc/web3-eth-accounts';
+import { MissingPrioritySignerError } from '@etn-sc/web3-errors';
 import { Web3EthInterface } from '../../src/types';
 import { Web3 } from '../../src';
 
@@ -49,6 +54,25 @@ describe('test new Web3().eth.accounts', () => {
 		expect(ethAccounts.signTransaction).toHaveBeenCalledTimes(1);
 	});
 
+	it('`signPriorityTransaction` should call the original `prepareTransactionForSigning` and `signPriorityTransaction`', async () => {
+		jest.spyOn(ethAccounts, 'signPriorityTransaction').mockReturnValue(
+			undefined as unknown as Promise<SignPriorityETNIP1TransactionResult>,
+		);
+
+		await accounts.signPriorityTransaction({}, '', '');
+
+		expect(eth.prepareTransactionForSigning).toHaveBeenCalledTimes(1);
+		expect(ethAccounts.signPriorityTransaction).toHaveBeenCalledTimes(1);
+	});
+
+	it('`signPriorityTransaction` should throw if no priority signer is available', async () => {
+		await expect(accounts.signPriorityTransaction({}, '')).rejects.toThrow(
+			MissingPrioritySignerError,
+		);
+
+		expect(ethAccounts.signPriorityTransaction).not.toHaveBeenCalled();
+	});
+
 	it('`privateKeyToAccount` should call the original `privateKeyToAccount` and add `signTransaction`', async () => {
 		jest.spyOn(ethAccounts, 'privateKeyToAccount').mockReturnValue({
 			privateKey: '',